@@ -6,8 +6,9 @@ import ProcessorView from './components/ProcessorView';
 import MapView from './components/MapView';
 import Login from './components/Login';
 import { AuthSession } from './types';
-import { supabase, clearGeoCache, ensureMunicipalIndexWarmCache, getMunicipalIndexStats, ensureZonesWarmCache } from './services/postalService';
+import { supabase, clearGeoCache, ensureMunicipalIndexWarmCache, getMunicipalIndexStats, ensureZonesWarmCache, loadAddressDictionaries } from './services/postalService';
 import TeamManager from './components/TeamManager';
+import DictionaryManager from './components/DictionaryManager';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'database' | 'processor' | 'map'>(() => {
@@ -39,6 +40,7 @@ const App: React.FC = () => {
   const [showNewPwd, setShowNewPwd] = useState(false);
   const [showConfirmPwd, setShowConfirmPwd] = useState(false);
   const [showTeamManager, setShowTeamManager] = useState(false);
+  const [showDictionaryManager, setShowDictionaryManager] = useState(false);
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const reset = params.get('reset');
@@ -53,6 +55,7 @@ const App: React.FC = () => {
           await ensureMunicipalIndexWarmCache();
         }
         await ensureZonesWarmCache();
+        await loadAddressDictionaries();
       } catch {}
     })();
   }, []);
@@ -70,6 +73,7 @@ const App: React.FC = () => {
             onChangePassword={() => { setPwdError(null); setPwdSuccess(null); setOldPwd(''); setNewPwd(''); setConfirmPwd(''); setShowChangePwd(true); }}
             isAdmin={auth.role === 'Admin'}
             onOpenTeam={() => setShowTeamManager(true)}
+            onOpenDictionaries={() => setShowDictionaryManager(true)}
           />
           <main className="py-6 px-4 sm:px-6 lg:px-8 h-full">
             {activeTab === 'database' && <DatabaseView />}
@@ -218,6 +222,9 @@ const App: React.FC = () => {
           {showTeamManager && auth?.role === 'Admin' && (
             <TeamManager onClose={() => setShowTeamManager(false)} />
           )}
+          {showDictionaryManager && (
+            <DictionaryManager onClose={() => setShowDictionaryManager(false)} />
+          )}
         </>
       )}
     </div>
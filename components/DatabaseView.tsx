@@ -1,9 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { Database, RefreshCw, Search, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, FileArchive, ExternalLink, Info, FileSpreadsheet, Upload } from 'lucide-react';
+import { Database, RefreshCw, Search, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, FileArchive, ExternalLink, Info, FileSpreadsheet, Upload, AlertTriangle, Download, MapPin, ShieldCheck, Route, Trash2 } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import shp from 'shpjs';
-import { saveShapefileData, getPostalDatabaseStats, getPaginatedPostalDatabase, updateZonesFromMasterExcel, syncZonesToSupabase, getMunicipalIndexStats, clearMunicipalIndex } from '../services/postalService';
-import { PostalZone, PaginatedResult } from '../types';
+import { saveShapefileData, getPostalDatabaseStats, getPaginatedPostalDatabase, updateZonesFromMasterExcel, syncZonesToSupabase, getMunicipalIndexStats, clearMunicipalIndex, validateZonesTopology, importStreetNetwork, getStreetNetworkStats, clearStreetNetwork } from '../services/postalService';
+import { readShapefileZip } from '../services/shapefileImport';
+import { PostalZone, PaginatedResult, TopologyIssue, TopologyIssueType } from '../types';
+
+const TOPOLOGY_LABELS: Record<TopologyIssueType, string> = {
+  SOLAPAMIENTO: 'Solapamiento',
+  HUECO: 'Hueco entre zonas',
+  AUTOINTERSECCION: 'Anillo auto-intersectado',
+  GEOMETRIA_VACIA: 'Geometría vacía',
+  CP_DUPLICADO: 'C.P. duplicado'
+};
+
+const MAX_TOPOLOGY_ROWS = 100;
+
+const getIssueMapUrl = (issue: TopologyIssue): string =>
+  isFinite(issue.lat) && isFinite(issue.lon)
+    ? `https://www.openstreetmap.org/?mlat=${issue.lat}&mlon=${issue.lon}#map=17/${issue.lat}/${issue.lon}`
+    : '';
 
 
 const DatabaseView: React.FC = () => {
@@ -22,11 +37,15 @@ const DatabaseView: React.FC = () => {
   const [page, setPage] = useState(1);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingMessage, setProcessingMessage] = useState('');
+  const [topologyIssues, setTopologyIssues] = useState<TopologyIssue[] | null>(null);
+  const [streetCity, setStreetCity] = useState('');
+  const [streetStats, setStreetStats] = useState<{ ciudad: string, calles: number }[]>([]);
 
   useEffect(() => {
     loadStats();
     loadTable();
     loadMuniIndexStats();
+    loadStreetStats();
   }, []);
 
   useEffect(() => { setPage(1); loadTable(); }, [searchQuery, itemsPerPage]);
@@ -44,6 +63,44 @@ const DatabaseView: React.FC = () => {
       } catch {}
   };
 
+  const loadStreetStats = async () => {
+      try {
+        setStreetStats(await getStreetNetworkStats());
+      } catch {}
+  };
+
+  const handleStreetNetworkUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!streetCity.trim()) {
+        setMessage({ type: 'error', text: 'Indique la ciudad antes de cargar la red vial.' });
+        return;
+    }
+
+    setLoading(true);
+    setProgress(0);
+    setProgressMsg('Leyendo red vial...');
+    setMessage(null);
+
+    try {
+        const res = await importStreetNetwork(file, streetCity, (pct, msg) => {
+            setProgress(pct);
+            setProgressMsg(msg);
+        });
+        await loadStreetStats();
+        setMessage({ type: 'success', text: `Red vial de ${streetCity.trim()} cargada: ${res.streets} calles con nomenclatura (${res.ways} tramos OSM).` });
+        setStreetCity('');
+    } catch (err: any) {
+        console.error(err);
+        setMessage({ type: 'error', text: err.message || 'Error al procesar la red vial' });
+    } finally {
+        setLoading(false);
+        setProgress(0);
+        setProgressMsg('');
+    }
+  };
+
   const loadTable = async () => {
       const r = await getPaginatedPostalDatabase(page, itemsPerPage, searchQuery);
       setResult(r);
@@ -67,9 +124,10 @@ const DatabaseView: React.FC = () => {
         const arrayBuffer = await file.arrayBuffer();
         
         setProgress(20);
-        setProgressMsg('Parseando geometría...');
+        setProgressMsg('Parseando geometría y detectando proyección (.prj)...');
         
-        const geoJson = await shp(arrayBuffer);
+        // Reprojected to WGS84 here, before saveShapefileData computes bboxes and centroids
+        const geoJson = await readShapefileZip(arrayBuffer);
         const validGeoJson = Array.isArray(geoJson) ? geoJson[0] : geoJson;
         
         if (!validGeoJson || !validGeoJson.features) {
@@ -86,12 +144,19 @@ const DatabaseView: React.FC = () => {
             setProgressMsg(msg);
         });
 
+        const issues = await validateZonesTopology((pct, msg) => {
+            setProgress(pct);
+            setProgressMsg(msg);
+        });
+        setTopologyIssues(issues);
+
         await loadStats();
         setSearchQuery('');
         setPage(1);
         await loadTable();
         const supabaseNote = syncRes.inserted > 0 ? ` Sincronizadas en Supabase: ${syncRes.inserted}.` : '';
-        setMessage({ type: 'success', text: `Shapefile cargado exitosamente. ${validGeoJson.features.length} zonas importadas.${supabaseNote}` });
+        const topologyNote = issues.length > 0 ? ` Validación topológica: ${issues.length} hallazgos (ver reporte).` : ' Validación topológica sin hallazgos.';
+        setMessage({ type: 'success', text: `Shapefile cargado exitosamente. ${validGeoJson.features.length} zonas importadas.${supabaseNote}${topologyNote}` });
 
     } catch (err: any) {
         console.error(err);
@@ -103,6 +168,47 @@ const DatabaseView: React.FC = () => {
     }
   };
 
+  const handleValidateTopology = async () => {
+    setLoading(true);
+    setProgress(0);
+    setProgressMsg('Validando topología...');
+    setMessage(null);
+    try {
+        const issues = await validateZonesTopology((pct, msg) => {
+            setProgress(pct);
+            setProgressMsg(msg);
+        });
+        setTopologyIssues(issues);
+        setMessage({ type: 'success', text: issues.length > 0 ? `Validación topológica: ${issues.length} hallazgos.` : 'Validación topológica sin hallazgos.' });
+    } catch (err: any) {
+        console.error(err);
+        setMessage({ type: 'error', text: err.message || 'Error al validar la topología' });
+    } finally {
+        setLoading(false);
+        setProgress(0);
+        setProgressMsg('');
+    }
+  };
+
+  const downloadTopologyReport = () => {
+    if (!topologyIssues || topologyIssues.length === 0) return;
+    const rows = topologyIssues.map(issue => ({
+      'TIPO': TOPOLOGY_LABELS[issue.tipo],
+      'CODIGOS POSTALES': issue.codigos_postales.join(', '),
+      'MUNICIPIO': issue.municipio,
+      'DETALLE': issue.detalle,
+      'DISTANCIA (m)': issue.distancia_m ?? '',
+      'LATITUD': isFinite(issue.lat) ? issue.lat : '',
+      'LONGITUD': isFinite(issue.lon) ? issue.lon : '',
+      'MAPA': getIssueMapUrl(issue),
+      'ZONAS (ID)': issue.zona_ids.join(', ')
+    }));
+    const ws = XLSX.utils.json_to_sheet(rows);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Topologia');
+    XLSX.writeFile(wb, 'Reporte_Topologia_Shapefile.xlsx', { bookType: 'xlsx' });
+  };
+
   const handleMasterExcelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
@@ -179,15 +285,25 @@ const DatabaseView: React.FC = () => {
             </div>
           </div>
           
-          <a 
-            href="https://www.datos.gov.co/Ordenamiento-Territorial/C-digos-Postales-Nacionales/ixig-z8b5/about_data" 
-            target="_blank" 
-            rel="noopener noreferrer"
-            className="text-xs bg-brand-50 text-brand-700 px-3 py-2 rounded-lg border border-brand-100 hover:bg-brand-100 transition-colors flex items-center"
-          >
-            <ExternalLink className="w-3 h-3 mr-1.5" />
-            Descargar Shapefile Oficial
-          </a>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleValidateTopology}
+              disabled={loading || stats.count === 0}
+              className="text-xs bg-white text-slate-700 px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors flex items-center disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <ShieldCheck className="w-3 h-3 mr-1.5" />
+              Validar Topología
+            </button>
+            <a 
+              href="https://www.datos.gov.co/Ordenamiento-Territorial/C-digos-Postales-Nacionales/ixig-z8b5/about_data" 
+              target="_blank" 
+              rel="noopener noreferrer"
+              className="text-xs bg-brand-50 text-brand-700 px-3 py-2 rounded-lg border border-brand-100 hover:bg-brand-100 transition-colors flex items-center"
+            >
+              <ExternalLink className="w-3 h-3 mr-1.5" />
+              Descargar Shapefile Oficial
+            </a>
+          </div>
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
@@ -302,6 +418,97 @@ const DatabaseView: React.FC = () => {
             {message.text}
           </div>
         )}
+
+        {/* Offline street network */}
+        <div className="mt-3 border border-slate-200 rounded-lg p-3 flex flex-col md:flex-row md:items-center gap-3">
+          <div className="flex items-center text-xs text-slate-700 md:w-64 flex-shrink-0">
+            <Route className="w-4 h-4 mr-2 text-brand-600" />
+            <div>
+              <span className="font-bold block">Red vial (geocodificador offline)</span>
+              <span className="text-[10px] text-slate-500">Extracto OSM (.osm.pbf o GeoJSON) por ciudad</span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={streetCity}
+              onChange={(e) => setStreetCity(e.target.value)}
+              placeholder="Ciudad (ej. Bogotá)"
+              className="px-2 py-1.5 border border-slate-300 rounded-md text-xs w-40 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500"
+            />
+            <label className={`text-xs px-3 py-1.5 rounded-md border flex items-center ${loading || !streetCity.trim() ? 'opacity-40 cursor-not-allowed border-slate-200 text-slate-500' : 'cursor-pointer border-brand-200 text-brand-700 hover:bg-brand-50'}`}>
+              <Upload className="w-3 h-3 mr-1.5" />
+              Cargar red vial
+              <input type="file" className="hidden" accept=".pbf,.geojson,.json" disabled={loading || !streetCity.trim()} onChange={handleStreetNetworkUpload} />
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {streetStats.length === 0 && <span className="text-[10px] text-slate-400">Sin redes viales cargadas</span>}
+            {streetStats.map(s => (
+              <span key={s.ciudad} className="inline-flex items-center px-2 py-0.5 rounded bg-slate-100 text-slate-700 text-[10px] font-medium">
+                {s.ciudad}: {s.calles.toLocaleString()} calles
+                <button
+                  onClick={async () => { await clearStreetNetwork(s.ciudad); await loadStreetStats(); }}
+                  disabled={loading}
+                  className="ml-1 text-slate-400 hover:text-red-600"
+                  title="Eliminar red vial"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Topology Report */}
+        {topologyIssues && topologyIssues.length > 0 && (
+          <div className="mt-3 border border-amber-200 rounded-lg overflow-hidden">
+            <div className="bg-amber-50 px-4 py-2 flex flex-col md:flex-row md:items-center justify-between gap-2">
+              <div className="flex items-center flex-wrap gap-2 text-xs text-amber-800">
+                <AlertTriangle className="w-4 h-4" />
+                <span className="font-bold">Reporte topológico: {topologyIssues.length} hallazgos</span>
+                {(Object.keys(TOPOLOGY_LABELS) as TopologyIssueType[]).map(t => {
+                  const n = topologyIssues.filter(i => i.tipo === t).length;
+                  return n > 0 ? (
+                    <span key={t} className="px-2 py-0.5 rounded bg-white border border-amber-200 text-[10px] font-medium">{TOPOLOGY_LABELS[t]}: {n}</span>
+                  ) : null;
+                })}
+              </div>
+              <button onClick={downloadTopologyReport} className="text-xs bg-white text-amber-800 px-3 py-1.5 rounded-md border border-amber-300 hover:bg-amber-100 flex items-center">
+                <Download className="w-3 h-3 mr-1.5" />
+                Descargar Reporte (.xlsx)
+              </button>
+            </div>
+            <div className="max-h-64 overflow-auto">
+              <table className="min-w-full divide-y divide-slate-100 text-xs">
+                <tbody className="bg-white divide-y divide-slate-50">
+                  {topologyIssues.slice(0, MAX_TOPOLOGY_ROWS).map((issue, idx) => {
+                    const url = getIssueMapUrl(issue);
+                    return (
+                      <tr key={`${issue.tipo}-${idx}`} className="hover:bg-amber-50/40">
+                        <td className="px-4 py-1.5 whitespace-nowrap font-medium text-slate-700">{TOPOLOGY_LABELS[issue.tipo]}</td>
+                        <td className="px-4 py-1.5 whitespace-nowrap font-mono text-slate-500">{issue.codigos_postales.join(', ')}</td>
+                        <td className="px-4 py-1.5 whitespace-nowrap text-slate-600">{issue.municipio}</td>
+                        <td className="px-4 py-1.5 text-slate-500">{issue.detalle}</td>
+                        <td className="px-4 py-1.5 whitespace-nowrap">
+                          {url ? (
+                            <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-brand-600 hover:underline">
+                              <MapPin className="w-3 h-3 mr-1" />
+                              Ver en mapa
+                            </a>
+                          ) : '-'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {topologyIssues.length > MAX_TOPOLOGY_ROWS && (
+                <p className="px-4 py-2 text-[10px] text-slate-400">Mostrando {MAX_TOPOLOGY_ROWS} de {topologyIssues.length}. Descargue el reporte para ver todos.</p>
+              )}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Data Table Section */}
@@ -0,0 +1,264 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, BookOpen, Plus, Trash2, Save, Download, Upload, RotateCcw } from 'lucide-react';
+import { loadAddressDictionaries, saveAddressDictionaries, resetAddressDictionaries, validateAddressDictionaries } from '../services/postalService';
+import { AddressDictionaries } from '../types';
+
+interface DictionaryManagerProps {
+  onClose: () => void;
+}
+
+type Tab = 'abreviaturas' | 'palabras_ruido' | 'ciudades_conflictivas';
+
+const TABS: { id: Tab; label: string; hint: string }[] = [
+  { id: 'abreviaturas', label: 'Abreviaturas', hint: 'Variantes locales que se expanden antes de normalizar (ej. "kra" → "Carrera"). Un punto final es opcional.' },
+  { id: 'palabras_ruido', label: 'Palabras de ruido', hint: 'Se eliminan de la dirección antes de geocodificar (apto, torre, mz...).' },
+  { id: 'ciudades_conflictivas', label: 'Ciudades conflictivas', hint: 'Nombres de ciudad que se quitan de la dirección cuando no son la ciudad de destino.' }
+];
+
+const inputClass = 'block w-full px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500';
+
+const DictionaryManager: React.FC<DictionaryManagerProps> = ({ onClose }) => {
+  const [dicts, setDicts] = useState<AddressDictionaries | null>(null);
+  const [tab, setTab] = useState<Tab>('abreviaturas');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [variante, setVariante] = useState('');
+  const [expansion, setExpansion] = useState('');
+  const [word, setWord] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadAddressDictionaries()
+      .then(d => setDicts({ ...d }))
+      .catch(() => setError('No se pudieron cargar los diccionarios.'));
+  }, []);
+
+  const notify = (msg: string) => { setError(null); setSuccess(msg); };
+
+  const addAbbreviation = () => {
+    if (!dicts || !variante.trim() || !expansion.trim()) return;
+    const v = variante.trim().toLowerCase().replace(/\.$/, '');
+    const rest = dicts.abreviaturas.filter(a => a.variante !== v);
+    setDicts({ ...dicts, abreviaturas: [{ variante: v, expansion: expansion.trim() }, ...rest] });
+    setVariante('');
+    setExpansion('');
+  };
+
+  const addWord = () => {
+    if (!dicts || !word.trim() || tab === 'abreviaturas') return;
+    const w = word.trim().toLowerCase();
+    if (!dicts[tab].includes(w)) setDicts({ ...dicts, [tab]: [w, ...dicts[tab]] });
+    setWord('');
+  };
+
+  const removeWord = (w: string) => {
+    if (!dicts || tab === 'abreviaturas') return;
+    setDicts({ ...dicts, [tab]: dicts[tab].filter(x => x !== w) });
+  };
+
+  const save = async () => {
+    if (!dicts) return;
+    setSaving(true);
+    try {
+      const saved = await saveAddressDictionaries(dicts);
+      setDicts({ ...saved });
+      notify('Diccionarios guardados. Se aplican en el próximo procesamiento.');
+    } catch (e: any) {
+      setSuccess(null);
+      setError(e?.message || 'No se pudieron guardar los diccionarios.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const restoreDefaults = async () => {
+    if (!confirm('¿Restaurar los diccionarios predeterminados? Se perderán los cambios guardados.')) return;
+    const d = await resetAddressDictionaries();
+    setDicts({ ...d });
+    notify('Diccionarios predeterminados restaurados.');
+  };
+
+  const exportJson = () => {
+    if (!dicts) return;
+    const { abreviaturas, palabras_ruido, ciudades_conflictivas } = dicts;
+    const blob = new Blob([JSON.stringify({ abreviaturas, palabras_ruido, ciudades_conflictivas }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'Diccionarios_Direcciones.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = validateAddressDictionaries(JSON.parse(await file.text()));
+      setDicts(parsed);
+      notify(`Archivo "${file.name}" importado. Revise y pulse Guardar para aplicarlo.`);
+    } catch (err: any) {
+      setSuccess(null);
+      setError(err instanceof SyntaxError ? 'El archivo no es un JSON válido.' : (err?.message || 'No se pudo importar el archivo.'));
+    }
+  };
+
+  const currentTab = TABS.find(t => t.id === tab)!;
+  const words = dicts && tab !== 'abreviaturas' ? dicts[tab] : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-[1000]">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 w-full max-w-3xl">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <BookOpen className="h-5 w-5 text-slate-700" />
+            <h2 className="text-lg font-bold text-slate-800">Diccionarios de Direcciones</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-md hover:bg-slate-100">
+            <X className="h-4 w-4 text-slate-500" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex space-x-1 bg-slate-50 p-1 rounded-lg border border-slate-200">
+              {TABS.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => { setTab(t.id); setWord(''); }}
+                  className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+                    tab === t.id ? 'bg-white text-brand-700 shadow-sm border border-slate-200' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  {t.label} {dicts && <span className="text-slate-400">({dicts[t.id].length})</span>}
+                </button>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <button onClick={exportJson} disabled={!dicts} className="px-2 py-1 rounded-md bg-slate-100 text-slate-700 text-xs hover:bg-slate-200 inline-flex items-center disabled:opacity-50">
+                <Download className="mr-1 h-3 w-3" />
+                Exportar JSON
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className="px-2 py-1 rounded-md bg-slate-100 text-slate-700 text-xs hover:bg-slate-200 inline-flex items-center">
+                <Upload className="mr-1 h-3 w-3" />
+                Importar JSON
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={importJson} />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{currentTab.hint}</p>
+
+          {tab === 'abreviaturas' ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input type="text" value={variante} onChange={(e) => setVariante(e.target.value)} placeholder="Variante (ej. kra)" className={inputClass} />
+              <input type="text" value={expansion} onChange={(e) => setExpansion(e.target.value)} placeholder="Expansión (ej. Carrera)" className={inputClass} />
+              <button
+                onClick={addAbbreviation}
+                disabled={!variante.trim() || !expansion.trim()}
+                className="inline-flex items-center justify-center px-3 py-2 rounded-md text-sm font-medium bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Agregar
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={word}
+                onChange={(e) => setWord(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') addWord(); }}
+                placeholder={tab === 'palabras_ruido' ? 'Palabra (ej. lt)' : 'Ciudad (ej. bello)'}
+                className={`${inputClass} md:col-span-2`}
+              />
+              <button
+                onClick={addWord}
+                disabled={!word.trim()}
+                className="inline-flex items-center justify-center px-3 py-2 rounded-md text-sm font-medium bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Agregar
+              </button>
+            </div>
+          )}
+
+          {error && <div className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-md p-2">{error}</div>}
+          {success && <div className="text-xs text-green-700 bg-green-50 border border-green-200 rounded-md p-2">{success}</div>}
+
+          <div className="border border-slate-200 rounded-lg">
+            <div className="max-h-[50vh] overflow-y-auto">
+              {tab === 'abreviaturas' ? (
+                <table className="min-w-full divide-y divide-slate-200 text-sm">
+                  <thead className="bg-slate-50 sticky top-0 z-10">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-slate-500">Variante</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-slate-500">Expansión</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-slate-500">Acciones</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-100">
+                    {(dicts?.abreviaturas || []).map(a => (
+                      <tr key={a.variante}>
+                        <td className="px-3 py-2 font-mono text-slate-800">{a.variante}</td>
+                        <td className="px-3 py-2 text-slate-800">{a.expansion}</td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            onClick={() => dicts && setDicts({ ...dicts, abreviaturas: dicts.abreviaturas.filter(x => x.variante !== a.variante) })}
+                            className="px-2 py-1 rounded-md bg-red-600 text-white text-xs hover:bg-red-700 inline-flex items-center"
+                          >
+                            <Trash2 className="mr-1 h-3 w-3" />
+                            Eliminar
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    {dicts && dicts.abreviaturas.length === 0 && (
+                      <tr>
+                        <td className="px-3 py-6 text-center text-slate-400 text-xs" colSpan={3}>Sin abreviaturas</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="p-3 flex flex-wrap gap-2">
+                  {words.map(w => (
+                    <span key={w} className="inline-flex items-center px-2 py-1 rounded-md bg-slate-100 text-slate-700 text-xs font-mono">
+                      {w}
+                      <button onClick={() => removeWord(w)} className="ml-1 text-slate-400 hover:text-red-600" title="Quitar">
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                  {words.length === 0 && <span className="text-slate-400 text-xs">Lista vacía</span>}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-slate-400">
+              {dicts?.actualizado ? `Guardado: ${new Date(dicts.actualizado).toLocaleString()}` : 'Usando valores predeterminados'}
+            </span>
+            <div className="flex space-x-2">
+              <button onClick={restoreDefaults} className="px-3 py-2 rounded-md bg-slate-100 text-slate-700 text-sm hover:bg-slate-200 inline-flex items-center">
+                <RotateCcw className="mr-1 h-4 w-4" />
+                Restaurar
+              </button>
+              <button
+                onClick={save}
+                disabled={!dicts || saving}
+                className="px-3 py-2 rounded-md bg-green-600 text-white text-sm hover:bg-green-700 inline-flex items-center disabled:opacity-50"
+              >
+                <Save className="mr-1 h-4 w-4" />
+                Guardar
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DictionaryManager;
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Map as MapIcon, Search, Info, Loader2, X, MapPin, Hash, Building2, Navigation, Globe } from 'lucide-react';
+import { Map as MapIcon, Search, Info, Loader2, X, MapPin, Hash, Building2, Navigation, Globe, Crosshair, Copy, Check } from 'lucide-react';
 import L from 'leaflet';
-import { getAllPostalZones, searchExternalLocations, findZoneByPoint } from '../services/postalService';
+import { getAllPostalZones, searchExternalLocations, findZoneByPoint, ensureZonesWarmCache, getZoneDisplayGeometry, findNeighborZones, findNearestZoneWithin } from '../services/postalService';
+import { getLodLevelForZoom } from '../services/geometry';
 import { PostalZone } from '../types';
 
 // Default center (Bogota)
@@ -21,6 +22,16 @@ L.Marker.prototype.options.icon = iconDefault;
 
 type SearchMode = 'address' | 'cp' | 'muni' | 'depto';
 
+// Result of clicking the map in identify mode
+interface IdentifiedPoint {
+  lat: number;
+  lon: number;
+  zone: PostalZone | null;
+  neighbors: PostalZone[];
+  // Closest zone within the nearest-zone buffer when the point falls outside every polygon
+  nearest: { zone: PostalZone, distanceM: number } | null;
+}
+
 const normalizeStr = (str: string) => str ? str.toString().normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim() : "";
 
 const MapView: React.FC = () => {
@@ -30,6 +41,9 @@ const MapView: React.FC = () => {
   const [loadingSearch, setLoadingSearch] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
   const [searchSuccess, setSearchSuccess] = useState<string | null>(null);
+  const [identifyMode, setIdentifyMode] = useState(false);
+  const [identified, setIdentified] = useState<IdentifiedPoint | null>(null);
+  const [coordsCopied, setCoordsCopied] = useState(false);
   
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
@@ -38,6 +52,10 @@ const MapView: React.FC = () => {
   const highlightLayerRef = useRef<L.LayerGroup | null>(null); 
   
   const allZonesRef = useRef<PostalZone[]>([]);
+  // Read by the map click handler, which is bound once at init
+  const identifyModeRef = useRef(false);
+  // Drawn zone layers and the LOD level they currently show, so zoom changes can swap geometries
+  const zoneLayersRef = useRef<{ zone: PostalZone, layer: L.GeoJSON, lod: number }[]>([]);
 
   useEffect(() => {
     // Initialize Map
@@ -50,13 +68,17 @@ const MapView: React.FC = () => {
       markerLayerGroupRef.current = L.layerGroup().addTo(map); // Address markers
       
       mapInstanceRef.current = map;
+      map.on('zoomend', () => refreshZoneLayersLod(map.getZoom()));
+      map.on('click', (e: L.LeafletMouseEvent) => {
+          if (identifyModeRef.current) identifyPoint(e.latlng.lat, e.latlng.lng);
+      });
 
       setTimeout(() => {
          map.invalidateSize();
       }, 300);
       
-      // Async load data from IndexedDB
-      getAllPostalZones().then(zones => {
+      // Async load data from IndexedDB (warm cache also builds the spatial index used by findZoneByPoint)
+      ensureZonesWarmCache().then(() => getAllPostalZones()).then(zones => {
           allZonesRef.current = zones;
           setLoadingData(false);
       }).catch(err => {
@@ -68,14 +90,48 @@ const MapView: React.FC = () => {
     return () => { if (mapInstanceRef.current) { mapInstanceRef.current.remove(); mapInstanceRef.current = null; } };
   }, []);
 
+  // Simplified geometry for the current zoom; point-in-polygon keeps using zone.geometry
+  const addZoneLayer = (zone: PostalZone, style: L.PathOptions, target: L.LayerGroup): L.GeoJSON => {
+      const lod = getLodLevelForZoom(mapInstanceRef.current ? mapInstanceRef.current.getZoom() : 6);
+      const layer = L.geoJSON(getZoneDisplayGeometry(zone, lod) as any, { style }).addTo(target);
+      zoneLayersRef.current.push({ zone, layer, lod });
+      return layer;
+  };
+
+  const refreshZoneLayersLod = (zoom: number) => {
+      const lod = getLodLevelForZoom(zoom);
+      zoneLayersRef.current.forEach(entry => {
+          if (entry.lod === lod) return;
+          entry.layer.clearLayers();
+          entry.layer.addData(getZoneDisplayGeometry(entry.zone, lod) as any);
+          entry.lod = lod;
+          // Permanent CP labels point at the removed child layer; re-bind so they follow the new one
+          const tooltip = entry.layer.getTooltip();
+          if (tooltip) {
+              const content = tooltip.getContent();
+              const options = tooltip.options;
+              entry.layer.unbindTooltip();
+              if (content) entry.layer.bindTooltip(content as any, options);
+          }
+      });
+  };
+
   const clearMapLayers = () => {
+      zoneLayersRef.current = [];
       if (layerGroupRef.current) layerGroupRef.current.clearLayers();
       if (markerLayerGroupRef.current) markerLayerGroupRef.current.clearLayers();
       if (highlightLayerRef.current) highlightLayerRef.current.clearLayers();
   };
 
+  useEffect(() => {
+    identifyModeRef.current = identifyMode;
+    if (mapInstanceRef.current) mapInstanceRef.current.getContainer().style.cursor = identifyMode ? 'crosshair' : '';
+    if (!identifyMode) setIdentified(null);
+  }, [identifyMode]);
+
   useEffect(() => {
     setSearchTerm('');
+    setIdentified(null);
     clearMapLayers();
     setLoadingSearch(false);
     setSearchError(null);
@@ -99,14 +155,12 @@ const MapView: React.FC = () => {
       const featureGroup = new L.FeatureGroup();
 
       zones.forEach(zone => {
-          const layer = L.geoJSON(zone.geometry as any, {
-              style: {
-                  color: '#9333ea',
-                  weight: 2,
-                  fillColor: '#a855f7',
-                  fillOpacity: 0.1
-              }
-          }).addTo(layerGroupRef.current!);
+          const layer = addZoneLayer(zone, {
+              color: '#9333ea',
+              weight: 2,
+              fillColor: '#a855f7',
+              fillOpacity: 0.1
+          }, layerGroupRef.current!);
           
           layer.bindPopup(`
               <div class="font-sans">
@@ -152,14 +206,12 @@ const MapView: React.FC = () => {
       const featureGroup = new L.FeatureGroup();
 
       zones.forEach(zone => {
-          const layer = L.geoJSON(zone.geometry as any, {
-              style: {
-                  color: '#ea580c',
-                  weight: 1,
-                  fillColor: '#f97316',
-                  fillOpacity: 0.1
-              }
-          }).addTo(layerGroupRef.current!);
+          const layer = addZoneLayer(zone, {
+              color: '#ea580c',
+              weight: 1,
+              fillColor: '#f97316',
+              fillOpacity: 0.1
+          }, layerGroupRef.current!);
           
           layer.bindPopup(`
               <div class="font-sans">
@@ -203,14 +255,12 @@ const MapView: React.FC = () => {
       const featureGroup = new L.FeatureGroup();
 
       zones.forEach(zone => {
-          const layer = L.geoJSON(zone.geometry as any, {
-              style: {
-                  color: '#2563eb',
-                  weight: 3,
-                  fillColor: '#3b82f6',
-                  fillOpacity: 0.4
-              }
-          }).addTo(layerGroupRef.current!);
+          const layer = addZoneLayer(zone, {
+              color: '#2563eb',
+              weight: 3,
+              fillColor: '#3b82f6',
+              fillOpacity: 0.4
+          }, layerGroupRef.current!);
           
           layer.bindPopup(`
               <div class="font-sans">
@@ -236,6 +286,7 @@ const MapView: React.FC = () => {
     setLoadingSearch(true);
     setSearchError(null);
     setSearchSuccess(null);
+    setIdentified(null);
     clearMapLayers();
 
     try {
@@ -276,6 +327,72 @@ const MapView: React.FC = () => {
     }
   };
 
+  // Drops a marker at the clicked point and highlights its zone and the zones bordering it
+  const identifyPoint = (lat: number, lon: number) => {
+      if (!markerLayerGroupRef.current || !highlightLayerRef.current) return;
+
+      clearMapLayers();
+      L.marker([lat, lon]).addTo(markerLayerGroupRef.current);
+
+      const zones = allZonesRef.current;
+      const zone = zones.length > 0 ? findZoneByPoint(lat, lon, zones) || null : null;
+      const neighbors = zone ? findNeighborZones(zone, zones) : [];
+      const nearest = !zone && zones.length > 0 ? findNearestZoneWithin(lat, lon, zones) : null;
+
+      // Neighbours first so the identified zone is drawn on top
+      neighbors.forEach(n => {
+          const layer = addZoneLayer(n, {
+              color: '#64748b',
+              weight: 1,
+              fillColor: '#94a3b8',
+              fillOpacity: 0.05
+          }, highlightLayerRef.current!);
+          if (n.codigo_postal) {
+              layer.bindTooltip(n.codigo_postal, {
+                  permanent: true,
+                  direction: "center",
+                  className: "cp-label-tooltip",
+                  interactive: false
+              });
+          }
+      });
+      if (zone) {
+          addZoneLayer(zone, {
+              color: '#16a34a',
+              weight: 3,
+              fillColor: '#22c55e',
+              fillOpacity: 0.15
+          }, highlightLayerRef.current);
+      } else if (nearest) {
+          addZoneLayer(nearest.zone, {
+              color: '#d97706',
+              weight: 2,
+              fillColor: '#f59e0b',
+              fillOpacity: 0.1,
+              dashArray: '5, 5'
+          }, highlightLayerRef.current);
+      }
+
+      setIdentified({ lat, lon, zone, neighbors, nearest });
+      setCoordsCopied(false);
+  };
+
+  const closeIdentified = () => {
+      setIdentified(null);
+      clearMapLayers();
+  };
+
+  const copyIdentifiedCoords = async () => {
+      if (!identified) return;
+      try {
+          await navigator.clipboard.writeText(`${identified.lat.toFixed(6)}, ${identified.lon.toFixed(6)}`);
+          setCoordsCopied(true);
+      } catch (e) {
+          console.error("Clipboard write failed", e);
+          setSearchError("No se pudieron copiar las coordenadas al portapapeles.");
+      }
+  };
+
   const displayItem = (item: any) => {
       if (!layerGroupRef.current || !mapInstanceRef.current || !markerLayerGroupRef.current || !highlightLayerRef.current) return;
       
@@ -289,17 +406,15 @@ const MapView: React.FC = () => {
               const containingZone = findZoneByPoint(addr.lat, addr.lon, allZonesRef.current);
               
               if (containingZone) {
-                  const polyLayer = L.geoJSON(containingZone.geometry as any, {
-                    style: {
-                        color: '#16a34a',
-                        weight: 3,
-                        fillColor: '#22c55e',
-                        fillOpacity: 0.1,
-                        dashArray: '5, 5'
-                    }
-                  }).addTo(highlightLayerRef.current);
-                  
                   mapInstanceRef.current.setView([addr.lat, addr.lon], 18);
+                  addZoneLayer(containingZone, {
+                      color: '#16a34a',
+                      weight: 3,
+                      fillColor: '#22c55e',
+                      fillOpacity: 0.1,
+                      dashArray: '5, 5'
+                  }, highlightLayerRef.current);
+                  
                   marker.bindPopup(`
                     <div class="font-sans max-w-xs">
                          <div class="text-xs font-bold text-green-600 uppercase mb-1">Zona Postal Detectada</div>
@@ -351,6 +466,17 @@ const MapView: React.FC = () => {
              Mapa de Cobertura y Direcciones
              {loadingData && <Loader2 className="ml-2 h-4 w-4 animate-spin text-slate-400" />}
           </h2>
+          <button
+            onClick={() => setIdentifyMode(m => !m)}
+            disabled={loadingData}
+            title="Haga clic en cualquier punto del mapa para ver su zona postal y las zonas vecinas"
+            className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-md border transition-all disabled:opacity-50 ${
+              identifyMode ? 'bg-green-600 text-white border-green-600 shadow-sm' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+            }`}
+          >
+            <Crosshair className="w-3 h-3 mr-1.5" />
+            {identifyMode ? 'Identificando (clic en el mapa)' : 'Identificar punto'}
+          </button>
         </div>
         
         <div className="flex flex-col gap-3">
@@ -456,6 +582,81 @@ const MapView: React.FC = () => {
 
       <div className="bg-white rounded-lg shadow-sm border border-slate-200 flex-1 overflow-hidden relative z-0">
         <div ref={mapContainerRef} className="absolute inset-0 z-0 bg-slate-100" />
+
+        {identifyMode && !identified && (
+            <div className="absolute top-3 right-3 z-[1000] bg-white/95 border border-slate-200 rounded-md shadow px-3 py-2 text-xs text-slate-600">
+                Haga clic en cualquier punto del mapa para identificar su zona postal.
+            </div>
+        )}
+
+        {identified && (
+            <div className="absolute top-3 right-3 z-[1000] w-72 max-h-[calc(100%-1.5rem)] overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg text-sm">
+                <div className="flex items-start justify-between px-3 pt-3">
+                    {identified.zone ? (
+                        <div>
+                            <div className="text-xs font-bold text-green-600 uppercase">Zona Postal</div>
+                            <div className="text-2xl font-bold text-slate-800">{identified.zone.codigo_postal}</div>
+                        </div>
+                    ) : (
+                        <div>
+                            <div className="text-xs font-bold text-red-500 uppercase">Sin Cobertura 472</div>
+                            {identified.nearest && (
+                                <div className="text-xs text-amber-700 mt-1">
+                                    Zona más cercana: <span className="font-bold">{identified.nearest.zone.codigo_postal}</span> a {Math.round(identified.nearest.distanceM)} m
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <button onClick={closeIdentified} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+                </div>
+
+                {identified.zone && (
+                    <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 px-3 pt-2 text-xs">
+                        <dt className="text-slate-500">Municipio</dt>
+                        <dd className="font-semibold text-slate-700">{identified.zone.nombre_municipio}</dd>
+                        <dt className="text-slate-500">Departamento</dt>
+                        <dd className="text-slate-700">{identified.zone.nombre_departamento}</dd>
+                        <dt className="text-slate-500">Localidad</dt>
+                        <dd className="text-slate-700">{identified.zone.nombre_localidad || '—'}</dd>
+                        <dt className="text-slate-500">DANE</dt>
+                        <dd className="font-mono text-slate-700">{identified.zone.codigo_municipio}</dd>
+                    </dl>
+                )}
+
+                <div className="flex items-center justify-between mx-3 mt-3 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded">
+                    <span className="font-mono text-xs text-slate-700">{identified.lat.toFixed(6)}, {identified.lon.toFixed(6)}</span>
+                    <button
+                        onClick={copyIdentifiedCoords}
+                        title="Copiar coordenadas"
+                        className={`flex items-center text-xs ${coordsCopied ? 'text-green-600' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                        {coordsCopied ? <Check className="w-3.5 h-3.5 mr-1" /> : <Copy className="w-3.5 h-3.5 mr-1" />}
+                        {coordsCopied ? 'Copiado' : 'Copiar'}
+                    </button>
+                </div>
+
+                {identified.zone && (
+                    <div className="px-3 py-3">
+                        <div className="text-xs font-bold text-slate-500 uppercase mb-1">Zonas vecinas ({identified.neighbors.length})</div>
+                        {identified.neighbors.length === 0 ? (
+                            <div className="text-xs text-slate-400 italic">Sin zonas colindantes.</div>
+                        ) : (
+                            <ul className="divide-y divide-slate-100">
+                                {identified.neighbors.map(n => (
+                                    <li key={n.id} className="py-1 flex items-baseline justify-between gap-2 text-xs">
+                                        <span className="font-mono font-bold text-slate-800">{n.codigo_postal}</span>
+                                        <span className="text-slate-500 text-right truncate">
+                                            {n.nombre_localidad ? `${n.nombre_localidad} · ` : ''}{n.nombre_municipio}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+                {!identified.zone && <div className="pb-3" />}
+            </div>
+        )}
       </div>
     </div>
   );
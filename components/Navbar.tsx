@@ -1,6 +1,6 @@
 import React from 'react';
 import gleRojo from '../pages/gleRojo.jpeg';
-import { Database, FileSpreadsheet, MapPin, Map as MapIcon, ArrowLeft, Users } from 'lucide-react';
+import { Database, FileSpreadsheet, MapPin, Map as MapIcon, ArrowLeft, Users, BookOpen } from 'lucide-react';
 
 interface NavbarProps {
   activeTab: 'database' | 'processor' | 'map';
@@ -9,9 +9,10 @@ interface NavbarProps {
   onChangePassword?: () => void;
   isAdmin?: boolean;
   onOpenTeam?: () => void;
+  onOpenDictionaries?: () => void;
 }
 
-const Navbar: React.FC<NavbarProps> = ({ activeTab, onTabChange, onLogout, onChangePassword, isAdmin, onOpenTeam }) => {
+const Navbar: React.FC<NavbarProps> = ({ activeTab, onTabChange, onLogout, onChangePassword, isAdmin, onOpenTeam, onOpenDictionaries }) => {
   return (
     <nav className="bg-white border-b border-slate-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -38,6 +39,13 @@ const Navbar: React.FC<NavbarProps> = ({ activeTab, onTabChange, onLogout, onCha
             >
               Cambiar Clave
             </button>
+            <button
+              onClick={onOpenDictionaries}
+              className="inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium bg-slate-50 text-slate-700 border border-slate-200 hover:bg-slate-100"
+            >
+              <BookOpen className="mr-1 h-4 w-4" />
+              Diccionarios
+            </button>
             {isAdmin && (
               <button
                 onClick={onOpenTeam}
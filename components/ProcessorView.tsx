@@ -1,18 +1,96 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Upload, Play, Download, FileSpreadsheet, AlertTriangle, Check, ArrowRight, BarChart3, Loader2, Pencil, X, Save, Square } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { processTemplateBatch, reprocessSingleRow, clearGeoCache, loadProcessorState, saveProcessorState, getAllPostalZones } from '../services/postalService';
-import { AddressTemplate, ProcessStatus, PostalZone } from '../types';
+import { processTemplateBatch, reprocessSingleRow, clearGeoCache, loadProcessorState, saveProcessorState, getAllPostalZones, getZoneFallbackPoint, getAddressQualityThreshold } from '../services/postalService';
+import { AddressTemplate, ProcessStatus, PostalZone, BatchRunSummary, ProviderRateStatus, CircuitState, ConsensusReport, ResolutionStrategy, GeocodePrecision, AddressValidationVerdict, VerdictLevel, PostalCrossCheck } from '../types';
+import { formatAddress, formatComplements, formatRuralAddress, formatViaNumero } from '../services/addressParser';
+import { ADDRESS_QUALITY_REASON_LABELS, analyzeAddress } from '../services/addressQuality';
+import { getRateLimiterSnapshot } from '../services/rateLimiter';
+import { getGeocoderConsensusDefault } from '../services/geocoders';
+import { getAddressNormalizer, needsAddressNormalization } from '../services/addressNormalizer';
+
+const CIRCUIT_LABELS: Record<CircuitState, string> = {
+  closed: 'activo',
+  open: 'suspendido',
+  half_open: 'probando'
+};
+
+const CIRCUIT_STYLES: Record<CircuitState, string> = {
+  closed: 'bg-green-50 border-green-200 text-green-800',
+  open: 'bg-red-50 border-red-200 text-red-800',
+  half_open: 'bg-amber-50 border-amber-200 text-amber-800'
+};
+
+const STRATEGY_LABELS: Record<ResolutionStrategy, string> = {
+  PROVEEDOR_POSTAL: 'Proveedor postal',
+  INDICE_DANE: 'Índice DANE',
+  POLIGONO: 'Polígono',
+  ZONA_CERCANA: 'Zona cercana',
+  LOCALIDAD: 'Localidad',
+  RESPALDO_MUNICIPAL: 'Respaldo municipal',
+  SIN_RESOLVER: 'Sin resolver'
+};
+
+// Polygon hits are trusted; fallbacks are flagged for re-checking
+const STRATEGY_STYLES: Record<ResolutionStrategy, string> = {
+  PROVEEDOR_POSTAL: 'text-blue-700',
+  INDICE_DANE: 'text-slate-600',
+  POLIGONO: 'text-green-700',
+  ZONA_CERCANA: 'text-amber-600',
+  LOCALIDAD: 'text-amber-600',
+  RESPALDO_MUNICIPAL: 'text-orange-600',
+  SIN_RESOLVER: 'text-red-500'
+};
+
+const PRECISION_LABELS: Record<GeocodePrecision, string> = {
+  DIRECCION: 'dirección',
+  VIA: 'vía',
+  MUNICIPIO: 'municipio',
+  CENTROIDE_ZONA: 'centro de zona',
+  NINGUNA: 'sin punto'
+};
+
+const VERDICT_LEVEL_STYLES: Record<VerdictLevel, string> = {
+  ALTA: 'bg-green-50 border-green-200 text-green-800',
+  MEDIA: 'bg-amber-50 border-amber-200 text-amber-800',
+  BAJA: 'bg-red-50 border-red-200 text-red-800'
+};
+
+// "PREMISE, incompleta, sin confirmar"
+const formatVerdict = (v: AddressValidationVerdict): string =>
+  [v.granularidad, !v.completa && 'incompleta', v.componentesSinConfirmar && 'sin confirmar', v.componentesInferidos && 'inferida']
+    .filter(Boolean)
+    .join(', ');
+
+// "google_validation: 110111 · polígono 110221 (DANE 11001)"
+const formatCrossCheck = (c: PostalCrossCheck): string =>
+  `${c.proveedor || 'proveedor'}: ${c.cp_externo} · polígono ${c.cp_poligono ?? 'sin zona'}${c.dane_poligono ? ` (DANE ${c.dane_poligono})` : ''} · DANE fila ${c.dane_fila || '-'}`;
+
+const isCrossCheckMismatch = (c?: PostalCrossCheck): boolean => c?.estado === 'DIFIERE_POLIGONO' || c?.estado === 'DIFIERE_DANE';
+
+// "asignado (Polígono): 110111 | google_maps: 110111 (nominatim 35 m) | nominatim: fuera de zona (google_maps 35 m)"
+const formatConsensusCandidates = (report: ConsensusReport): string =>
+  [
+    // Reports saved before the assigned CP was recorded have no cp_asignado
+    ...(report.cp_asignado ? [`asignado${report.estrategia_asignada ? ` (${STRATEGY_LABELS[report.estrategia_asignada]})` : ''}: ${report.cp_asignado}`] : []),
+    ...report.candidatos.map(c => {
+      const distances = Object.entries(c.distancias_m || {}).map(([p, m]) => `${p} ${m} m`).join(', ');
+      return `${c.proveedor}: ${c.codigo_postal ?? 'fuera de zona'}${distances ? ` (${distances})` : ''}`;
+    })
+  ].join(' | ');
 
 const ProcessorView: React.FC = () => {
   const [status, setStatus] = useState<ProcessStatus>(ProcessStatus.IDLE);
   const [data, setData] = useState<AddressTemplate[]>([]);
   const [fileName, setFileName] = useState<string>('');
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [runSummary, setRunSummary] = useState<BatchRunSummary | null>(null);
   const [progress, setProgress] = useState<number>(0);
   const [speed, setSpeed] = useState<number>(0);
   const [eta, setEta] = useState<string>('');
   const [pauseUntil, setPauseUntil] = useState<number | null>(null);
+  const [providerStates, setProviderStates] = useState<ProviderRateStatus[]>([]);
+  const [consensusMode, setConsensusMode] = useState<boolean>(getGeocoderConsensusDefault);
   const [itemsPerPage, setItemsPerPage] = useState<number>(50);
   const [page, setPage] = useState<number>(1);
   const [zonesDB, setZonesDB] = useState<PostalZone[]>([]);
@@ -101,6 +179,8 @@ const ProcessorView: React.FC = () => {
   const [editForm, setEditForm] = useState({ address: '', city: '', dane: '', dept: '' });
   const [isRetrying, setIsRetrying] = useState(false);
 
+  const qualityThreshold = useMemo(() => getAddressQualityThreshold(), []);
+
   // Calculate statistics
   const stats = useMemo(() => {
     const total = data.length;
@@ -210,6 +290,7 @@ const ProcessorView: React.FC = () => {
           ciudad_destino: cleanCity(row['Ciudad de destino']),
           departamento_destino: row['Departamento de destino'],
           direccion: cleanAddr, 
+          ...analyzeAddress(cleanAddr),
           codigo_postal_asignado: undefined,
           coordenadas: undefined,
           originalData: { ...row, 'DANE destino': paddedDane } 
@@ -233,6 +314,7 @@ const ProcessorView: React.FC = () => {
     
     setStatus(ProcessStatus.PROCESSING);
     setErrorMessage('');
+    setRunSummary(null);
     setProgress(0);
     setSpeed(0);
     setEta('');
@@ -249,7 +331,24 @@ const ProcessorView: React.FC = () => {
         const s = String(cp).toUpperCase();
         return s.includes('MUNICIPIO_SIN_ZONAS') || s.includes('FUERA_DE_POLIGONO') || s.includes('DIR_NO_ENCONTRADA') || s.includes('ERROR_GEOCODIFICACION') || s.includes('REVISAR_DIRECCION');
       };
-      const pending = data.filter(d => !d.codigo_postal_asignado || isError(d.codigo_postal_asignado));
+      const candidates = data
+        .filter(d => !d.codigo_postal_asignado || isError(d.codigo_postal_asignado))
+        // Scored again: the dictionaries may have changed since the file was loaded
+        .map(d => ({ ...d, ...analyzeAddress(d.direccion) }));
+
+      // Low-quality addresses would only burn geocoding calls: send them straight to manual review.
+      // Unreadable ones go to the batch first when an address normalizer can rewrite them.
+      const threshold = getAddressQualityThreshold();
+      const normalizerOn = !!getAddressNormalizer();
+      const lowQuality = new Map<string, AddressTemplate>();
+      candidates.forEach(d => {
+        if ((d.calidad_direccion ?? 100) < threshold && !(normalizerOn && needsAddressNormalization(d.direccion))) {
+          lowQuality.set(d.id, { ...d, codigo_postal_asignado: 'REVISION_MANUAL', coordenadas: '' });
+        }
+      });
+      if (lowQuality.size > 0) setData(prev => prev.map(item => lowQuality.get(item.id) || item));
+
+      const pending = candidates.filter(d => !lowQuality.has(d.id));
       if (pending.length === 0) { setStatus(ProcessStatus.COMPLETED); return; }
 
       const rawInput = pending.map(d => ({
@@ -264,7 +363,9 @@ const ProcessorView: React.FC = () => {
           rawInput, 
           (pct) => setProgress(pct),
           abortControllerRef.current.signal,
-          (ms) => setPauseUntil(Date.now() + ms)
+          (ms) => setPauseUntil(Date.now() + ms),
+          (summary) => setRunSummary(summary),
+          { consensus: consensusMode }
       );
 
       const idToResult = new Map<string, AddressTemplate>();
@@ -309,6 +410,15 @@ const ProcessorView: React.FC = () => {
     }
   }, [progress, status]);
 
+  // Live token bucket / circuit breaker state of each provider while the batch runs
+  useEffect(() => {
+    if (status !== ProcessStatus.PROCESSING) return;
+    const refresh = () => setProviderStates(getRateLimiterSnapshot());
+    refresh();
+    const timer = setInterval(refresh, 500);
+    return () => clearInterval(timer);
+  }, [status]);
+
   const handleStop = () => {
       if (abortControllerRef.current) {
           abortControllerRef.current.abort();
@@ -429,16 +539,9 @@ const ProcessorView: React.FC = () => {
             const candidates = zonesDB.filter(zz => normalizeCityKeyExport(zz.nombre_municipio || '') === cityKey);
             z = candidates[0];
           }
-          if (z) {
-            if (typeof z.centerLat === 'number' && typeof z.centerLon === 'number') {
-              return `${z.centerLat}, ${z.centerLon}`;
-            }
-            if (Array.isArray(z.bbox) && z.bbox.length === 4) {
-              const [minLon, minLat, maxLon, maxLat] = z.bbox;
-              const lat = (minLat + maxLat) / 2;
-              const lon = (minLon + maxLon) / 2;
-              return `${lat}, ${lon}`;
-            }
+          if (z && z.geometry) {
+            const p = getZoneFallbackPoint(z);
+            return `${p.lat}, ${p.lon}`;
           }
         }
         return String(d.coordenadas || '');
@@ -606,14 +709,9 @@ const ProcessorView: React.FC = () => {
             const candidates = zonesDB.filter(zz => normalizeCityKeyExport(zz.nombre_municipio || '') === cityKey);
             z = candidates[0];
           }
-          if (z) {
-            if (typeof z.centerLat === 'number' && typeof z.centerLon === 'number') return `${z.centerLat}, ${z.centerLon}`;
-            if (Array.isArray(z.bbox) && z.bbox.length === 4) {
-              const [minLon, minLat, maxLon, maxLat] = z.bbox;
-              const lat = (minLat + maxLat) / 2;
-              const lon = (minLon + maxLon) / 2;
-              return `${lat}, ${lon}`;
-            }
+          if (z && z.geometry) {
+            const p = getZoneFallbackPoint(z);
+            return `${p.lat}, ${p.lon}`;
           }
         }
         return '';
@@ -650,6 +748,40 @@ const ProcessorView: React.FC = () => {
       // 9. COORDENADAS
       rowObj['COORDENADAS'] = coordsFinal;
 
+      // 10. DISTANCIA A ZONA (0 = dentro del polígono; >0 = asignado por zona más cercana o sin zona)
+      rowObj['DISTANCIA A ZONA (m)'] = typeof d.distancia_zona_m === 'number' ? d.distancia_zona_m : '';
+
+      // 11. PROCEDENCIA DEL CP (estrategia, proveedor, precisión del punto y confianza 0-1)
+      rowObj['ESTRATEGIA CP'] = d.procedencia?.estrategia || '';
+      rowObj['PROVEEDOR'] = d.procedencia?.proveedor || '';
+      rowObj['PRECISION'] = d.procedencia?.precision || '';
+      rowObj['CONFIANZA'] = typeof d.procedencia?.confianza === 'number' ? d.procedencia.confianza : '';
+      rowObj['VEREDICTO GOOGLE'] = d.procedencia?.veredicto ? formatVerdict(d.procedencia.veredicto) : '';
+      rowObj['NIVEL VEREDICTO'] = d.procedencia?.veredicto?.nivel || '';
+      rowObj['VERIFICACION CP'] = d.verificacion_cp?.estado || '';
+      rowObj['CP POLIGONO'] = d.verificacion_cp?.cp_poligono || '';
+      rowObj['DANE POLIGONO'] = d.verificacion_cp?.dane_poligono || '';
+
+      // 12. DIRECCION ESTRUCTURADA (parser)
+      const parsed = d.direccion_estructurada;
+      rowObj['DIRECCION ESTRUCTURADA'] = parsed ? formatAddress(parsed) : '';
+      rowObj['TIPO VIA'] = parsed ? parsed.tipo_via : '';
+      rowObj['NUMERO VIA'] = parsed ? formatViaNumero(parsed.via) : '';
+      rowObj['NUMERO CRUCE'] = parsed?.cruce ? formatViaNumero(parsed.cruce) : '';
+      rowObj['PLACA'] = parsed?.placa || '';
+      rowObj['CUADRANTE'] = parsed?.cuadrante || '';
+      rowObj['COMPLEMENTOS'] = parsed ? formatComplements(parsed) : '';
+      rowObj['ERRORES DIRECCION'] = (d.errores_direccion || []).map(e => e.mensaje).join(' | ');
+      rowObj['CALIDAD DIRECCION'] = typeof d.calidad_direccion === 'number' ? d.calidad_direccion : '';
+      rowObj['MOTIVOS CALIDAD'] = (d.motivos_calidad || []).join(', ');
+      rowObj['DIRECCION RURAL'] = d.direccion_rural ? formatRuralAddress(d.direccion_rural) || 'Zona rural' : '';
+      rowObj['DIRECCION NORMALIZADA'] = d.normalizacion?.direccion || '';
+      rowObj['NORMALIZADOR'] = d.normalizacion?.proveedor || '';
+      if (d.consenso) {
+        rowObj['CONSENSO'] = d.consenso.estado;
+        rowObj['CANDIDATOS CONSENSO'] = formatConsensusCandidates(d.consenso);
+      }
+
       // Eliminar las columnas que ya pusimos o que son duplicados ruidosos
       const noisyAliases = [
         ...addrAliases, 
@@ -710,6 +842,7 @@ const ProcessorView: React.FC = () => {
           ciudad_destino: c.city,
           departamento_destino: c.dept,
           direccion: `${street} ${sNo} # ${hNo}-${(i % 30) + 1}`,
+          ...analyzeAddress(`${street} ${sNo} # ${hNo}-${(i % 30) + 1}`),
           codigo_postal_asignado: undefined,
           coordenadas: undefined,
           originalData: {
@@ -766,6 +899,7 @@ const ProcessorView: React.FC = () => {
           const updatedTemp: AddressTemplate = {
               ...editingRow,
               direccion: editForm.address,
+              ...analyzeAddress(editForm.address),
               ciudad_destino: editForm.city,
               departamento_destino: editForm.dept,
               dane_destino: editForm.dane,
@@ -816,6 +950,24 @@ const ProcessorView: React.FC = () => {
                  <span className="text-[10px] text-slate-500">ETA: {eta || 'calculando...'}</span>
               </div>
               <div className="mt-2 w-full h-1 bg-gradient-to-r from-brand-100 via-brand-200 to-brand-100 animate-pulse rounded"></div>
+              {providerStates.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {providerStates.map(p => (
+                    <div key={p.id} className={`text-[10px] border rounded px-2 py-1 ${CIRCUIT_STYLES[p.circuit]}`} title={`${p.requests} solicitudes, ${p.failures} fallos, ${p.throttled} respuestas 429`}>
+                      <span className="font-bold">{p.id}</span>
+                      <span className="ml-1">{CIRCUIT_LABELS[p.circuit]}</span>
+                      <span className="ml-2 text-slate-500">
+                        {p.ratePerSec > 0 ? `${Math.floor(p.tokens)}/${p.burst} tokens · ${p.ratePerSec.toFixed(1)}/s` : 'sin límite'}
+                      </span>
+                      <span className="ml-2 text-slate-500">{p.requests} req</span>
+                      {p.failures > 0 && <span className="ml-2 text-red-600">{p.failures} fallos</span>}
+                      {p.throttled > 0 && <span className="ml-2 text-amber-700">{p.throttled}×429</span>}
+                      {p.waiting > 0 && <span className="ml-2 text-slate-500">{p.waiting} en cola</span>}
+                      {p.retryAt && p.retryAt > Date.now() && <span className="ml-2">reintento en {Math.ceil((p.retryAt - Date.now()) / 1000)}s</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
               {pauseUntil && Date.now() < pauseUntil && (
                 <div className="mt-2 text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded px-2 py-1">
                   Límite de API alcanzado, reanudando en {Math.max(0, Math.ceil((pauseUntil - Date.now())/1000))} segundos...
@@ -861,6 +1013,20 @@ const ProcessorView: React.FC = () => {
                   )}
                 </button>
 
+                <label
+                  className="flex items-center px-2 text-xs text-slate-600 whitespace-nowrap cursor-pointer"
+                  title="Consulta todos los proveedores habilitados y marca las filas donde sus códigos postales no coinciden"
+                >
+                  <input
+                    type="checkbox"
+                    className="mr-1.5"
+                    checked={consensusMode}
+                    disabled={status === ProcessStatus.PROCESSING}
+                    onChange={(e) => setConsensusMode(e.target.checked)}
+                  />
+                  Modo consenso
+                </label>
+
                 {status === ProcessStatus.PROCESSING && (
                     <button
                         onClick={handleStop}
@@ -889,6 +1055,22 @@ const ProcessorView: React.FC = () => {
              {errorMessage}
            </div>
         )}
+        {runSummary && status !== ProcessStatus.PROCESSING && (
+           <div className="mt-2 text-xs text-slate-600 bg-slate-50 p-2 rounded border border-slate-200">
+             Última ejecución: {runSummary.processedRows.toLocaleString()} de {runSummary.totalRows.toLocaleString()} filas ·{' '}
+             <span className="font-bold">{runSummary.uniqueDestinations.toLocaleString()} destinos únicos</span>
+             {runSummary.totalRows > runSummary.uniqueDestinations && (
+               <> ({(runSummary.totalRows - runSummary.uniqueDestinations).toLocaleString()} filas repetidas resueltas sin consultas adicionales)</>
+             )}
+             {' '}· {runSummary.success.toLocaleString()} con código · {runSummary.errors.toLocaleString()} con error
+             {!!runSummary.externalPostalMismatches && (
+               <> · <span className="font-bold text-red-700">{runSummary.externalPostalMismatches.toLocaleString()} CP externos que no coinciden con los polígonos</span></>
+             )}
+             {runSummary.consensusDisagreements !== undefined && (
+               <> · <span className={runSummary.consensusDisagreements > 0 ? 'font-bold text-amber-700' : ''}>{runSummary.consensusDisagreements.toLocaleString()} en desacuerdo entre proveedores</span></>
+             )}
+           </div>
+        )}
       </div>
 
       {/* STATISTICS DASHBOARD */}
@@ -993,8 +1175,13 @@ const ProcessorView: React.FC = () => {
                   <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-24">DANE</th>
                   <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-40">Ciudad</th>
                   <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider">Dirección</th>
+                  <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-36">Vía</th>
+                  <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-28">Cruce / Placa</th>
+                  <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-36">Complementos</th>
+                  <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-28">Calidad</th>
                   <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-32">Localidad</th>
                   <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-32">Coordenada</th>
+                  <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider w-36">Origen CP</th>
                   <th className="px-6 py-3 text-left font-medium text-slate-500 uppercase tracking-wider bg-yellow-50 w-40 border-l border-yellow-100">
                     Código Postal 472
                   </th>
@@ -1017,6 +1204,7 @@ const ProcessorView: React.FC = () => {
                     const noCP = !row.codigo_postal_asignado;
                     const errorCP = !!row.codigo_postal_asignado && (row.codigo_postal_asignado.length > 6 || isNaN(Number(row.codigo_postal_asignado)));
                     const hasError = noCP || errorCP;
+                    const parsed = row.direccion_estructurada;
                     return (
                         <tr key={row.id} className="hover:bg-slate-50 group">
                             <td className="px-4 py-3 whitespace-nowrap">
@@ -1048,9 +1236,76 @@ const ProcessorView: React.FC = () => {
                             </td>
                             <td className="px-6 py-3 whitespace-nowrap text-slate-500 font-mono">{daneDigits}</td>
                             <td className="px-6 py-3 whitespace-nowrap text-slate-900">{cityDisplay}</td>
-                            <td className="px-6 py-3 text-slate-600">{row.direccion}</td>
+                            <td className="px-6 py-3 text-slate-600">
+                                {row.direccion}
+                                {row.normalizacion && (
+                                    <div
+                                        className="text-[10px] text-indigo-600"
+                                        title={`Normalizada por ${row.normalizacion.proveedor}${row.normalizacion.barrio ? ` · Barrio ${row.normalizacion.barrio}` : ''}`}
+                                    >
+                                        → {row.normalizacion.direccion}
+                                    </div>
+                                )}
+                                {(row.errores_direccion || []).map((e, i) => (
+                                    <div key={i} className="text-[10px] text-red-500" title={`Caracteres ${e.inicio}-${e.fin}: "${row.direccion.slice(e.inicio, e.fin)}"`}>
+                                        {e.mensaje}
+                                    </div>
+                                ))}
+                            </td>
+                            <td className="px-6 py-3 whitespace-nowrap text-slate-600">
+                                {parsed ? `${parsed.tipo_via} ${formatViaNumero(parsed.via)}` : (row.direccion_rural ? '' : '-')}
+                                {row.direccion_rural && (
+                                    <div className="text-[10px] text-emerald-700 whitespace-normal" title="Dirección rural: se asigna el código postal rural del municipio">
+                                        Rural: {formatRuralAddress(row.direccion_rural) || 'zona rural'}
+                                    </div>
+                                )}
+                            </td>
+                            <td className="px-6 py-3 whitespace-nowrap font-mono text-slate-600">
+                                {parsed?.cruce ? `${formatViaNumero(parsed.cruce)}${parsed.placa ? `-${parsed.placa}` : ''}${parsed.cuadrante ? ` ${parsed.cuadrante}` : ''}` : '-'}
+                            </td>
+                            <td className="px-6 py-3 text-xs text-slate-500">{parsed && parsed.complementos.length > 0 ? formatComplements(parsed) : '-'}</td>
+                            <td className="px-6 py-3 text-xs">
+                                {typeof row.calidad_direccion === 'number' ? (
+                                    <div title={(row.motivos_calidad || []).map(r => ADDRESS_QUALITY_REASON_LABELS[r]).join('\n') || 'Sin observaciones'}>
+                                        <span className={`font-bold ${row.calidad_direccion < qualityThreshold ? 'text-red-600' : row.calidad_direccion < 80 ? 'text-amber-600' : 'text-green-600'}`}>
+                                            {row.calidad_direccion}
+                                        </span>
+                                        {(row.motivos_calidad || []).length > 0 && (
+                                            <div className="text-[10px] text-slate-400 font-mono">{(row.motivos_calidad || []).join(', ')}</div>
+                                        )}
+                                    </div>
+                                ) : '-'}
+                            </td>
                             <td className="px-6 py-3 whitespace-nowrap text-slate-500">{row.localidad_detectada || '-'}</td>
-                            <td className="px-6 py-3 text-xs font-mono text-slate-400">{row.coordenadas || '-'}</td>
+                            <td className="px-6 py-3 text-xs font-mono text-slate-400">
+                                {row.coordenadas || '-'}
+                                {typeof row.distancia_zona_m === 'number' && row.distancia_zona_m > 0 && (
+                                    <div className="text-[10px] text-amber-600" title="Distancia del punto geocodificado al borde de la zona">
+                                        a {row.distancia_zona_m} m de la zona
+                                    </div>
+                                )}
+                            </td>
+                            <td className="px-6 py-3 text-xs whitespace-nowrap">
+                                {row.procedencia ? (
+                                    <div title={`Precisión del punto: ${PRECISION_LABELS[row.procedencia.precision]}`}>
+                                        <div className={`font-medium ${STRATEGY_STYLES[row.procedencia.estrategia]}`}>
+                                            {STRATEGY_LABELS[row.procedencia.estrategia]}
+                                            <span className="ml-1 font-mono text-slate-500">{row.procedencia.confianza.toFixed(2)}</span>
+                                        </div>
+                                        <div className="text-[10px] text-slate-400">
+                                            {row.procedencia.proveedor ? `${row.procedencia.proveedor} · ` : ''}{PRECISION_LABELS[row.procedencia.precision]}
+                                        </div>
+                                        {row.procedencia.veredicto && (
+                                            <span
+                                                className={`inline-block mt-0.5 px-1.5 py-0.5 rounded border text-[10px] font-medium ${VERDICT_LEVEL_STYLES[row.procedencia.veredicto.nivel]}`}
+                                                title={`Veredicto de Google: ${formatVerdict(row.procedencia.veredicto)}`}
+                                            >
+                                                Google {row.procedencia.veredicto.nivel.toLowerCase()}
+                                            </span>
+                                        )}
+                                    </div>
+                                ) : '-'}
+                            </td>
                             <td className={`px-6 py-3 whitespace-nowrap font-bold border-l ${
                             noCP
                                 ? 'text-orange-600 bg-orange-50'
@@ -1059,6 +1314,23 @@ const ProcessorView: React.FC = () => {
                                     : 'text-brand-600 bg-yellow-50'
                             }`}>
                             {cpDisplay || "---"}
+                            {row.verificacion_cp && isCrossCheckMismatch(row.verificacion_cp) && (
+                                <div className="text-[10px] font-medium whitespace-normal text-red-700" title={formatCrossCheck(row.verificacion_cp)}>
+                                    {row.verificacion_cp.estado === 'DIFIERE_POLIGONO'
+                                        ? `Polígono: ${row.verificacion_cp.cp_poligono}`
+                                        : `No es del DANE ${row.verificacion_cp.dane_fila}`}
+                                </div>
+                            )}
+                            {row.consenso && row.consenso.estado !== 'INSUFICIENTE' && (
+                                <div
+                                    className={`text-[10px] font-medium whitespace-normal ${row.consenso.estado === 'DESACUERDO' ? 'text-amber-700' : 'text-green-700'}`}
+                                    title={formatConsensusCandidates(row.consenso)}
+                                >
+                                    {row.consenso.estado === 'DESACUERDO'
+                                        ? `Desacuerdo: ${Array.from(new Set([row.consenso.cp_asignado, ...row.consenso.candidatos.map(c => c.codigo_postal)].filter(Boolean))).join(' / ')}`
+                                        : `Consenso (${row.consenso.candidatos.length})`}
+                                </div>
+                            )}
                             </td>
                         </tr>
                     );
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/*
+  Writes the street network fixtures used by services/streetNetwork.test.ts and
+  services/osmPbf.test.ts:
+
+    node scripts/make-street-fixtures.mjs
+
+  services/fixtures/street-grid.geojson  Calle/Carrera grid laid out in meters around
+                                         ORIGIN (x east, y north), see GRID below
+  services/fixtures/small.osm.pbf        4 ways and 5 nodes: an OSMHeader blob, a zlib
+                                         blob with dense nodes and a raw blob with the
+                                         ways and one plain node
+*/
+import { writeFileSync, mkdirSync } from 'node:fs';
+import { deflateSync } from 'node:zlib';
+import { fileURLToPath } from 'node:url';
+
+const OUT = fileURLToPath(new URL('../services/fixtures/', import.meta.url));
+mkdirSync(OUT, { recursive: true });
+
+/* ---- GeoJSON grid ---- */
+
+const ORIGIN = { lon: -74.07, lat: 4.6 };
+const toLonLat = ([x, y]) => [
+  +(ORIGIN.lon + x / (111320 * Math.cos(ORIGIN.lat * Math.PI / 180))).toFixed(8),
+  +(ORIGIN.lat + y / 110574).toFixed(8)
+];
+
+// [name, [x, y] points in meters]; carreras run north-south, calles east-west
+const GRID = [
+  ['Carrera 5', [[0, -1200], [0, 250]]],
+  ['Carrera 6', [[-100, -1200], [-100, 250]]],
+  ['Carrera 6A', [[-150, -1200], [-150, 250]]],
+  ['Carrera 5 Este', [[500, -200], [500, 200]]],
+  ['Carrera 6 Este', [[600, -200], [600, 200]]],
+  ['Calle 10', [[-200, 0], [700, 0]]],
+  ['Calle 11', [[-200, 100], [700, 100]]],
+  ['Calle 10 Sur', [[-200, -1000], [200, -1000]]],
+  ['Calle 11 Sur', [[-200, -1100], [200, -1100]]],
+  // Stops 70 m short of Carrera 5
+  ['Calle 12', [[-200, 200], [-70, 200]]]
+];
+
+const geojson = {
+  type: 'FeatureCollection',
+  features: [
+    ...GRID.map(([name, points]) => ({
+      type: 'Feature',
+      properties: { highway: 'residential', name },
+      geometry: { type: 'LineString', coordinates: points.map(toLonLat) }
+    })),
+    {
+      type: 'Feature',
+      properties: { highway: 'footway', name: 'Calle 10' },
+      geometry: { type: 'LineString', coordinates: [[0, 0], [0, 50]].map(toLonLat) }
+    }
+  ]
+};
+writeFileSync(OUT + 'street-grid.geojson', JSON.stringify(geojson, null, 2) + '\n');
+
+/* ---- Protobuf writer ---- */
+
+const varint = (n) => {
+  const out = [];
+  let v = BigInt(n);
+  if (v < 0n) v += 1n << 64n;
+  do {
+    let b = Number(v & 0x7fn);
+    v >>= 7n;
+    if (v > 0n) b |= 0x80;
+    out.push(b);
+  } while (v > 0n);
+  return out;
+};
+const zigzag = (n) => (n < 0 ? -2 * n - 1 : 2 * n);
+const key = (field, wire) => varint(field * 8 + wire);
+const fVarint = (field, n) => [...key(field, 0), ...varint(n)];
+const fBytes = (field, bytes) => [...key(field, 2), ...varint(bytes.length), ...bytes];
+const fString = (field, s) => fBytes(field, [...Buffer.from(s, 'utf8')]);
+const packed = (field, values) => fBytes(field, values.flatMap(varint));
+const deltas = (values) => values.map((v, i) => v - (i > 0 ? values[i - 1] : 0));
+
+const blob = (type, data, compress) => {
+  const body = compress
+    ? [...fVarint(2, data.length), ...fBytes(3, [...deflateSync(Buffer.from(data))])]
+    : fBytes(1, data);
+  const header = [...fString(1, type), ...fVarint(3, body.length)];
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(header.length);
+  return Buffer.concat([len, Buffer.from(header), Buffer.from(body)]);
+};
+
+const stringTable = (strings) => fBytes(1, strings.flatMap(s => fString(1, s)));
+
+// Coordinates in 1e-7 degrees (granularity 100 nanodegrees)
+const NODES = [
+  [1, 4.6, -74.07],
+  [2, 4.6, -74.0691],
+  [3, 4.6, -74.0682],
+  [4, 4.6009, -74.07],
+  [5, 4.5991, -74.07]
+];
+const e7 = (deg) => Math.round(deg * 1e7);
+
+const STRINGS = ['', 'highway', 'residential', 'name', 'Calle 10', 'primary', 'Carrera 5', 'footway', 'Sendero', 'building', 'yes'];
+const way = (id, tags, refs) => [
+  ...fVarint(1, id),
+  ...packed(2, tags.map(([k]) => STRINGS.indexOf(k))),
+  ...packed(3, tags.map(([, v]) => STRINGS.indexOf(v))),
+  ...packed(8, deltas(refs).map(zigzag))
+];
+
+const header = [...fBytes(4, [...Buffer.from('OsmSchema-V0.6')]), ...fString(4, 'DenseNodes')];
+
+const dense = NODES.slice(0, 4);
+const denseBlock = [
+  ...stringTable(['']),
+  ...fBytes(2, fBytes(2, [
+    ...packed(1, deltas(dense.map(n => n[0])).map(zigzag)),
+    ...packed(8, deltas(dense.map(n => e7(n[1]))).map(zigzag)),
+    ...packed(9, deltas(dense.map(n => e7(n[2]))).map(zigzag))
+  ])),
+  ...fVarint(17, 100)
+];
+
+const [plainId, plainLat, plainLon] = NODES[4];
+const wayBlock = [
+  ...stringTable(STRINGS),
+  ...fBytes(2, [
+    ...fBytes(3, way(101, [['highway', 'residential'], ['name', 'Calle 10']], [1, 2, 3])),
+    ...fBytes(3, way(102, [['highway', 'primary'], ['name', 'Carrera 5']], [5, 1, 4])),
+    ...fBytes(3, way(103, [['highway', 'footway'], ['name', 'Sendero']], [1, 4])),
+    ...fBytes(3, way(104, [['building', 'yes']], [2, 3, 4]))
+  ]),
+  ...fBytes(2, fBytes(1, [...fVarint(1, zigzag(plainId)), ...fVarint(8, zigzag(e7(plainLat))), ...fVarint(9, zigzag(e7(plainLon)))]))
+];
+
+writeFileSync(OUT + 'small.osm.pbf', Buffer.concat([
+  blob('OSMHeader', header, false),
+  blob('OSMData', denseBlock, true),
+  blob('OSMData', wayBlock, false)
+]));
+
+console.log(`Fixtures written to ${OUT}`);
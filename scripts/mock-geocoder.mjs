@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+/*
+  Local stand-in for self-hosted OSM geocoders (Nominatim, Photon, Pelias) and
+  the official 4-72 API. Answers with canned, deterministic results so the batch
+  can be run without touching the public servers:
+
+    npm run mock:geocoder            # http://localhost:8088
+    VITE_NOMINATIM_URL=http://localhost:8088/nominatim
+    VITE_PHOTON_URL=http://localhost:8088/photon
+    VITE_PELIAS_URL=http://localhost:8088/pelias
+    VITE_USE_472_API=1
+    VITE_472_API_URL=http://localhost:8088/472/lookup
+    VITE_472_API_BATCH_URL=http://localhost:8088/472/batch
+
+  Queries containing "NOEXISTE" return no result. For the 4-72 API, "ERROR500"
+  answers 500 and "INVALIDO" a record that breaks the contract (see
+  services/official472.ts). MOCK_GEOCODER_429_EVERY=n / MOCK_GEOCODER_500_EVERY=n
+  answer every n-th request with 429 / 500 to exercise the retry/backoff paths.
+*/
+import http from 'node:http';
+
+const PORT = parseInt(process.env.MOCK_GEOCODER_PORT || process.argv[2] || '8088', 10);
+const FAIL_EVERY = parseInt(process.env.MOCK_GEOCODER_429_EVERY || '0', 10);
+const ERROR_EVERY = parseInt(process.env.MOCK_GEOCODER_500_EVERY || '0', 10);
+
+const CITIES = {
+  bogota: { lat: 4.6533, lon: -74.0836, localidad: 'Chapinero', cp: '110231' },
+  medellin: { lat: 6.2442, lon: -75.5812, localidad: 'El Poblado', cp: '050021' },
+  cali: { lat: 3.4516, lon: -76.532, localidad: 'San Fernando', cp: '760042' },
+  barranquilla: { lat: 10.9685, lon: -74.7813, localidad: 'Riomar', cp: '080001' }
+};
+
+const normalize = (s) => String(s || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Stable small offset per query so different addresses land on different points of the city
+const hash = (s) => {
+  let h = 0;
+  for (const ch of s) h = (h * 31 + ch.charCodeAt(0)) | 0;
+  return h;
+};
+
+const lookup = (text) => {
+  const norm = normalize(text);
+  if (!norm.trim() || norm.includes('noexiste')) return null;
+  const key = Object.keys(CITIES).find(c => norm.includes(c)) || 'bogota';
+  const city = CITIES[key];
+  const h = hash(norm);
+  const hasStreet = /\d/.test(norm);
+  return {
+    cp: city.cp,
+    localidad: city.localidad,
+    lat: +(city.lat + ((h % 1000) / 1000) * 0.02).toFixed(6),
+    lon: +(city.lon + (((h >> 10) % 1000) / 1000) * 0.02).toFixed(6),
+    city: key,
+    street: hasStreet,
+    label: `${text} (mock)`
+  };
+};
+
+const reverseLocalidad = (lat) => {
+  const city = Object.values(CITIES).reduce((best, c) => Math.abs(c.lat - lat) < Math.abs(best.lat - lat) ? c : best);
+  return city.localidad;
+};
+
+const nominatim = (path, q) => {
+  if (path === '/search') {
+    const text = q.get('q') || [q.get('street'), q.get('city'), q.get('state')].filter(Boolean).join(', ');
+    const hit = lookup(text);
+    return hit ? [{ lat: String(hit.lat), lon: String(hit.lon), display_name: hit.label, importance: hit.street ? 0.6 : 0.5, place_rank: hit.street ? 26 : 16 }] : [];
+  }
+  if (path === '/reverse') {
+    return { display_name: 'mock', address: { city_district: reverseLocalidad(parseFloat(q.get('lat'))) } };
+  }
+  return undefined;
+};
+
+const feature = (hit, properties) => ({
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [hit.lon, hit.lat] },
+  properties
+});
+
+const photon = (path, q) => {
+  if (path === '/api') {
+    const hit = lookup(q.get('q'));
+    return { type: 'FeatureCollection', features: hit ? [feature(hit, { name: hit.label, city: hit.city, countrycode: 'CO', type: hit.street ? 'street' : 'city' })] : [] };
+  }
+  if (path === '/reverse') {
+    const lat = parseFloat(q.get('lat'));
+    const lon = parseFloat(q.get('lon'));
+    return { type: 'FeatureCollection', features: [feature({ lat, lon }, { district: reverseLocalidad(lat), countrycode: 'CO', type: 'district' })] };
+  }
+  return undefined;
+};
+
+const pelias = (path, q) => {
+  if (path === '/v1/search' || path === '/v1/search/structured') {
+    const text = q.get('text') || [q.get('address'), q.get('locality'), q.get('region')].filter(Boolean).join(', ');
+    const hit = lookup(text);
+    return { type: 'FeatureCollection', features: hit ? [feature(hit, { label: hit.label, confidence: hit.street ? 0.8 : 0.6 })] : [] };
+  }
+  if (path === '/v1/reverse') {
+    const lat = parseFloat(q.get('point.lat'));
+    const lon = parseFloat(q.get('point.lon'));
+    return { type: 'FeatureCollection', features: [feature({ lat, lon }, { borough: reverseLocalidad(lat), confidence: 1 })] };
+  }
+  return undefined;
+};
+
+// Non-200 answer from a handler
+const STATUS = Symbol('status');
+const status = (code, body) => ({ [STATUS]: code, body });
+
+const official472Record = (item) => {
+  const text = [item?.address, item?.city, item?.department].filter(Boolean).join(', ');
+  if (normalize(text).includes('invalido')) return { status: 'found', postalCode: 11023, lat: 'n/a' };
+  const hit = lookup(text);
+  if (!hit) return { status: 'not_found' };
+  return { status: 'found', postalCode: hit.cp, lat: hit.lat, lon: hit.lon, formattedAddress: hit.label, locality: hit.localidad };
+};
+
+const official472 = (path, q, body) => {
+  const items = path === '/batch' ? body?.items : [body];
+  if (!Array.isArray(items)) return path === '/lookup' || path === '/batch' ? status(400, { error: 'bad request' }) : undefined;
+  if (items.some(item => normalize(item?.address).includes('error500'))) return status(500, { error: 'internal error (mock)' });
+  if (path === '/lookup') return official472Record(body);
+  if (path === '/batch') return { results: items.map(item => ({ id: item?.id, ...official472Record(item) })) };
+  return undefined;
+};
+
+const BACKENDS = { nominatim, photon, pelias, '472': official472 };
+
+const readJson = (req) => new Promise((resolve) => {
+  if (req.method !== 'POST') return resolve(undefined);
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try { resolve(JSON.parse(raw)); } catch { resolve(undefined); }
+  });
+});
+
+let requestCount = 0;
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const headers = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*', 'Content-Type': 'application/json' };
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, headers);
+    res.end();
+    return;
+  }
+  requestCount++;
+  const [, backend, ...rest] = url.pathname.split('/');
+  const handler = BACKENDS[backend];
+  if (FAIL_EVERY > 0 && requestCount % FAIL_EVERY === 0) {
+    console.log(`429 ${req.url}`);
+    res.writeHead(429, headers);
+    res.end(JSON.stringify({ error: 'rate limited (mock)' }));
+    return;
+  }
+  if (ERROR_EVERY > 0 && requestCount % ERROR_EVERY === 0) {
+    console.log(`500 ${req.url}`);
+    res.writeHead(500, headers);
+    res.end(JSON.stringify({ error: 'internal error (mock)' }));
+    return;
+  }
+  const json = await readJson(req);
+  const body = handler ? handler(`/${rest.join('/')}`, url.searchParams, json) : undefined;
+  if (body === undefined) {
+    console.log(`404 ${req.url}`);
+    res.writeHead(404, headers);
+    res.end(JSON.stringify({ error: 'not found' }));
+    return;
+  }
+  const code = body[STATUS] || 200;
+  console.log(`${code} ${req.url}`);
+  res.writeHead(code, headers);
+  res.end(JSON.stringify(code === 200 ? body : body.body));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock geocoder on http://localhost:${PORT} (/nominatim, /photon, /pelias, /472)`);
+});
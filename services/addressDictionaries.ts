@@ -0,0 +1,111 @@
+import { AddressDictionaries } from '../types';
+
+/*
+  =============================================================================
+  ADDRESS DICTIONARIES
+  =============================================================================
+  Abbreviations, noise words and conflicting city names edited in the dictionary
+  manager. The active copy lives here so the parser-side stages (quality score,
+  normalizer gate, geocoding text) read the same one synchronously; postalService
+  loads and saves it in IndexedDB and calls setAddressDictionaries.
+*/
+
+const normalizeStr = (str: string) => str ? str.toString().normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim() : "";
+
+export const DEFAULT_ADDRESS_DICTIONARIES: AddressDictionaries = {
+  abreviaturas: [
+    { variante: 'ac', expansion: 'Avenida Calle' },
+    { variante: 'ak', expansion: 'Avenida Carrera' },
+    { variante: 'cl', expansion: 'Calle' },
+    { variante: 'cll', expansion: 'Calle' },
+    { variante: 'c', expansion: 'Calle' },
+    { variante: 'cra', expansion: 'Carrera' },
+    { variante: 'kr', expansion: 'Carrera' },
+    { variante: 'kra', expansion: 'Carrera' },
+    { variante: 'k', expansion: 'Carrera' },
+    { variante: 'dg', expansion: 'Diagonal' },
+    { variante: 'diag', expansion: 'Diagonal' },
+    { variante: 'tv', expansion: 'Transversal' },
+    { variante: 'trans', expansion: 'Transversal' },
+    { variante: 'tr', expansion: 'Transversal' },
+    { variante: 'av', expansion: 'Avenida' },
+    { variante: 'avda', expansion: 'Avenida' },
+    { variante: 'cir', expansion: 'Circular' },
+    { variante: 'circ', expansion: 'Circular' },
+    { variante: 'autop', expansion: 'Autopista' },
+    { variante: 'mz', expansion: 'Manzana' },
+    { variante: 'lt', expansion: 'Lote' }
+  ],
+  palabras_ruido: [
+    "ap", "apt", "apto", "apartamento", "int", "interior", "casa", "cs", "local",
+    "oficina", "of", "piso", "torre", "manzana", "mz", "bloque", "bl", "lote", "lt",
+    "barrio", "br", "urb", "urbanizacion", "conjunto", "etapa", "hotel",
+    "edificio", "agrupacion", "zona",
+    "centro comercial", "c.c", "cc", "mall", "plaza", "ph"
+  ],
+  ciudades_conflictivas: ['corinto','cauca','medellin','barranquilla','cartagena','cali','soacha','envigado','itagui','yopal','duitama']
+};
+
+// In-memory copy used by the (synchronous) normalizer; refreshed from IndexedDB on load and on save
+let addressDictionariesMem: AddressDictionaries = DEFAULT_ADDRESS_DICTIONARIES;
+let abbreviationRulesMem: { re: RegExp, expansion: string }[] | null = null;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Throws (Spanish message) when an imported/edited dictionary is malformed; returns a cleaned copy
+export const validateAddressDictionaries = (input: any): AddressDictionaries => {
+  if (!input || typeof input !== 'object') throw new Error("El diccionario debe ser un objeto JSON.");
+  const { abreviaturas, palabras_ruido, ciudades_conflictivas } = input;
+  if (!Array.isArray(abreviaturas) || !Array.isArray(palabras_ruido) || !Array.isArray(ciudades_conflictivas)) {
+    throw new Error("El diccionario debe tener las listas 'abreviaturas', 'palabras_ruido' y 'ciudades_conflictivas'.");
+  }
+  const cleanWord = (w: any) => String(w ?? '').trim().toLowerCase().replace(/\.$/, '');
+  const abbr = abreviaturas.map((a: any, i: number) => {
+    const variante = cleanWord(a?.variante);
+    const expansion = String(a?.expansion ?? '').trim();
+    if (!variante || !expansion) throw new Error(`Abreviatura #${i + 1} inválida: requiere 'variante' y 'expansion'.`);
+    return { variante, expansion };
+  });
+  const uniq = (list: any[]) => Array.from(new Set(list.map(cleanWord).filter(Boolean)));
+  return {
+    abreviaturas: abbr.filter((a, i) => abbr.findIndex(b => b.variante === a.variante) === i),
+    palabras_ruido: uniq(palabras_ruido),
+    ciudades_conflictivas: uniq(ciudades_conflictivas).map(c => normalizeStr(c))
+  };
+};
+
+export const getAddressDictionaries = (): AddressDictionaries => addressDictionariesMem;
+
+export const setAddressDictionaries = (dicts: AddressDictionaries): void => {
+  addressDictionariesMem = dicts;
+  abbreviationRulesMem = null;
+};
+
+/*
+  Abbreviation rules: whole word, optional trailing dot ("Cra.", "Kra").
+  Single-letter variants ("c", "k") only apply at the start of the address before a number,
+  otherwise they would eat via letters ("Calle 12 C # 4-5").
+*/
+const getAbbreviationRules = () => {
+  if (!abbreviationRulesMem) {
+    abbreviationRulesMem = [...addressDictionariesMem.abreviaturas]
+      .sort((a, b) => b.variante.length - a.variante.length)
+      .map(a => ({
+        re: a.variante.length === 1
+          ? new RegExp(`^${escapeRegExp(a.variante)}\\.?(?=\\s*\\d)`, 'i')
+          : new RegExp(`(^|[^\\wÀ-ÿ])${escapeRegExp(a.variante)}\\.?(?![\\wÀ-ÿ])`, 'gi'),
+        expansion: a.expansion
+      }));
+  }
+  return abbreviationRulesMem;
+};
+
+export const expandAddressAbbreviations = (address: string): string => {
+  let out = address;
+  for (const rule of getAbbreviationRules()) {
+    out = rule.re.global
+      ? out.replace(rule.re, (_m, pre) => `${pre}${rule.expansion}`)
+      : out.replace(rule.re, rule.expansion);
+  }
+  return out.replace(/\s\s+/g, ' ').trim();
+};
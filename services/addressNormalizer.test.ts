@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { normalizeAddress } from './addressNormalizer';
+import { resetRateLimiter } from './rateLimiter';
+
+/*
+  The normalization stage offline: the 'stub' rewrite, and the 'gemini' normalizer with
+  its client replaced by a fake so the cache, the time budget and the parse-back check
+  run without the network.
+*/
+
+const generateContent = vi.fn();
+
+vi.mock('./geocoders', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./geocoders')>()),
+  getGenAI: () => ({ models: { generateContent } })
+}));
+
+const answer = (data: object) => ({ text: JSON.stringify(data) });
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe('stub normalizer', () => {
+  beforeEach(() => vi.stubEnv('VITE_ADDRESS_NORMALIZER', 'stub'));
+
+  it('rewrites spelled numbers and misspelled via types', async () => {
+    expect(await normalizeAddress('clle diez n 5 20', 'Bogotá')).toEqual({ direccion: 'Calle 10 # 5-20', proveedor: 'stub' });
+    expect(await normalizeAddress('calel 45 sur 12 30 brr kennedy', 'Bogotá'))
+      .toEqual({ direccion: 'Calle 45 Sur # 12-30', proveedor: 'stub', barrio: 'kennedy' });
+  });
+
+  it('leaves readable, rural and unreadable addresses alone', async () => {
+    expect(await normalizeAddress('Calle 10 # 5-20', 'Bogotá')).toBeNull();
+    expect(await normalizeAddress('Vereda El Salitre km 5', 'Bogotá')).toBeNull();
+    expect(await normalizeAddress('frente a la iglesia', 'Bogotá')).toBeNull();
+  });
+});
+
+describe('gemini normalizer with a fake client', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+    resetRateLimiter();
+    vi.stubEnv('VITE_ADDRESS_NORMALIZER', 'gemini');
+    vi.stubEnv('VITE_GEOCODER_GEMINI_RATE_PER_SEC', '0');
+  });
+
+  it('caches rewrites and misses per city and address', async () => {
+    generateContent.mockResolvedValueOnce(answer({ reconocida: true, tipo_via: 'CARRERA', numero_via: '7', numero_cruce: '32', placa: '16', complemento: 'Apto 301' }));
+    generateContent.mockResolvedValueOnce(answer({ reconocida: false }));
+
+    const first = await normalizeAddress('kra siete 32 16 apto 301', 'Bogotá');
+    expect(first).toEqual({ direccion: 'Carrera 7 # 32-16 Apto 301', proveedor: 'gemini' });
+    expect(await normalizeAddress('kra siete 32 16 apto 301', 'Bogotá')).toBe(first);
+    expect(await normalizeAddress('la casa azul', 'Bogotá')).toBeNull();
+    expect(await normalizeAddress('la casa azul', 'Bogotá')).toBeNull();
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after VITE_ADDRESS_NORMALIZER_TIMEOUT_MS even if the client hangs', async () => {
+    vi.stubEnv('VITE_ADDRESS_NORMALIZER_TIMEOUT_MS', '100');
+    generateContent.mockReturnValue(new Promise(() => {}));
+    const started = Date.now();
+    expect(await normalizeAddress('clle once n 4 4', 'Cali')).toBeNull();
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a rewrite the parser cannot read back', async () => {
+    generateContent.mockResolvedValueOnce(answer({ reconocida: true, tipo_via: 'CALLE', numero_via: 'diez', numero_cruce: '5', placa: '20' }));
+    generateContent.mockResolvedValueOnce(answer({ reconocida: true, tipo_via: 'CALLE', numero_via: '10', numero_cruce: '5' }));
+    expect(await normalizeAddress('clle dies 5 20', 'Medellín')).toBeNull();
+    expect(await normalizeAddress('clle 10 5', 'Medellín')).toBeNull();
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+});
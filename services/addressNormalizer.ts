@@ -0,0 +1,226 @@
+import { Type } from "@google/genai";
+import { AddressNormalization, NormalizedAddressParts, ViaType } from '../types';
+import { formatAddress, formatComplements, formatViaNumero, parseAddress, parseRuralAddress } from './addressParser';
+import { expandAddressAbbreviations } from './addressDictionaries';
+import { getGenAI, getGeminiModel, getGeocoderProvider, getGeocoderSettings, withProviderLimits } from './geocoders';
+import { isProviderAvailable, RATE_LIMITED } from './rateLimiter';
+
+/*
+  =============================================================================
+  ADDRESS NORMALIZER
+  =============================================================================
+  Rewrites addresses the local parser cannot read ("clle diez n 5 20",
+  "calel 45 sur 12 30 brr kennedy") into Colombian nomenclature before they are
+  geocoded. Only rows without an urban parse and without rural references get
+  here, and a rewrite is kept only when parseAddress reads it back with a plate.
+    VITE_ADDRESS_NORMALIZER=gemini|stub|off   (default: gemini when Gemini is configured)
+    VITE_GEMINI_MODEL=gemini-1.5-flash
+    VITE_ADDRESS_NORMALIZER_TIMEOUT_MS=8000   (whole budget per address, rate-limit wait included)
+  'gemini' asks for a JSON answer constrained by a response schema and shares the
+  'gemini' geocoder's token bucket and circuit breaker. 'stub' is a deterministic
+  local rewrite (spelled numbers, via typos) for offline runs.
+*/
+
+export interface AddressNormalizerProvider {
+  id: string;
+  label: string;
+  isAvailable: () => boolean;
+  normalize: (address: string, city: string, signal?: AbortSignal) => Promise<NormalizedAddressParts | null>;
+}
+
+const env = (): any => import.meta.env;
+
+const DEFAULT_NORMALIZER_TIMEOUT_MS = 8000;
+
+const getNormalizerTimeoutMs = (): number => {
+  const raw = parseInt(String(env().VITE_ADDRESS_NORMALIZER_TIMEOUT_MS ?? ''), 10);
+  return !isNaN(raw) && raw > 0 ? raw : DEFAULT_NORMALIZER_TIMEOUT_MS;
+};
+
+const normalizeStr = (str: string) => str ? str.toString().normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim() : "";
+
+const VIA_TYPES: ViaType[] = ['CALLE', 'CARRERA', 'AVENIDA', 'AVENIDA CALLE', 'AVENIDA CARRERA', 'DIAGONAL', 'TRANSVERSAL', 'CIRCULAR', 'AUTOPISTA'];
+
+const NORMALIZED_ADDRESS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    reconocida: { type: Type.BOOLEAN, description: 'false si el texto no contiene una dirección urbana con vía, cruce y placa' },
+    tipo_via: { type: Type.STRING, enum: VIA_TYPES },
+    numero_via: { type: Type.STRING, description: 'Número de la vía principal con letra, Bis y cuadrante. Ej: "12A Bis Sur"' },
+    numero_cruce: { type: Type.STRING, description: 'Número de la vía que cruza (después de #). Ej: "45B"' },
+    placa: { type: Type.STRING, description: 'Número de placa (después del guion). Ej: "67"' },
+    complemento: { type: Type.STRING, description: 'Apartamento, torre, interior, casa, local... Ej: "Apto 301, Torre 2"' },
+    barrio: { type: Type.STRING, description: 'Nombre del barrio si aparece' }
+  },
+  required: ['reconocida'],
+  propertyOrdering: ['reconocida', 'tipo_via', 'numero_via', 'numero_cruce', 'placa', 'complemento', 'barrio']
+};
+
+const geminiNormalizer: AddressNormalizerProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  isAvailable: () => !!getGenAI(),
+  normalize: async (address, city, signal) => {
+    const genAI = getGenAI();
+    const geocoder = getGeocoderProvider('gemini');
+    if (!genAI || !geocoder) return null;
+    const settings = getGeocoderSettings(geocoder);
+    if (!isProviderAvailable(geocoder.id, settings)) return null;
+    const response = await withProviderLimits(geocoder.id, settings, async () => {
+      try {
+        return await genAI.models.generateContent({
+          model: getGeminiModel(),
+          contents: `Reescribe esta dirección de ${city || 'Colombia'} en la nomenclatura urbana colombiana (tipo de vía, número, # cruce - placa). ` +
+            `Corrige abreviaturas, errores de digitación y números escritos en letras. No inventes números que no estén en el texto. ` +
+            `Dirección: "${address}"`,
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: NORMALIZED_ADDRESS_SCHEMA,
+            temperature: 0,
+            maxOutputTokens: 200,
+            abortSignal: signal ? AbortSignal.any([signal, AbortSignal.timeout(settings.timeoutMs)]) : AbortSignal.timeout(settings.timeoutMs)
+          }
+        });
+      } catch (err: any) {
+        if (/429|RESOURCE_EXHAUSTED/.test(String(err?.message || ''))) throw new Error(RATE_LIMITED);
+        throw err;
+      }
+    }, signal);
+    let data: any;
+    try {
+      data = JSON.parse(response.text || '');
+    } catch {
+      return null;
+    }
+    if (!data?.reconocida || !VIA_TYPES.includes(data.tipo_via)) return null;
+    return {
+      tipo_via: data.tipo_via,
+      numero_via: String(data.numero_via || '').trim(),
+      numero_cruce: String(data.numero_cruce || '').trim(),
+      placa: String(data.placa || '').trim(),
+      complemento: data.complemento ? String(data.complemento).trim() : undefined,
+      barrio: data.barrio ? String(data.barrio).trim() : undefined
+    };
+  }
+};
+
+// Spelled numbers and ordinals seen in client files ("calle diez", "carrera séptima")
+const SPELLED_NUMBERS: Record<string, string> = {
+  uno: '1', una: '1', primera: '1', primero: '1', dos: '2', segunda: '2', tres: '3', tercera: '3',
+  cuatro: '4', cuarta: '4', cinco: '5', quinta: '5', seis: '6', sexta: '6', siete: '7', septima: '7',
+  ocho: '8', octava: '8', nueve: '9', novena: '9', diez: '10', decima: '10', once: '11', doce: '12',
+  trece: '13', catorce: '14', quince: '15', veinte: '20', treinta: '30', cuarenta: '40', cincuenta: '50',
+  sesenta: '60', setenta: '70', ochenta: '80', noventa: '90', cien: '100'
+};
+
+// Misspelled via types the parser's alias table does not cover
+const VIA_TYPOS: Record<string, string> = {
+  calel: 'Calle', cale: 'Calle', callle: 'Calle', caalle: 'Calle', clalle: 'Calle',
+  carera: 'Carrera', karrera: 'Carrera', carrea: 'Carrera', carrrera: 'Carrera', crarrera: 'Carrera', krr: 'Carrera',
+  avenia: 'Avenida', avnida: 'Avenida', avenidad: 'Avenida',
+  diagnal: 'Diagonal', diagona: 'Diagonal',
+  tranversal: 'Transversal', trasversal: 'Transversal', transvesal: 'Transversal'
+};
+
+const BARRIO_RE = /\b(?:barrio|brr|br)\.?\s+([^,#\d]+?)(?=\s*(?:,|$|\b(?:apto|apartamento|casa|torre|interior|int|local)\b))/i;
+
+const stubNormalizer: AddressNormalizerProvider = {
+  id: 'stub',
+  label: 'Normalizador local (stub)',
+  isAvailable: () => true,
+  normalize: async (address) => {
+    const barrio = address.match(BARRIO_RE)?.[1]?.trim();
+    const rewritten = address
+      .replace(BARRIO_RE, ' ')
+      .replace(/(\d+)(?:ra|da|ta|va|na|ma|ro|do|to|vo|mo)\b/gi, '$1')
+      .split(/(\s+)/)
+      .map(word => {
+        const key = normalizeStr(word);
+        return SPELLED_NUMBERS[key] || VIA_TYPOS[key] || word;
+      })
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const parsed = parseAddress(expandAddressAbbreviations(rewritten)).address;
+    if (!parsed || !parsed.cruce || !parsed.placa) return null;
+    return {
+      tipo_via: parsed.tipo_via,
+      numero_via: formatViaNumero(parsed.via),
+      numero_cruce: formatViaNumero(parsed.cruce),
+      placa: parsed.placa,
+      complemento: parsed.complementos.length > 0 ? formatComplements(parsed) : undefined,
+      barrio
+    };
+  }
+};
+
+const NORMALIZERS: AddressNormalizerProvider[] = [geminiNormalizer, stubNormalizer];
+
+// Configured normalizer, or null when off / not available (e.g. 'gemini' without an API key)
+export const getAddressNormalizer = (): AddressNormalizerProvider | null => {
+  const raw = normalizeStr(String(env().VITE_ADDRESS_NORMALIZER ?? ''));
+  if (raw === 'off' || raw === '0') return null;
+  const normalizer = NORMALIZERS.find(n => n.id === (raw || 'gemini'));
+  return normalizer && normalizer.isAvailable() ? normalizer : null;
+};
+
+// Urban addresses the parser cannot read, even with the dictionary's abbreviations expanded;
+// rural references and empty cells are left alone
+export const needsAddressNormalization = (address: string): boolean => {
+  if (!address || !address.trim()) return false;
+  const expanded = expandAddressAbbreviations(address);
+  const parsed = parseAddress(expanded).address;
+  if (parsed && parsed.cruce && parsed.placa) return false;
+  return !parseRuralAddress(expanded);
+};
+
+// Canonical text for the parts, read back by the local parser; null when it does not hold up
+const buildCanonicalAddress = (parts: NormalizedAddressParts): string | null => {
+  if (!parts.numero_via || !parts.numero_cruce || !parts.placa) return null;
+  const base = `${parts.tipo_via} ${parts.numero_via} # ${parts.numero_cruce}-${parts.placa}`;
+  const parsed = parseAddress(base).address;
+  if (!parsed || !parsed.cruce || !parsed.placa) return null;
+  const canonical = formatAddress(parsed);
+  return parts.complemento ? `${canonical} ${parts.complemento}` : canonical;
+};
+
+// Per session, keyed by normalizer + city + address (null = the normalizer could not rewrite it)
+const normalizationCache = new Map<string, AddressNormalization | null>();
+
+/*
+  Canonical rewrite of an address the parser cannot read, or null (not needed, no
+  normalizer configured, or no usable answer). Failures of the normalizer are logged
+  and treated as "no rewrite" so the row still goes through the geocoders. The call is
+  bounded by VITE_ADDRESS_NORMALIZER_TIMEOUT_MS, waiting for the 'gemini' bucket included,
+  so it cannot hold a batch worker past its row budget.
+*/
+export const normalizeAddress = async (address: string, city: string, signal?: AbortSignal): Promise<AddressNormalization | null> => {
+  if (!needsAddressNormalization(address)) return null;
+  const normalizer = getAddressNormalizer();
+  if (!normalizer) return null;
+  const key = `${normalizer.id}|${normalizeStr(city)}|${normalizeStr(address)}`;
+  const cached = normalizationCache.get(key);
+  if (cached !== undefined) return cached;
+
+  let result: AddressNormalization | null = null;
+  try {
+    const budget = AbortSignal.timeout(getNormalizerTimeoutMs());
+    const bounded = signal ? AbortSignal.any([signal, budget]) : budget;
+    // Raced as well, in case the normalizer does not stop on the signal
+    const parts = await new Promise<NormalizedAddressParts | null>((resolve, reject) => {
+      bounded.addEventListener('abort', () => reject(bounded.reason), { once: true });
+      normalizer.normalize(address, city, bounded).then(resolve, reject);
+    });
+    const direccion = parts ? buildCanonicalAddress(parts) : null;
+    if (parts && direccion) {
+      result = { direccion, proveedor: normalizer.id, ...(parts.barrio ? { barrio: parts.barrio } : {}) };
+      console.log(`[NORMALIZER] ${normalizer.id}: "${address}" -> "${direccion}"`);
+    }
+  } catch (err: any) {
+    if (err?.message === 'QUOTA_EXCEEDED') throw err;
+    console.warn(`[NORMALIZER] ${normalizer.id} failed for "${address}":`, err?.message || err);
+    return null;
+  }
+  normalizationCache.set(key, result);
+  return result;
+};
@@ -0,0 +1,335 @@
+import { AddressComplementType, AddressParseError, Cuadrante, ParsedAddress, ParsedRuralAddress, ViaNumero, ViaType } from '../types';
+
+/*
+  =============================================================================
+  COLOMBIAN ADDRESS PARSER
+  =============================================================================
+  Tokenizes an urban address and reads it as
+    <tipo vía> <número vía> [letra] [Bis [letra]] [cuadrante] # <cruce> - <placa> [cuadrante] [complementos]
+  Errors carry character offsets into the original string so the UI can point at them.
+  A result with `address` and errors is a partial parse (e.g. missing plate).
+*/
+
+export interface AddressParseResult {
+  address: ParsedAddress | null;
+  errors: AddressParseError[];
+}
+
+interface Token {
+  text: string;
+  norm: string; // Uppercase without diacritics
+  kind: 'word' | 'number' | 'hash' | 'dash';
+  start: number;
+  end: number;
+}
+
+const VIA_ALIASES: Record<string, ViaType> = {
+  CALLE: 'CALLE', CL: 'CALLE', CLL: 'CALLE', CLLE: 'CALLE', CALL: 'CALLE',
+  CARRERA: 'CARRERA', CRA: 'CARRERA', CR: 'CARRERA', KR: 'CARRERA', KRA: 'CARRERA', CRR: 'CARRERA', CARR: 'CARRERA',
+  AVENIDA: 'AVENIDA', AV: 'AVENIDA', AVDA: 'AVENIDA', AVE: 'AVENIDA',
+  AC: 'AVENIDA CALLE', AK: 'AVENIDA CARRERA',
+  DIAGONAL: 'DIAGONAL', DG: 'DIAGONAL', DIAG: 'DIAGONAL',
+  TRANSVERSAL: 'TRANSVERSAL', TV: 'TRANSVERSAL', TR: 'TRANSVERSAL', TRANS: 'TRANSVERSAL', TRANSV: 'TRANSVERSAL', TRV: 'TRANSVERSAL',
+  CIRCULAR: 'CIRCULAR', CIR: 'CIRCULAR', CIRC: 'CIRCULAR',
+  AUTOPISTA: 'AUTOPISTA', AUTOP: 'AUTOPISTA'
+};
+// Single-letter abbreviations, only accepted right before a number ("C 12", "K 7")
+const SHORT_VIA_ALIASES: Record<string, ViaType> = { C: 'CALLE', K: 'CARRERA' };
+
+const CUADRANTES: Record<string, Cuadrante> = { SUR: 'SUR', ESTE: 'ESTE', NORTE: 'NORTE', OESTE: 'OESTE' };
+
+const NUMBER_WORDS = new Set(['NO', 'NRO', 'NUM', 'NUMERO', 'NMR']);
+const CROSS_CONNECTORS = new Set(['CON', 'X', 'Y']);
+
+const COMPLEMENT_ALIASES: Record<string, AddressComplementType> = {
+  APTO: 'APTO', APT: 'APTO', AP: 'APTO', APARTAMENTO: 'APTO', DPTO: 'APTO',
+  TORRE: 'TORRE', TO: 'TORRE', TRR: 'TORRE',
+  INTERIOR: 'INTERIOR', INT: 'INTERIOR', IN: 'INTERIOR',
+  CASA: 'CASA', CS: 'CASA',
+  BLOQUE: 'BLOQUE', BL: 'BLOQUE', BLQ: 'BLOQUE',
+  MANZANA: 'MANZANA', MZ: 'MANZANA', MZA: 'MANZANA',
+  LOCAL: 'LOCAL', LC: 'LOCAL', LOC: 'LOCAL',
+  OFICINA: 'OFICINA', OF: 'OFICINA', OFI: 'OFICINA',
+  PISO: 'PISO', PS: 'PISO',
+  ETAPA: 'ETAPA', ET: 'ETAPA',
+  CONJUNTO: 'CONJUNTO', CONJ: 'CONJUNTO', CJ: 'CONJUNTO', URBANIZACION: 'CONJUNTO', URB: 'CONJUNTO', AGRUPACION: 'CONJUNTO',
+  EDIFICIO: 'EDIFICIO', ED: 'EDIFICIO', EDIF: 'EDIFICIO',
+  BARRIO: 'BARRIO', BR: 'BARRIO', BRR: 'BARRIO'
+};
+
+const normToken = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+
+const tokenize = (raw: string): Token[] => {
+  const tokens: Token[] = [];
+  const re = /[A-Za-zÀ-ÿ]+|\d+|#|-|[°º]/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(raw)) !== null) {
+    const text = m[0];
+    const start = m.index, end = start + text.length;
+    if (text === '°' || text === 'º') {
+      // "N°" / "No°" means "número"
+      const prev = tokens[tokens.length - 1];
+      if (prev && prev.end === start && (prev.norm === 'N' || NUMBER_WORDS.has(prev.norm))) {
+        prev.kind = 'hash';
+        prev.end = end;
+        prev.text += text;
+      }
+      continue;
+    }
+    if (text === '#') tokens.push({ text, norm: '#', kind: 'hash', start, end });
+    else if (text === '-') tokens.push({ text, norm: '-', kind: 'dash', start, end });
+    else if (/^\d+$/.test(text)) tokens.push({ text, norm: text, kind: 'number', start, end });
+    else tokens.push({ text, norm: normToken(text), kind: 'word', start, end });
+  }
+  // "No 45", "Nro. 45", "N 45" -> número marker
+  tokens.forEach((t, i) => {
+    const next = tokens[i + 1];
+    if (t.kind === 'word' && next && next.kind === 'number' && (NUMBER_WORDS.has(t.norm) || t.norm === 'N')) t.kind = 'hash';
+  });
+  return tokens;
+};
+
+const viaTypeAt = (tokens: Token[], i: number): { type: ViaType, length: number } | null => {
+  const t = tokens[i];
+  if (!t || t.kind !== 'word') return null;
+  const next = tokens[i + 1];
+  let type: ViaType | undefined = VIA_ALIASES[t.norm];
+  if (!type && SHORT_VIA_ALIASES[t.norm] && next && next.kind === 'number') type = SHORT_VIA_ALIASES[t.norm];
+  if (!type) return null;
+  // "Avenida Calle 26" / "Av Cra 30"
+  if (type === 'AVENIDA' && next && next.kind === 'word') {
+    const second = VIA_ALIASES[next.norm] || (SHORT_VIA_ALIASES[next.norm] && tokens[i + 2]?.kind === 'number' ? SHORT_VIA_ALIASES[next.norm] : undefined);
+    if (second === 'CALLE') return { type: 'AVENIDA CALLE', length: 2 };
+    if (second === 'CARRERA') return { type: 'AVENIDA CARRERA', length: 2 };
+  }
+  return { type, length: 1 };
+};
+
+const isLetter = (t?: Token) => !!t && t.kind === 'word' && t.norm.length === 1 && !CROSS_CONNECTORS.has(t.norm);
+
+// Reads [letra] [Bis [letra]] [cuadrante] after a number
+const readSuffixes = (tokens: Token[], i: number, target: ViaNumero): number => {
+  if (isLetter(tokens[i]) && tokens[i].norm !== 'N') { target.letra = tokens[i].norm; i++; }
+  if (tokens[i]?.norm === 'BIS') {
+    target.bis = true;
+    i++;
+    if (isLetter(tokens[i]) && tokens[i].norm !== 'N') { target.letra_bis = tokens[i].norm; i++; }
+  }
+  if (tokens[i] && CUADRANTES[tokens[i].norm]) { target.cuadrante = CUADRANTES[tokens[i].norm]; i++; }
+  return i;
+};
+
+const readComplements = (tokens: Token[]): ParsedAddress['complementos'] => {
+  const out: ParsedAddress['complementos'] = [];
+  let current: { tipo: AddressComplementType, parts: string[] } | null = null;
+  const flush = () => {
+    if (current && (current.parts.length > 0 || current.tipo !== 'OTRO')) out.push({ tipo: current.tipo, valor: current.parts.join(' ') });
+    current = null;
+  };
+  for (const t of tokens) {
+    if (t.kind === 'word' && COMPLEMENT_ALIASES[t.norm]) {
+      flush();
+      current = { tipo: COMPLEMENT_ALIASES[t.norm], parts: [] };
+      continue;
+    }
+    if (t.kind === 'dash' || t.kind === 'hash') continue;
+    if (!current) current = { tipo: 'OTRO', parts: [] };
+    current.parts.push(t.text);
+  }
+  flush();
+  return out;
+};
+
+export const parseAddress = (raw: string): AddressParseResult => {
+  const text = String(raw || '');
+  const errors: AddressParseError[] = [];
+  const err = (codigo: AddressParseError['codigo'], mensaje: string, inicio: number, fin: number) => errors.push({ codigo, mensaje, inicio, fin });
+  const tokens = tokenize(text);
+  if (tokens.length === 0) {
+    err('DIRECCION_VACIA', 'La dirección está vacía.', 0, text.length);
+    return { address: null, errors };
+  }
+  const posAt = (i: number) => tokens[i] ? tokens[i].start : text.length;
+  const endAt = (i: number) => tokens[i] ? tokens[i].end : text.length;
+
+  // The via type usually opens the address, but "Barrio X, Calle 10 # ..." is common too
+  let start = -1;
+  for (let i = 0; i < tokens.length && start === -1; i++) if (viaTypeAt(tokens, i)) start = i;
+  if (start === -1) {
+    err('TIPO_VIA_FALTANTE', 'No se reconoce el tipo de vía (Calle, Carrera, Avenida, Diagonal, Transversal...).', tokens[0].start, text.length);
+    return { address: null, errors };
+  }
+  const leading = tokens.slice(0, start);
+  const via = viaTypeAt(tokens, start)!;
+  let i = start + via.length;
+
+  const address: ParsedAddress = { tipo_via: via.type, via: { numero: '' }, complementos: [] };
+  if (tokens[i]?.kind === 'number') {
+    address.via.numero = tokens[i].text;
+    i++;
+  } else if ((via.type === 'AVENIDA' || via.type === 'AUTOPISTA') && tokens[i]?.kind === 'word') {
+    // Named avenues: "Avenida Boyacá # 12-30", "Autopista Norte # 100-20"
+    const names: string[] = [];
+    while (tokens[i] && tokens[i].kind === 'word' && !COMPLEMENT_ALIASES[tokens[i].norm]) names.push(tokens[i++].text);
+    address.via.numero = names.join(' ');
+  } else {
+    err('NUMERO_VIA_FALTANTE', 'Falta el número de la vía principal.', posAt(i), endAt(i));
+    return { address: null, errors };
+  }
+  i = readSuffixes(tokens, i, address.via);
+
+  // Cross street: "# 45", "No 45", implicit "Calle 12 45-67", or "Calle 10 con Carrera 5"
+  let hasCross = false;
+  if (tokens[i]?.kind === 'hash') {
+    i++;
+    hasCross = true;
+  } else if (tokens[i] && CROSS_CONNECTORS.has(tokens[i].norm) && viaTypeAt(tokens, i + 1)) {
+    i += 1 + viaTypeAt(tokens, i + 1)!.length;
+    hasCross = true;
+  } else if (tokens[i]?.kind === 'number') {
+    hasCross = true;
+  }
+
+  if (hasCross && tokens[i]?.kind === 'number') {
+    const cruce: ViaNumero = { numero: tokens[i].text };
+    i = readSuffixes(tokens, i + 1, cruce);
+    address.cruce = cruce;
+    if (tokens[i]?.kind === 'dash') i++;
+    if (tokens[i]?.kind === 'number') {
+      address.placa = tokens[i].text;
+      i++;
+      // "45-67A": plate letter written right after the number
+      if (isLetter(tokens[i]) && tokens[i].start === tokens[i - 1].end) { address.placa += tokens[i].norm; i++; }
+    } else {
+      err('PLACA_FALTANTE', 'Falta el número de placa (después del guion).', posAt(i), endAt(i));
+    }
+  } else {
+    err('CRUCE_FALTANTE', 'Falta el número de la vía que cruza (después de #).', posAt(i), endAt(i));
+  }
+
+  if (tokens[i] && CUADRANTES[tokens[i].norm]) { address.cuadrante = CUADRANTES[tokens[i].norm]; i++; }
+
+  // Whatever follows must be complements; anything else is reported but kept as OTRO
+  const rest = tokens.slice(i);
+  if (rest.length > 0 && rest[0].kind !== 'word') {
+    err('TOKEN_INESPERADO', `Texto inesperado "${rest[0].text}" en la dirección.`, rest[0].start, rest[0].end);
+  } else if (rest.length > 0 && !COMPLEMENT_ALIASES[rest[0].norm]) {
+    err('TOKEN_INESPERADO', `Texto inesperado "${rest[0].text}"; use Apto, Torre, Interior, Casa...`, rest[0].start, rest[0].end);
+  }
+  address.complementos = [...readComplements(leading), ...readComplements(rest)];
+  return { address, errors };
+};
+
+/*
+  Rural references: each marker opens a field that runs until the next marker.
+    Km 5 vía Chía-Cajicá | Vereda La Balsa finca El Roble | Corregimiento de San Cristóbal sector El Alto
+  "vía" and "sector" alone do not make an address rural (urban addresses use them too).
+*/
+type RuralField = 'kilometro' | 'via' | 'vereda' | 'finca' | 'corregimiento' | 'sector';
+
+const RURAL_MARKERS: Record<string, RuralField> = {
+  KM: 'kilometro', KMS: 'kilometro', KILOMETRO: 'kilometro',
+  VIA: 'via', CARRETERA: 'via', CTRA: 'via',
+  VEREDA: 'vereda', VDA: 'vereda', VRDA: 'vereda', VER: 'vereda',
+  FINCA: 'finca', FCA: 'finca', HACIENDA: 'finca', HDA: 'finca', PARCELA: 'finca', PREDIO: 'finca',
+  CORREGIMIENTO: 'corregimiento', CORREG: 'corregimiento', CGTO: 'corregimiento', CORR: 'corregimiento',
+  SECTOR: 'sector'
+};
+// Connectors dropped at the start of a place name: "vereda de La Balsa" (road names keep them: "vía al Mar")
+const NAME_CONNECTORS = new Set(['DE', 'DEL']);
+
+export const parseRuralAddress = (raw: string): ParsedRuralAddress | null => {
+  const text = String(raw || '');
+  const tokens = tokenize(text);
+  const out: ParsedRuralAddress = {};
+  let field: RuralField | null = null;
+  let parts: string[] = [];
+  const flush = () => {
+    if (field && parts.length > 0 && !out[field]) out[field] = parts.join(' ').replace(/\s*-\s*/g, '-');
+    field = null;
+    parts = [];
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.kind === 'word' && t.norm === 'RURAL') { out.zona_rural = true; continue; }
+    // "K 5" is Carrera 5 in urban addresses; only the spelled markers count
+    const marker = t.kind === 'word' ? RURAL_MARKERS[t.norm] : undefined;
+    if (marker) {
+      flush();
+      field = marker;
+      if (marker === 'kilometro') {
+        const n = tokens[i + 1];
+        if (n?.kind === 'number') {
+          let km = n.text;
+          i++;
+          // "5.3", "5,3" and "5+300" are split by the tokenizer; glue them back from the raw text
+          const next = tokens[i + 1];
+          const between = next ? text.slice(tokens[i].end, next.start) : '';
+          if (next?.kind === 'number' && /^\s*[.,+]\s*$/.test(between)) {
+            km += between.trim() === '+' ? `+${next.text}` : `.${next.text}`;
+            i++;
+          }
+          out.kilometro = out.kilometro || km;
+        }
+        field = null;
+      }
+      continue;
+    }
+    if (!field) continue;
+    if (parts.length === 0 && field !== 'via' && t.kind === 'word' && NAME_CONNECTORS.has(t.norm)) continue;
+    if (t.kind === 'hash') continue;
+    parts.push(t.kind === 'dash' ? '-' : t.text);
+  }
+  flush();
+
+  const isRural = !!(out.kilometro || out.vereda || out.finca || out.corregimiento || out.zona_rural);
+  return isRural ? out : null;
+};
+
+// "Km 5 Vía Chía-Cajicá, Vereda La Balsa, Finca El Roble"
+export const formatRuralAddress = (r: ParsedRuralAddress): string => {
+  const parts: string[] = [];
+  if (r.kilometro) parts.push(`Km ${r.kilometro}${r.via ? ` Vía ${r.via}` : ''}`);
+  else if (r.via) parts.push(`Vía ${r.via}`);
+  if (r.vereda) parts.push(`Vereda ${r.vereda}`);
+  if (r.corregimiento) parts.push(`Corregimiento ${r.corregimiento}`);
+  if (r.sector) parts.push(`Sector ${r.sector}`);
+  if (r.finca) parts.push(`Finca ${r.finca}`);
+  return parts.join(', ');
+};
+
+const titleCase = (s: string) => s.toLowerCase().replace(/(^|\s)\S/g, c => c.toUpperCase());
+
+export const formatViaNumero = (v: ViaNumero): string => {
+  let out = v.numero;
+  if (v.letra) out += v.letra;
+  if (v.bis) out += ' Bis';
+  if (v.letra_bis) out += ` ${v.letra_bis}`;
+  if (v.cuadrante) out += ` ${titleCase(v.cuadrante)}`;
+  return out;
+};
+
+// Canonical street address without complements, e.g. "Calle 12A Bis Sur # 45B-67 Este". Used for geocoding and cache keys.
+export const formatAddress = (p: ParsedAddress): string => {
+  let out = `${titleCase(p.tipo_via)} ${formatViaNumero(p.via)}`;
+  if (p.cruce) out += ` # ${formatViaNumero(p.cruce)}`;
+  if (p.placa) out += `-${p.placa}`;
+  if (p.cuadrante) out += ` ${titleCase(p.cuadrante)}`;
+  return out;
+};
+
+export const formatComplements = (p: ParsedAddress): string =>
+  p.complementos.map(c => c.tipo === 'OTRO' ? c.valor : `${titleCase(c.tipo)} ${c.valor}`.trim()).join(', ');
+
+// Fields stored on AddressTemplate for a raw address. A rural address without urban nomenclature is not an error.
+export const parseAddressFields = (raw: string): { direccion_estructurada?: ParsedAddress, errores_direccion?: AddressParseError[], direccion_rural?: ParsedRuralAddress } => {
+  const { address, errors } = parseAddress(raw);
+  const rural = parseRuralAddress(raw);
+  const reported = rural && !address ? [] : errors;
+  return {
+    direccion_estructurada: address || undefined,
+    errores_direccion: reported.length > 0 ? reported : undefined,
+    direccion_rural: rural || undefined
+  };
+};
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_ADDRESS_DICTIONARIES, setAddressDictionaries } from './addressDictionaries';
+import { needsAddressNormalization } from './addressNormalizer';
+import { analyzeAddress, scoreAddressQuality } from './addressQuality';
+
+const withVariant = (variante: string, expansion: string) => setAddressDictionaries({
+  ...DEFAULT_ADDRESS_DICTIONARIES,
+  abreviaturas: [...DEFAULT_ADDRESS_DICTIONARIES.abreviaturas, { variante, expansion }]
+});
+
+describe('address quality with the editable dictionaries', () => {
+  afterEach(() => setAddressDictionaries(DEFAULT_ADDRESS_DICTIONARIES));
+
+  it('scores a complete address at 100', () => {
+    expect(scoreAddressQuality('Calle 10 # 5-20')).toEqual({ score: 100, reasons: [] });
+  });
+
+  it('reads a via type added to the dictionary at runtime', () => {
+    expect(scoreAddressQuality('Tranv 45 # 12-30')).toEqual({ score: 40, reasons: ['SIN_TIPO_VIA'] });
+    expect(needsAddressNormalization('Tranv 45 # 12-30')).toBe(true);
+
+    withVariant('tranv', 'Transversal');
+    expect(scoreAddressQuality('Tranv 45 # 12-30')).toEqual({ score: 100, reasons: [] });
+    expect(needsAddressNormalization('Tranv 45 # 12-30')).toBe(false);
+    expect(analyzeAddress('Tranv 45 # 12-30')).toMatchObject({
+      calidad_direccion: 100,
+      direccion_estructurada: { tipo_via: 'TRANSVERSAL' },
+      errores_direccion: undefined
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { AddressQualityReason, AddressTemplate } from '../types';
+import { parseAddress, parseAddressFields, parseRuralAddress } from './addressParser';
+import { expandAddressAbbreviations } from './addressDictionaries';
+
+/*
+  =============================================================================
+  ADDRESS QUALITY SCORE
+  =============================================================================
+  Scores an address 0-100 before any paid geocoding call. Each problem found
+  subtracts its penalty and adds a reason code; rows under the configured
+  threshold go to manual review instead of the geocoders. The address is read after
+  the abbreviations of the editable dictionary are expanded, as the geocoders see it.
+*/
+
+export interface AddressQuality {
+  score: number;
+  reasons: AddressQualityReason[];
+}
+
+const PENALTIES: Record<AddressQualityReason, number> = {
+  SIN_DIRECCION: 100,
+  MUY_CORTA: 30,
+  SIN_TIPO_VIA: 60,
+  SIN_NUMERO_VIA: 50,
+  SIN_CRUCE: 40,
+  SIN_PLACA: 25,
+  SOLO_BARRIO: 70,
+  RURAL_SIN_REFERENCIA: 50,
+  TELEFONO: 25,
+  EMAIL: 25,
+  TEXTO_EXTRA: 10
+};
+
+export const ADDRESS_QUALITY_REASON_LABELS: Record<AddressQualityReason, string> = {
+  SIN_DIRECCION: 'Dirección vacía',
+  MUY_CORTA: 'Dirección demasiado corta',
+  SIN_TIPO_VIA: 'Sin tipo de vía',
+  SIN_NUMERO_VIA: 'Sin número de vía',
+  SIN_CRUCE: 'Sin número de cruce',
+  SIN_PLACA: 'Sin número de placa',
+  SOLO_BARRIO: 'Solo nombre de barrio',
+  RURAL_SIN_REFERENCIA: 'Rural sin vereda, km o finca',
+  TELEFONO: 'Contiene un teléfono',
+  EMAIL: 'Contiene un correo',
+  TEXTO_EXTRA: 'Texto no reconocido'
+};
+
+const EMAIL_RE = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+// Colombian mobiles (3xx xxx xxxx), landlines with area code (60x xxx xxxx) or 7 digits after tel/cel
+const PHONE_RE = /(?:\+?57[\s-]?)?\b(?:3\d{2}|60\d)[\s-]?\d{3}[\s-]?\d{4}\b|\b(?:tel|tel[eé]fono|cel|celular|whatsapp)\.?:?\s*\d[\d\s-]{5,}\d/gi;
+const NEIGHBORHOOD_WORDS = /\b(barrio|br|brr|urbanizaci[oó]n|urb|conjunto|conj|sector|ciudadela|villa)\b/i;
+
+export const scoreAddressQuality = (raw: string): AddressQuality => {
+  const reasons: AddressQualityReason[] = [];
+  let text = String(raw || '').trim();
+  if (!text) return { score: 0, reasons: ['SIN_DIRECCION'] };
+
+  // Contact data is removed before parsing so it is not reported twice as unexpected text
+  if (text.match(EMAIL_RE)) { reasons.push('EMAIL'); text = text.replace(EMAIL_RE, ' '); }
+  if (text.match(PHONE_RE)) { reasons.push('TELEFONO'); text = text.replace(PHONE_RE, ' '); }
+
+  if (text.replace(/[^A-Za-z0-9]/g, '').length < 6) reasons.push('MUY_CORTA');
+  text = expandAddressAbbreviations(text);
+
+  const rural = parseRuralAddress(text);
+  const { address, errors } = parseAddress(text);
+  if (rural && !address) {
+    if (!rural.kilometro && !rural.vereda && !rural.finca && !rural.corregimiento) reasons.push('RURAL_SIN_REFERENCIA');
+  } else {
+    const codes = new Set(errors.map(e => e.codigo));
+    if (codes.has('DIRECCION_VACIA')) reasons.push('SIN_DIRECCION');
+    else if (codes.has('TIPO_VIA_FALTANTE')) reasons.push(NEIGHBORHOOD_WORDS.test(text) ? 'SOLO_BARRIO' : 'SIN_TIPO_VIA');
+    if (codes.has('NUMERO_VIA_FALTANTE')) reasons.push('SIN_NUMERO_VIA');
+    if (codes.has('CRUCE_FALTANTE')) reasons.push('SIN_CRUCE');
+    if (codes.has('PLACA_FALTANTE')) reasons.push('SIN_PLACA');
+    if (codes.has('TOKEN_INESPERADO')) reasons.push('TEXTO_EXTRA');
+  }
+
+  const penalty = reasons.reduce((sum, r) => sum + PENALTIES[r], 0);
+  return { score: Math.max(0, Math.min(100, 100 - penalty)), reasons };
+};
+
+// Parser + quality fields stored on AddressTemplate for a raw address
+export const analyzeAddress = (raw: string): Pick<AddressTemplate, 'direccion_estructurada' | 'errores_direccion' | 'direccion_rural' | 'calidad_direccion' | 'motivos_calidad'> => {
+  const quality = scoreAddressQuality(raw);
+  return {
+    ...parseAddressFields(expandAddressAbbreviations(String(raw || ''))),
+    calidad_direccion: quality.score,
+    motivos_calidad: quality.reasons
+  };
+};
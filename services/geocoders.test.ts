@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearGeocoderAnswers, GeocodeQuery, registerGeocoderProvider, runGeocoderChainDetailed, runGeocoderConsensus } from './geocoders';
+import { getRateLimiterSnapshot, resetRateLimiter } from './rateLimiter';
+
+/*
+  The per-run answer memo against the circuit breaker: an answer read from the memo makes
+  no request, so it must not take (and strand) the half-open trial slot.
+*/
+
+const asked: string[] = [];
+
+registerGeocoderProvider({
+  id: 'fake_point',
+  label: 'Fake',
+  stage: 'point',
+  priority: 999,
+  defaultTimeoutMs: 1000,
+  defaultMinConfidence: 0,
+  coarse: true,
+  isAvailable: () => true,
+  geocode: async (q) => {
+    asked.push(q.address);
+    if (q.address.startsWith('FALLA')) throw new Error('HTTP 500');
+    return { confidence: 0.9, lat: 6.2, lon: -75.5 };
+  }
+});
+
+const query = (address: string): GeocodeQuery => ({ address, street: address, city: 'Medellín', department: 'Antioquia', simplification: 0 });
+
+const circuit = () => getRateLimiterSnapshot().find(s => s.id === 'fake_point')?.circuit;
+
+describe('answer memo and the circuit breaker', () => {
+  beforeEach(() => {
+    asked.length = 0;
+    resetRateLimiter();
+    clearGeocoderAnswers();
+    vi.stubEnv('VITE_GEOCODER_CHAIN', 'fake_point');
+    vi.stubEnv('VITE_GEOCODER_FAKE_POINT_BREAKER_FAILURES', '1');
+    vi.stubEnv('VITE_GEOCODER_FAKE_POINT_BREAKER_COOLDOWN_MS', '0');
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('answers a memoized query without taking the half-open trial', async () => {
+    expect((await runGeocoderChainDetailed('point', query('A'))).failed).toEqual([]);
+    expect((await runGeocoderChainDetailed('point', query('FALLA B'))).failed).toEqual(['fake_point']);
+    expect(circuit()).toBe('half_open');
+
+    const memoized = await runGeocoderChainDetailed('point', query('A'));
+    expect(memoized).toMatchObject({ result: { provider: 'fake_point' }, failed: [] });
+    expect(circuit()).toBe('half_open');
+
+    // The trial is still free: the next new query makes the request and closes the circuit
+    for (const address of ['C', 'D', 'E']) {
+      expect((await runGeocoderChainDetailed('point', query(address))).failed).toEqual([]);
+    }
+    expect(circuit()).toBe('closed');
+    expect(asked).toEqual(['A', 'FALLA B', 'C', 'D', 'E']);
+  });
+
+  it('does the same in consensus mode', async () => {
+    await runGeocoderChainDetailed('point', query('A'));
+    await runGeocoderChainDetailed('point', query('FALLA B'));
+
+    expect(await runGeocoderConsensus(query('A'))).toHaveLength(1);
+    expect(await runGeocoderConsensus(query('C'))).toHaveLength(1);
+    expect(circuit()).toBe('closed');
+    expect(asked).toEqual(['A', 'FALLA B', 'C']);
+  });
+});
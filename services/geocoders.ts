@@ -0,0 +1,546 @@
+import { GoogleGenAI } from "@google/genai";
+import { AddressValidationVerdict, VerdictLevel } from '../types';
+import { acquireProviderToken, isProviderAvailable, RATE_LIMITED, RateLimitSettings, recordProviderFailure, recordProviderSuccess, recordProviderThrottled, releaseProviderTrial } from './rateLimiter';
+
+/*
+  =============================================================================
+  GEOCODER PROVIDER CHAIN
+  =============================================================================
+  Every lookup (Google Address Validation, 472 API, Google Maps, the offline
+  OSM street network, Nominatim/Photon/Pelias, Gemini) is a GeocoderProvider.
+  Providers run in one ordered chain shared by the batch, turbo, single-row and
+  map search paths:
+
+    - 'postal' providers return a CP directly and are tried before the local
+      municipal index / polygon matching.
+    - 'point' providers return coordinates that are then matched to a zone.
+
+  Order, enable flags, timeouts and minimum confidence come from the env:
+    VITE_GEOCODER_CHAIN=google_validation,official_472,google_maps,osm_streets,photon,nominatim,gemini
+    VITE_GEOCODER_<ID>_ENABLED=0|1
+    VITE_GEOCODER_<ID>_TIMEOUT_MS=10000
+    VITE_GEOCODER_<ID>_MIN_CONFIDENCE=0.5
+    VITE_GEOCODER_<ID>_RATE_PER_SEC=1          (token bucket, see rateLimiter.ts)
+    VITE_GEOCODER_<ID>_BURST=1
+    VITE_GEOCODER_<ID>_BREAKER_FAILURES=5
+    VITE_GEOCODER_<ID>_BREAKER_COOLDOWN_MS=60000
+    VITE_GEOCODER_CONSENSUS=1                  (consensus mode on by default)
+  Providers missing from an explicit VITE_GEOCODER_CHAIN are not called.
+*/
+
+export type GeocoderStage = 'postal' | 'point';
+
+export interface GeocodeQuery {
+  address: string;        // Raw address as it came in the row
+  street: string;         // Normalized street part (no city, noise words or complements)
+  city: string;
+  department: string;
+  recipient?: string;
+  simplification: number; // 0 = full address, 1 = street only, 2 = city only
+  signal?: AbortSignal;   // Caller's stop signal (batch abort); ends waits for a rate-limit token
+}
+
+export interface GeocodeResult {
+  provider: string;
+  confidence: number;     // 0-1, compared against the provider's minConfidence
+  lat?: number;
+  lon?: number;
+  postalCode?: string;    // 6 digits; required from 'postal' providers
+  formattedAddress?: string;
+  locationName?: string;
+  verdict?: AddressValidationVerdict;
+}
+
+export interface GeocoderProvider {
+  id: string;             // lowercase, used in VITE_GEOCODER_CHAIN and the VITE_GEOCODER_<ID>_* keys
+  label: string;
+  stage: GeocoderStage;
+  priority: number;       // Default position in the chain (lower runs first)
+  coarse?: boolean;       // Also queried with simplified (street only / city only) queries
+  defaultTimeoutMs: number;
+  defaultMinConfidence: number;
+  defaultRatePerSec?: number; // Requests per second allowed by the service; 0 / absent = unthrottled
+  defaultBurst?: number;
+  isAvailable: () => boolean; // API keys / URLs present
+  geocode: (query: GeocodeQuery, signal: AbortSignal) => Promise<Omit<GeocodeResult, 'provider'> | null>;
+}
+
+export interface GeocoderSettings extends RateLimitSettings {
+  enabled: boolean;
+  timeoutMs: number;
+  minConfidence: number;
+}
+
+const providers = new Map<string, GeocoderProvider>();
+
+export const registerGeocoderProvider = (provider: GeocoderProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getGeocoderProvider = (id: string): GeocoderProvider | undefined => providers.get(id);
+
+const env = (): any => import.meta.env;
+
+const readEnvNumber = (key: string, fallback: number, max?: number): number => {
+  const raw = parseFloat(String(env()[key] ?? ''));
+  if (isNaN(raw) || raw < 0) return fallback;
+  return max !== undefined ? Math.min(raw, max) : raw;
+};
+
+const DEFAULT_BREAKER_FAILURES = 5;
+const DEFAULT_BREAKER_COOLDOWN_MS = 60000;
+const MAX_THROTTLE_RETRIES = 3;
+
+export const getGeocoderSettings = (provider: GeocoderProvider): GeocoderSettings => {
+  const prefix = `VITE_GEOCODER_${provider.id.toUpperCase()}_`;
+  const flag = String(env()[`${prefix}ENABLED`] ?? '').trim();
+  return {
+    enabled: flag !== '0' && provider.isAvailable(),
+    timeoutMs: readEnvNumber(`${prefix}TIMEOUT_MS`, provider.defaultTimeoutMs),
+    minConfidence: readEnvNumber(`${prefix}MIN_CONFIDENCE`, provider.defaultMinConfidence, 1),
+    ratePerSec: readEnvNumber(`${prefix}RATE_PER_SEC`, provider.defaultRatePerSec ?? 0),
+    burst: Math.max(1, readEnvNumber(`${prefix}BURST`, provider.defaultBurst ?? 1)),
+    breakerFailures: Math.max(1, readEnvNumber(`${prefix}BREAKER_FAILURES`, DEFAULT_BREAKER_FAILURES)),
+    breakerCooldownMs: readEnvNumber(`${prefix}BREAKER_COOLDOWN_MS`, DEFAULT_BREAKER_COOLDOWN_MS)
+  };
+};
+
+// Configured order: VITE_GEOCODER_CHAIN when set (unknown ids are ignored), otherwise every provider by priority
+export const getGeocoderChainOrder = (): GeocoderProvider[] => {
+  const raw = String(env().VITE_GEOCODER_CHAIN ?? '').trim();
+  if (!raw) return Array.from(providers.values()).sort((a, b) => a.priority - b.priority);
+  const ids = Array.from(new Set(raw.split(',').map(s => s.trim().toLowerCase()).filter(Boolean)));
+  return ids.map(id => providers.get(id)).filter((p): p is GeocoderProvider => !!p);
+};
+
+export const getGeocoderChain = (stage: GeocoderStage): { provider: GeocoderProvider, settings: GeocoderSettings }[] =>
+  getGeocoderChainOrder()
+    .filter(p => p.stage === stage)
+    .map(provider => ({ provider, settings: getGeocoderSettings(provider) }))
+    .filter(entry => entry.settings.enabled);
+
+export const describeGeocoderChain = (): string =>
+  getGeocoderChainOrder()
+    .map(p => `${p.id}${getGeocoderSettings(p).enabled ? '' : ' (off)'}`)
+    .join(' → ');
+
+// Shared text form of a query, honoring the simplification level
+export const buildGeocodeQueryText = (q: GeocodeQuery): string => {
+  const area = `${q.city}${q.department ? `, ${q.department}` : ''}`;
+  const parts = q.simplification >= 2 ? [area] : [q.street, area];
+  if (q.simplification === 0 && q.recipient && q.recipient.trim()) parts.push(q.recipient.trim());
+  return [...parts.filter(p => p && p.trim()), 'Colombia'].join(', ');
+};
+
+const isAcceptable = (stage: GeocoderStage, r: Omit<GeocodeResult, 'provider'>): boolean => {
+  if (stage === 'postal') return !!r.postalCode && /^\d{6}$/.test(r.postalCode);
+  return typeof r.lat === 'number' && typeof r.lon === 'number' && isFinite(r.lat) && isFinite(r.lon);
+};
+
+const runWithTimeout = async (provider: GeocoderProvider, query: GeocodeQuery, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`TIMEOUT ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([provider.geocode(query, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/*
+  Runs one request of a provider through the shared rate limiter: waits for a token,
+  retries 429s after the bucket's backoff and feeds the circuit breaker. "Not found"
+  (null) counts as a healthy answer. QUOTA_EXCEEDED and an abort while waiting for a
+  token release a half-open trial instead of counting for or against the provider.
+*/
+export const withProviderLimits = async <T>(id: string, settings: GeocoderSettings, request: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await acquireProviderToken(id, settings, signal);
+    } catch (err) {
+      releaseProviderTrial(id, settings);
+      throw err;
+    }
+    try {
+      const r = await request();
+      recordProviderSuccess(id, settings);
+      return r;
+    } catch (err: any) {
+      if (err?.message === RATE_LIMITED && attempt < MAX_THROTTLE_RETRIES) {
+        recordProviderThrottled(id, settings);
+        continue;
+      }
+      if (err?.message === 'QUOTA_EXCEEDED') releaseProviderTrial(id, settings);
+      else recordProviderFailure(id, settings);
+      throw err;
+    }
+  }
+};
+
+/*
+  Raw answers (null = not found) of the current run per provider and query, so consensus
+  mode does not pay again for what the chain already asked. Failures are not kept. The
+  department is left out of the key: the point stage fills it from the zones when the row
+  has none. Cleared with clearGeocoderAnswers() at the start of a batch.
+*/
+const ANSWER_MEMO_MAX = 5000;
+const answerMemo = new Map<string, Omit<GeocodeResult, 'provider'> | null>();
+
+const answerKey = (id: string, q: GeocodeQuery): string => {
+  const norm = (v: string) => (v || '').normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/\(.*?\)/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${id}|${q.simplification}|${norm(q.street)}|${norm(q.address)}|${norm(q.city)}`;
+};
+
+// undefined = not asked yet in this run. Read before isProviderAvailable: a memo hit makes no
+// request, so it must not take the half-open trial slot that only a request releases
+const recallAnswer = (id: string, query: GeocodeQuery): Omit<GeocodeResult, 'provider'> | null | undefined => {
+  const key = answerKey(id, query);
+  return answerMemo.has(key) ? answerMemo.get(key)! : undefined;
+};
+
+const askProvider = async (provider: GeocoderProvider, settings: GeocoderSettings, query: GeocodeQuery): Promise<Omit<GeocodeResult, 'provider'> | null> => {
+  const key = answerKey(provider.id, query);
+  const r = await withProviderLimits(provider.id, settings, () => runWithTimeout(provider, query, settings.timeoutMs), query.signal);
+  if (answerMemo.size >= ANSWER_MEMO_MAX) answerMemo.delete(answerMemo.keys().next().value!);
+  answerMemo.set(key, r);
+  return r;
+};
+
+export const clearGeocoderAnswers = (): void => {
+  answerMemo.clear();
+};
+
+// HTTP status handling shared by the providers: 429 goes to the rate limiter, 5xx counts as a failure
+export const checkProviderResponse = (res: Response): boolean => {
+  if (res.status === 429) throw new Error(RATE_LIMITED);
+  if (res.status >= 500) throw new Error(`HTTP ${res.status}`);
+  return res.ok;
+};
+
+export interface GeocoderChainOutcome {
+  result: GeocodeResult | null;
+  failed: string[];       // Providers that errored or were skipped by an open circuit
+  rejected: GeocodeResult[]; // Answers below their provider's minConfidence, in chain order
+}
+
+/*
+  Tries the enabled providers of a stage in order and returns the first result at or
+  above the provider's minimum confidence. Provider failures fall through to the next
+  one, except QUOTA_EXCEEDED which the batch processor handles by pausing. Providers
+  whose circuit is open are skipped. `failed` tells a real "not found" (every provider
+  answered) apart from a miss caused by errors, which callers should not cache;
+  `rejected` keeps the low-confidence answers (and their verdicts) the chain passed over.
+*/
+export const runGeocoderChainDetailed = async (stage: GeocoderStage, query: GeocodeQuery): Promise<GeocoderChainOutcome> => {
+  const failed: string[] = [];
+  const rejected: GeocodeResult[] = [];
+  for (const { provider, settings } of getGeocoderChain(stage)) {
+    if (query.simplification > 0 && !provider.coarse) continue;
+    // A stopped run is not a "not found": report it as failed so nothing gets cached
+    const memo = recallAnswer(provider.id, query);
+    if (query.signal?.aborted || (memo === undefined && !isProviderAvailable(provider.id, settings))) {
+      failed.push(provider.id);
+      continue;
+    }
+    try {
+      const r = memo !== undefined ? memo : await askProvider(provider, settings, query);
+      if (!r || !isAcceptable(stage, r)) continue;
+      if (r.confidence < settings.minConfidence) {
+        console.warn(`[GEOCODER] ${provider.id} LOW CONFIDENCE ${r.confidence.toFixed(2)} < ${settings.minConfidence} for "${query.address}"`);
+        rejected.push({ ...r, provider: provider.id });
+        continue;
+      }
+      console.log(`[GEOCODER] ${provider.id} SUCCESS (simp=${query.simplification}): "${query.address}"`);
+      return { result: { ...r, provider: provider.id }, failed, rejected };
+    } catch (err: any) {
+      if (err?.message === 'QUOTA_EXCEEDED') throw err;
+      failed.push(provider.id);
+      console.warn(`[GEOCODER] ${provider.id} failed for "${query.address}":`, err?.message || err);
+    }
+  }
+  return { result: null, failed, rejected };
+};
+
+export const runGeocoderChain = async (stage: GeocoderStage, query: GeocodeQuery): Promise<GeocodeResult | null> =>
+  (await runGeocoderChainDetailed(stage, query)).result;
+
+/*
+  Consensus mode: every enabled provider of both stages answers the full query on its
+  own (in parallel, each through its own bucket) so the caller can compare their CPs
+  instead of keeping the first answer. Answers the chain already got in this run, and
+  the `known` ones (e.g. read back from the geo cache), are reused instead of asked
+  again. Results under a provider's minimum confidence are dropped; failures only
+  remove that provider from the comparison.
+*/
+export const runGeocoderConsensus = async (query: GeocodeQuery, known: GeocodeResult[] = []): Promise<GeocodeResult[]> => {
+  const entries = [...getGeocoderChain('postal'), ...getGeocoderChain('point')];
+  const settled = await Promise.allSettled(entries.map(async ({ provider, settings }) => {
+    const reused = known.find(k => k.provider === provider.id);
+    if (reused) return reused;
+    const memo = recallAnswer(provider.id, query);
+    if (memo === undefined && !isProviderAvailable(provider.id, settings)) return null;
+    const r = memo !== undefined ? memo : await askProvider(provider, settings, query);
+    if (!r || !isAcceptable(provider.stage, r) || r.confidence < settings.minConfidence) return null;
+    return { ...r, provider: provider.id };
+  }));
+  const results: GeocodeResult[] = [];
+  settled.forEach((s, i) => {
+    if (s.status === 'fulfilled') {
+      if (s.value) results.push(s.value);
+    } else {
+      if (s.reason?.message === 'QUOTA_EXCEEDED') throw s.reason;
+      console.warn(`[GEOCODER] ${entries[i].provider.id} failed in consensus for "${query.address}":`, s.reason?.message || s.reason);
+    }
+  });
+  return results;
+};
+
+export const getGeocoderConsensusDefault = (): boolean => String(env().VITE_GEOCODER_CONSENSUS ?? '').trim() === '1';
+
+/*
+  =============================================================================
+  BUILT-IN PROVIDERS
+  =============================================================================
+*/
+
+const getGoogleMapsKey = (): string => {
+  const key = String(env().VITE_GOOGLE_MAPS_API_KEY || '');
+  const enabled = env().VITE_ENABLE_GOOGLE === '1';
+  return enabled && key && key !== 'demo_key_for_testing' ? key : '';
+};
+
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+// VITE_GEMINI_MODEL, shared by the Gemini geocoder and the address normalizer
+export const getGeminiModel = (): string => String(env().VITE_GEMINI_MODEL ?? '').trim() || DEFAULT_GEMINI_MODEL;
+
+// Initialize GenAI lazily to avoid browser error when API key is missing
+export const getGenAI = (): GoogleGenAI | null => {
+  const key = env().VITE_GEMINI_API_KEY as string;
+  const enabled = (env().VITE_ENABLE_GEMINI === '1');
+  if (!enabled) return null;
+  if (!key || key === 'demo_key_for_testing') return null;
+  try {
+    return new GoogleGenAI({ apiKey: key });
+  } catch {
+    return null;
+  }
+};
+
+const extractJSON = (text: string): any => {
+  try {
+    // First try standard parse
+    return JSON.parse(text);
+  } catch (e) {
+    // Try finding the first '{' and last '}'
+    const first = text.indexOf('{');
+    const last = text.lastIndexOf('}');
+    if (first !== -1 && last !== -1) {
+      try {
+        return JSON.parse(text.substring(first, last + 1));
+      } catch (e2) {
+        return null;
+      }
+    }
+    return null;
+  }
+};
+
+// Base confidence per validationGranularity; locality-level answers come back as OTHER
+const GOOGLE_GRANULARITY_CONFIDENCE: Record<string, number> = {
+  SUB_PREMISE: 1,
+  PREMISE: 0.95,
+  PREMISE_PROXIMITY: 0.8,
+  BLOCK: 0.7,
+  ROUTE: 0.55,
+  OTHER: 0.2
+};
+
+/*
+  Confidence of an Address Validation answer from its verdict: the granularity sets the
+  base, an incomplete address or unconfirmed / inferred components lower it. With the
+  provider's default minimum (0.6) route- and locality-level CPs are not accepted and the
+  row goes on to the point geocoders and polygon matching.
+*/
+export const scoreAddressValidationVerdict = (verdict: any): { confidence: number, verdict: AddressValidationVerdict } => {
+  const granularidad = String(verdict?.validationGranularity || 'OTHER');
+  const completa = verdict?.addressComplete === true;
+  const componentesSinConfirmar = verdict?.hasUnconfirmedComponents === true;
+  const componentesInferidos = verdict?.hasInferredComponents === true;
+  let confidence = GOOGLE_GRANULARITY_CONFIDENCE[granularidad] ?? GOOGLE_GRANULARITY_CONFIDENCE.OTHER;
+  if (!completa) confidence -= 0.1;
+  if (componentesSinConfirmar) confidence -= 0.15;
+  if (componentesInferidos) confidence -= 0.05;
+  confidence = Math.max(0, Math.min(1, +confidence.toFixed(2)));
+  const nivel: VerdictLevel = confidence >= 0.85 ? 'ALTA' : confidence >= 0.6 ? 'MEDIA' : 'BAJA';
+  return { confidence, verdict: { granularidad, completa, componentesSinConfirmar, componentesInferidos, nivel } };
+};
+
+// Google Address Validation API: official nomenclature, localidad and 6-digit CP, scored by its verdict
+const googleValidationProvider: GeocoderProvider = {
+  id: 'google_validation',
+  label: 'Google Address Validation',
+  stage: 'postal',
+  priority: 10,
+  defaultTimeoutMs: 10000,
+  defaultMinConfidence: 0.6,
+  defaultRatePerSec: 6,
+  defaultBurst: 3,
+  isAvailable: () => !!getGoogleMapsKey(),
+  geocode: async (q, signal) => {
+    const url = `https://addressvalidation.googleapis.com/v1:validateAddress?key=${getGoogleMapsKey()}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        address: {
+          addressLines: [q.address],
+          locality: q.city,
+          administrativeArea: q.department,
+          regionCode: 'CO'
+        }
+      }),
+      signal
+    });
+
+    if (!checkProviderResponse(response)) return null;
+    const data = await response.json();
+
+    const result = data.result;
+    if (!result || !result.address) return null;
+
+    // 1. Dirección Normalizada (Prioridad: completeAddress -> formattedAddress -> original)
+    // Se captura la nomenclatura oficial corregida por Google para auditoría
+    const formattedAddress = result.address.completeAddress ||
+                             result.address.postalAddress?.addressLines?.join(', ') ||
+                             q.address;
+
+    // 2. Localidad/Barrio con jerarquía de respaldo (fallback)
+    const components = result.address.addressComponents || [];
+    const byType = (...types: string[]) => components.find((c: any) => types.includes(c.componentType));
+    // Prioridad 1: sublocality o neighborhood; 2: locality; 3: administrative_area_level_2; 4: ciudad original
+    const locationName = byType('sublocality', 'sublocality_level_1')?.componentName?.text ||
+                         byType('neighborhood')?.componentName?.text ||
+                         byType('locality')?.componentName?.text ||
+                         byType('administrative_area_level_2')?.componentName?.text ||
+                         q.city;
+
+    // 3. Código Postal (postalCode de 6 dígitos)
+    let postalCode = byType('postal_code')?.componentName?.text || '';
+    if (!postalCode || postalCode.length !== 6) {
+      const postalCodeAlt = result.address.postalAddress?.postalCode || '';
+      if (postalCodeAlt && postalCodeAlt.length === 6) postalCode = postalCodeAlt;
+    }
+    if (!postalCode || postalCode.length !== 6) return null;
+
+    const location = result.geocode?.location;
+    const { confidence, verdict } = scoreAddressValidationVerdict(result.verdict);
+    return {
+      confidence,
+      verdict,
+      postalCode,
+      lat: typeof location?.latitude === 'number' ? location.latitude : undefined,
+      lon: typeof location?.longitude === 'number' ? location.longitude : undefined,
+      formattedAddress,
+      locationName
+    };
+  }
+};
+
+// Precision of a Google Geocoding result, from geometry.location_type
+const GOOGLE_LOCATION_TYPE_CONFIDENCE: Record<string, number> = {
+  ROOFTOP: 1,
+  RANGE_INTERPOLATED: 0.9,
+  GEOMETRIC_CENTER: 0.7,
+  APPROXIMATE: 0.5
+};
+
+// Google Geocoding API, with Places "find place" as a fallback for named places
+const googleMapsProvider: GeocoderProvider = {
+  id: 'google_maps',
+  label: 'Google Maps',
+  stage: 'point',
+  priority: 30,
+  defaultTimeoutMs: 10000,
+  defaultMinConfidence: 0,
+  defaultRatePerSec: 6,
+  defaultBurst: 3,
+  isAvailable: () => !!getGoogleMapsKey(),
+  geocode: async (q, signal) => {
+    const apiKey = getGoogleMapsKey();
+    const encoded = encodeURIComponent(buildGeocodeQueryText(q));
+    const compParts: string[] = ['country:CO'];
+    if (q.city && q.city.trim()) compParts.push(`locality:${encodeURIComponent(q.city.trim())}`);
+    if (q.department && q.department.trim()) compParts.push(`administrative_area:${encodeURIComponent(q.department.trim())}`);
+    const componentsParam = compParts.join('|');
+    const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encoded}&components=${componentsParam}&region=CO&key=${apiKey}`;
+    const res = await fetch(url, { signal });
+    if (!checkProviderResponse(res)) return null;
+    const data = await res.json();
+    if (data.status === 'OVER_QUERY_LIMIT') throw new Error(RATE_LIMITED);
+    if (data.status === 'OK' && data.results && data.results.length > 0) {
+      const first = data.results[0];
+      const loc = first?.geometry?.location;
+      if (loc && typeof loc.lat === 'number' && typeof loc.lng === 'number') {
+        const confidence = GOOGLE_LOCATION_TYPE_CONFIDENCE[first.geometry.location_type] ?? 0.5;
+        return { confidence, lat: loc.lat, lon: loc.lng, formattedAddress: first.formatted_address };
+      }
+    }
+    const url2 = `https://maps.googleapis.com/maps/api/place/findplacefromtext/json?input=${encoded}&inputtype=textquery&fields=geometry&region=CO&key=${apiKey}`;
+    const res2 = await fetch(url2, { signal });
+    if (!checkProviderResponse(res2)) return null;
+    const data2 = await res2.json();
+    const geom = data2.candidates && data2.candidates[0]?.geometry?.location;
+    if (geom && typeof geom.lat === 'number' && typeof geom.lng === 'number') {
+      return { confidence: 0.6, lat: geom.lat, lon: geom.lng };
+    }
+    return null;
+  }
+};
+
+// Gemini with Maps/Search grounding; last resort, its coordinates are not verifiable
+const geminiProvider: GeocoderProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  stage: 'point',
+  priority: 70,
+  defaultTimeoutMs: 20000,
+  defaultMinConfidence: 0,
+  defaultRatePerSec: 2.5,
+  defaultBurst: 1,
+  isAvailable: () => !!getGenAI(),
+  geocode: async (q, signal) => {
+    const genAI = getGenAI();
+    if (!genAI) return null;
+    let response;
+    try {
+      response = await genAI.models.generateContent({
+        model: getGeminiModel(),
+        contents: `You are a precise geocoding assistant. Find the EXACT latitude and longitude coordinates for the specific address in Colombia: "${buildGeocodeQueryText(q)}". Return ONLY JSON with keys lat and lon.`,
+        config: { tools: [{ googleMaps: {} }, { googleSearch: {} }], maxOutputTokens: 100, temperature: 0, abortSignal: signal }
+      });
+    } catch (err: any) {
+      if (/429|RESOURCE_EXHAUSTED/.test(String(err?.message || ''))) throw new Error(RATE_LIMITED);
+      throw err;
+    }
+    const text = response.text || "";
+    let result = extractJSON(text);
+    if (!result) {
+      const latRegex = /["']?(?:lat|latitude)["']?[:\s=]*([+-]?\d+(?:\.\d+)?)/i;
+      const lonRegex = /["']?(?:lon|lng|long|longitude)["']?[:\s=]*([+-]?\d+(?:\.\d+)?)/i;
+      const latMatch = text.match(latRegex);
+      const lonMatch = text.match(lonRegex);
+      if (latMatch && lonMatch) result = { lat: parseFloat(latMatch[1]), lon: parseFloat(lonMatch[1]) };
+    }
+    if (!result) return null;
+    return { confidence: 0.5, lat: Number(result.lat), lon: Number(result.lon) };
+  }
+};
+
+[googleValidationProvider, googleMapsProvider, geminiProvider].forEach(registerGeocoderProvider);
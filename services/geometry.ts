@@ -0,0 +1,448 @@
+import { PostalZone } from '../types';
+
+/*
+  =============================================================================
+  GEOMETRY LOGIC
+  =============================================================================
+  Pure helpers over GeoJSON Polygon/MultiPolygon coordinates ([lon, lat]).
+  No DB or network access so they can also run inside workers.
+*/
+
+export type Position = [number, number];
+export type PointLocation = 'inside' | 'boundary' | 'outside';
+
+const METERS_PER_DEGREE_LAT = 110574;
+const METERS_PER_DEGREE_LON_EQUATOR = 111320;
+
+// Approximate degree deltas for a distance in meters at a given latitude
+export const metersToDegrees = (lat: number, meters: number): { dLat: number, dLon: number } => {
+    const cosLat = Math.max(0.01, Math.cos(lat * Math.PI / 180));
+    return {
+        dLat: meters / METERS_PER_DEGREE_LAT,
+        dLon: meters / (METERS_PER_DEGREE_LON_EQUATOR * cosLat)
+    };
+};
+
+// Great-circle (haversine) distance between two points in meters
+export const distanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const toRad = Math.PI / 180;
+    const dLat = (lat2 - lat1) * toRad;
+    const dLon = (lon2 - lon1) * toRad;
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLon / 2) ** 2;
+    return 2 * 6371008.8 * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Polygons of a geometry as arrays of rings (outer ring first, then holes)
+export const getPolygons = (geometry: any): Position[][][] => {
+    if (!geometry || !Array.isArray(geometry.coordinates)) return [];
+    if (geometry.type === 'Polygon') return [geometry.coordinates];
+    if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+    return [];
+};
+
+// Calculate Bounding Box [minLon, minLat, maxLon, maxLat]
+export const calculateBBox = (geometry: any): [number, number, number, number] => {
+    let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity;
+
+    const updateBounds = (coords: any[]) => {
+        for (const [lon, lat] of coords) {
+            if (lon < minLon) minLon = lon;
+            if (lon > maxLon) maxLon = lon;
+            if (lat < minLat) minLat = lat;
+            if (lat > maxLat) maxLat = lat;
+        }
+    };
+
+    for (const polygon of getPolygons(geometry)) {
+        if (polygon[0]) updateBounds(polygon[0]);
+    }
+
+    if (minLon === Infinity) return [0,0,0,0];
+    return [minLon, minLat, maxLon, maxLat];
+};
+
+export const pointInRing = (point: Position, vs: Position[]): boolean => {
+    const x = point[0], y = point[1];
+    let inside = false;
+    for (let i = 0, j = vs.length - 1; i < vs.length; j = i++) {
+        const xi = vs[i][0], yi = vs[i][1];
+        const xj = vs[j][0], yj = vs[j][1];
+        const intersect = ((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi);
+        if (intersect) inside = !inside;
+    }
+    return inside;
+};
+
+// Inside the outer ring and not inside any hole
+export const pointInPolygonWithHoles = (point: Position, rings: Position[][]): boolean => {
+    if (!rings[0] || !pointInRing(point, rings[0])) return false;
+    for (let h = 1; h < rings.length; h++) {
+        if (pointInRing(point, rings[h])) return false;
+    }
+    return true;
+};
+
+// Minimum distance in meters from a point to the edges of a ring (local equirectangular projection)
+export const distanceToRingMeters = (lon: number, lat: number, ring: Position[]): number => {
+    const kx = METERS_PER_DEGREE_LON_EQUATOR * Math.cos(lat * Math.PI / 180);
+    const ky = METERS_PER_DEGREE_LAT;
+    let best = Infinity;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const ax = (ring[j][0] - lon) * kx, ay = (ring[j][1] - lat) * ky;
+        const bx = (ring[i][0] - lon) * kx, by = (ring[i][1] - lat) * ky;
+        const dx = bx - ax, dy = by - ay;
+        const len2 = dx * dx + dy * dy;
+        let t = len2 > 0 ? -(ax * dx + ay * dy) / len2 : 0;
+        t = Math.max(0, Math.min(1, t));
+        const px = ax + t * dx, py = ay + t * dy;
+        const d = px * px + py * py;
+        if (d < best) best = d;
+    }
+    return Math.sqrt(best);
+};
+
+// Distance in meters from a point to the nearest edge (outer ring or hole) of a geometry
+export const distanceToGeometryEdgeMeters = (lon: number, lat: number, geometry: any): number => {
+    let best = Infinity;
+    for (const polygon of getPolygons(geometry)) {
+        for (const ring of polygon) {
+            if (!ring || ring.length < 2) continue;
+            const d = distanceToRingMeters(lon, lat, ring);
+            if (d < best) best = d;
+        }
+    }
+    return best;
+};
+
+/*
+  Full GeoJSON containment: every part of a MultiPolygon is tested and holes are
+  excluded. Points within `toleranceM` meters of any ring edge are reported as
+  'boundary' regardless of the side they fall on.
+*/
+export const locatePointInGeometry = (lon: number, lat: number, geometry: any, toleranceM: number = 0): PointLocation => {
+    const polygons = getPolygons(geometry);
+    if (polygons.length === 0) return 'outside';
+    if (toleranceM > 0 && distanceToGeometryEdgeMeters(lon, lat, geometry) <= toleranceM) return 'boundary';
+    const pt: Position = [lon, lat];
+    for (const rings of polygons) {
+        if (pointInPolygonWithHoles(pt, rings)) return 'inside';
+    }
+    return 'outside';
+};
+
+const isInsideBBox = (lon: number, lat: number, bbox: [number, number, number, number], toleranceM: number): boolean => {
+    const { dLat, dLon } = toleranceM > 0 ? metersToDegrees(lat, toleranceM) : { dLat: 0, dLon: 0 };
+    const [minLon, minLat, maxLon, maxLat] = bbox;
+    return lon >= minLon - dLon && lon <= maxLon + dLon && lat >= minLat - dLat && lat <= maxLat + dLat;
+};
+
+export const isPointInFeature = (lon: number, lat: number, zone: PostalZone, toleranceM: number = 0): boolean => {
+    if (zone.bbox && !isInsideBBox(lon, lat, zone.bbox, toleranceM)) return false;
+    if (!zone.geometry || !zone.geometry.coordinates) return false;
+    return locatePointInGeometry(lon, lat, zone.geometry, toleranceM) !== 'outside';
+};
+
+/*
+  Deterministic zone selection for a point:
+  1. Zones that strictly contain the point (farther than the tolerance from their edges) win.
+  2. Otherwise, zones whose boundary band holds the point (shared edges, enclave rims) compete.
+  Ties inside a group go to the lowest codigo_postal, then the lowest id, so the same point
+  always gets the same CP regardless of candidate order.
+*/
+const byPostalCodeThenId = (a: PostalZone, b: PostalZone): number =>
+    String(a.codigo_postal).localeCompare(String(b.codigo_postal)) || String(a.id).localeCompare(String(b.id));
+
+export const pickZoneAtPoint = (lon: number, lat: number, candidates: PostalZone[], toleranceM: number = 0): PostalZone | undefined => {
+    const inside: PostalZone[] = [];
+    const onBoundary: PostalZone[] = [];
+    for (const zone of candidates) {
+        if (zone.bbox && !isInsideBBox(lon, lat, zone.bbox, toleranceM)) continue;
+        const where = locatePointInGeometry(lon, lat, zone.geometry, toleranceM);
+        if (where === 'inside') inside.push(zone);
+        else if (where === 'boundary') onBoundary.push(zone);
+    }
+    const group = inside.length > 0 ? inside : onBoundary;
+    if (group.length === 0) return undefined;
+    return group.length === 1 ? group[0] : [...group].sort(byPostalCodeThenId)[0];
+};
+
+/*
+  Nearest zone to a point that lies outside every candidate, measured to the zone edge.
+  Zones farther than `maxDistanceM` are ignored; ties go to the lowest codigo_postal/id.
+*/
+export const findNearestZone = (
+    lon: number,
+    lat: number,
+    candidates: PostalZone[],
+    maxDistanceM: number = Infinity
+): { zone: PostalZone, distanceM: number } | null => {
+    let best: { zone: PostalZone, distanceM: number } | null = null;
+    for (const zone of candidates) {
+        if (!zone.geometry) continue;
+        const where = locatePointInGeometry(lon, lat, zone.geometry);
+        const d = where === 'inside' ? 0 : distanceToGeometryEdgeMeters(lon, lat, zone.geometry);
+        if (d > maxDistanceM) continue;
+        if (!best || d < best.distanceM || (d === best.distanceM && byPostalCodeThenId(zone, best.zone) < 0)) {
+            best = { zone, distanceM: d };
+        }
+    }
+    return best;
+};
+
+/*
+  Whether two zones border each other: some vertex of one lies within `toleranceM` of the
+  other's edges. Only vertices inside the other zone's (grown) bbox are tested, all of
+  them: a short shared edge may be just a couple of vertices on a detailed ring.
+*/
+export const zonesShareBorder = (a: PostalZone, b: PostalZone, toleranceM: number): boolean => {
+    const touches = (from: PostalZone, to: PostalZone): boolean => {
+        for (const polygon of getPolygons(from.geometry)) {
+            for (const ring of polygon) {
+                for (const v of ring || []) {
+                    if (to.bbox && !isInsideBBox(v[0], v[1], to.bbox, toleranceM)) continue;
+                    if (distanceToGeometryEdgeMeters(v[0], v[1], to.geometry) <= toleranceM) return true;
+                }
+            }
+        }
+        return false;
+    };
+    if (!a.geometry || !b.geometry) return false;
+    return touches(a, b) || touches(b, a);
+};
+
+// Signed planar area and area-weighted centroid of one ring (degrees, relative to its first vertex for precision)
+const ringAreaAndCentroid = (ring: Position[]): { area: number, cx: number, cy: number } => {
+    if (!ring || ring.length < 3) return { area: 0, cx: 0, cy: 0 };
+    const ox = ring[0][0], oy = ring[0][1];
+    let a2 = 0, sx = 0, sy = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const xj = ring[j][0] - ox, yj = ring[j][1] - oy;
+        const xi = ring[i][0] - ox, yi = ring[i][1] - oy;
+        const cross = xj * yi - xi * yj;
+        a2 += cross;
+        sx += (xj + xi) * cross;
+        sy += (yj + yi) * cross;
+    }
+    if (a2 === 0) return { area: 0, cx: ox, cy: oy };
+    return { area: a2 / 2, cx: ox + sx / (3 * a2), cy: oy + sy / (3 * a2) };
+};
+
+export const polygonArea = (rings: Position[][]): number => {
+    let area = 0;
+    rings.forEach((ring, idx) => {
+        const a = Math.abs(ringAreaAndCentroid(ring).area);
+        area += idx === 0 ? a : -a;
+    });
+    return Math.max(0, area);
+};
+
+const DEFAULT_CENTER = { lat: 4.5709, lon: -74.2973 };
+
+// Area-weighted centroid over every part of the geometry, with holes subtracted
+export const calculateCentroid = (geometry: any): { lat: number, lon: number } => {
+    let totalArea = 0, sumLon = 0, sumLat = 0;
+    let vertexCount = 0, sumVLon = 0, sumVLat = 0;
+    for (const rings of getPolygons(geometry)) {
+        rings.forEach((ring, idx) => {
+            const { area, cx, cy } = ringAreaAndCentroid(ring);
+            const weight = idx === 0 ? Math.abs(area) : -Math.abs(area);
+            totalArea += weight;
+            sumLon += cx * weight;
+            sumLat += cy * weight;
+            if (idx === 0) ring.forEach(p => { sumVLon += p[0]; sumVLat += p[1]; vertexCount++; });
+        });
+    }
+    if (totalArea > 0) return { lat: sumLat / totalArea, lon: sumLon / totalArea };
+    // Degenerate geometry (zero area): fall back to the vertex average
+    if (vertexCount > 0) return { lat: sumVLat / vertexCount, lon: sumVLon / vertexCount };
+    return DEFAULT_CENTER;
+};
+
+/*
+  Pole of inaccessibility ("polylabel"): the interior point farthest from any edge,
+  searched on a quadtree of cells over the largest part. Unlike the centroid it is
+  always inside the polygon, even for C-shaped zones or zones with holes.
+*/
+interface LabelCell { x: number, y: number, h: number, d: number, max: number }
+
+const pushCell = (heap: LabelCell[], cell: LabelCell) => {
+    heap.push(cell);
+    let i = heap.length - 1;
+    while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent].max >= heap[i].max) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+    }
+};
+
+const popCell = (heap: LabelCell[]): LabelCell | undefined => {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+        heap[0] = last;
+        let i = 0;
+        for (;;) {
+            const l = 2 * i + 1, r = l + 1;
+            let m = i;
+            if (l < heap.length && heap[l].max > heap[m].max) m = l;
+            if (r < heap.length && heap[r].max > heap[m].max) m = r;
+            if (m === i) break;
+            [heap[m], heap[i]] = [heap[i], heap[m]];
+            i = m;
+        }
+    }
+    return top;
+};
+
+export const calculateLabelPoint = (geometry: any, precisionM: number = 1): { lat: number, lon: number } => {
+    const polygons = getPolygons(geometry).filter(rings => rings[0] && rings[0].length >= 4);
+    if (polygons.length === 0) return calculateCentroid(geometry);
+    const rings = polygons.reduce((best, cur) => polygonArea(cur) > polygonArea(best) ? cur : best, polygons[0]);
+
+    // Work in a local plane where x is scaled by cos(lat) so cells are roughly square on the ground
+    const [minLon, minLat, maxLon, maxLat] = calculateBBox({ type: 'Polygon', coordinates: rings });
+    const kx = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+    const plane: Position[][] = rings.map(ring => ring.map(p => [p[0] * kx, p[1]] as Position));
+    const minX = minLon * kx, maxX = maxLon * kx;
+    const width = maxX - minX, height = maxLat - minLat;
+    const cellSize = Math.min(width, height);
+    if (cellSize <= 0) return calculateCentroid(geometry);
+
+    const signedDist = (x: number, y: number): number => {
+        const inside = pointInPolygonWithHoles([x, y], plane);
+        let best = Infinity;
+        for (const ring of plane) {
+            for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+                const ax = ring[j][0], ay = ring[j][1];
+                let dx = ring[i][0] - ax, dy = ring[i][1] - ay;
+                let px = ax, py = ay;
+                if (dx !== 0 || dy !== 0) {
+                    const t = Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / (dx * dx + dy * dy)));
+                    px = ax + dx * t; py = ay + dy * t;
+                }
+                dx = x - px; dy = y - py;
+                const d = dx * dx + dy * dy;
+                if (d < best) best = d;
+            }
+        }
+        return (inside ? 1 : -1) * Math.sqrt(best);
+    };
+    const makeCell = (x: number, y: number, h: number): LabelCell => {
+        const d = signedDist(x, y);
+        return { x, y, h, d, max: d + h * Math.SQRT2 };
+    };
+
+    const precision = precisionM / METERS_PER_DEGREE_LAT;
+    const heap: LabelCell[] = [];
+    let h = cellSize / 2;
+    for (let x = minX; x < maxX; x += cellSize) {
+        for (let y = minLat; y < maxLat; y += cellSize) pushCell(heap, makeCell(x + h, y + h, h));
+    }
+    const c = calculateCentroid({ type: 'Polygon', coordinates: rings });
+    let best = makeCell(c.lon * kx, c.lat, 0);
+    const bboxCell = makeCell(minX + width / 2, minLat + height / 2, 0);
+    if (bboxCell.d > best.d) best = bboxCell;
+
+    let cell: LabelCell | undefined;
+    let iterations = 0;
+    while ((cell = popCell(heap)) && iterations++ < 10000) {
+        if (cell.d > best.d) best = cell;
+        if (cell.max - best.d <= precision) continue;
+        h = cell.h / 2;
+        pushCell(heap, makeCell(cell.x - h, cell.y - h, h));
+        pushCell(heap, makeCell(cell.x + h, cell.y - h, h));
+        pushCell(heap, makeCell(cell.x - h, cell.y + h, h));
+        pushCell(heap, makeCell(cell.x + h, cell.y + h, h));
+    }
+    if (best.d <= 0) return c;
+    return { lat: best.y, lon: best.x / kx };
+};
+
+/*
+  =============================================================================
+  LEVEL OF DETAIL (DISPLAY ONLY)
+  =============================================================================
+  Douglas-Peucker simplified copies of a zone for map rendering at low zooms.
+  Point-in-polygon must always use the full geometry, never these.
+*/
+
+// Coarsest level last. A level is used while the map zoom is >= minZoom; above the first level the full geometry is drawn.
+export const ZONE_LOD_LEVELS: { toleranceM: number, minZoom: number }[] = [
+    { toleranceM: 10, minZoom: 12 },
+    { toleranceM: 50, minZoom: 10 },
+    { toleranceM: 200, minZoom: 0 }
+];
+const FULL_DETAIL_MIN_ZOOM = 15;
+
+// Index into ZONE_LOD_LEVELS for a Leaflet zoom, or -1 for the full-precision geometry
+export const getLodLevelForZoom = (zoom: number): number => {
+    if (zoom >= FULL_DETAIL_MIN_ZOOM) return -1;
+    const idx = ZONE_LOD_LEVELS.findIndex(l => zoom >= l.minZoom);
+    return idx === -1 ? ZONE_LOD_LEVELS.length - 1 : idx;
+};
+
+// Iterative Douglas-Peucker over a closed ring, in a local metric plane
+const simplifyRing = (ring: Position[], toleranceM: number): Position[] => {
+    const n = ring.length;
+    if (n <= 4) return ring;
+    const kx = METERS_PER_DEGREE_LON_EQUATOR * Math.cos(ring[0][1] * Math.PI / 180);
+    const ky = METERS_PER_DEGREE_LAT;
+    const tol2 = toleranceM * toleranceM;
+    const keep = new Uint8Array(n);
+    keep[0] = 1;
+    keep[n - 1] = 1;
+    const stack: [number, number][] = [[0, n - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        const ax = ring[first][0] * kx, ay = ring[first][1] * ky;
+        const dx = ring[last][0] * kx - ax, dy = ring[last][1] * ky - ay;
+        const len2 = dx * dx + dy * dy;
+        let maxD = -1, index = -1;
+        for (let i = first + 1; i < last; i++) {
+            const px = ring[i][0] * kx - ax, py = ring[i][1] * ky - ay;
+            let d: number;
+            if (len2 === 0) {
+                d = px * px + py * py; // first == last (closed ring): distance to the shared endpoint
+            } else {
+                const t = Math.max(0, Math.min(1, (px * dx + py * dy) / len2));
+                const ex = px - t * dx, ey = py - t * dy;
+                d = ex * ex + ey * ey;
+            }
+            if (d > maxD) { maxD = d; index = i; }
+        }
+        if (index !== -1 && maxD > tol2) {
+            keep[index] = 1;
+            stack.push([first, index], [index, last]);
+        }
+    }
+    const out: Position[] = [];
+    for (let i = 0; i < n; i++) if (keep[i]) out.push(ring[i]);
+    return out;
+};
+
+// Simplified copy of a Polygon/MultiPolygon. Collapsed holes are dropped; a collapsed outer ring keeps a triangle so small zones stay visible.
+export const simplifyGeometry = (geometry: any, toleranceM: number): any => {
+    const polygons = getPolygons(geometry).map(rings => {
+        const out: Position[][] = [];
+        rings.forEach((ring, idx) => {
+            if (!ring || ring.length < 4) return;
+            let s = simplifyRing(ring, toleranceM);
+            if (s.length < 4) {
+                if (idx > 0) return;
+                const n = ring.length - 1;
+                s = [ring[0], ring[Math.floor(n / 3)], ring[Math.floor((2 * n) / 3)], ring[0]];
+            }
+            out.push(s);
+        });
+        return out;
+    }).filter(rings => rings.length > 0);
+    if (polygons.length === 0) return geometry;
+    return geometry.type === 'MultiPolygon'
+        ? { type: 'MultiPolygon', coordinates: polygons }
+        : { type: 'Polygon', coordinates: polygons[0] };
+};
+
+// One simplified geometry per ZONE_LOD_LEVELS entry
+export const buildGeometryLods = (geometry: any): any[] =>
+    ZONE_LOD_LEVELS.map(level => simplifyGeometry(geometry, level.toleranceM));
@@ -0,0 +1,155 @@
+import { spawn, ChildProcess } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runGeocoderChainDetailed } from './geocoders';
+import { lookupOfficial472, lookupOfficial472Batch, parseOfficial472Record, prefetchOfficial472 } from './official472';
+import { RATE_LIMITED, resetRateLimiter } from './rateLimiter';
+
+/*
+  Contract tests for the 4-72 client against scripts/mock-geocoder.mjs: what counts as
+  "found", "not found" and a service error, and how many requests each case costs.
+*/
+
+interface MockServer {
+  base: string;
+  requests: string[]; // "200 /472/lookup", one per request the mock answered
+  stop: () => void;
+}
+
+let nextPort = 18472;
+
+const startMock = (extraEnv: Record<string, string> = {}): Promise<MockServer> => new Promise((resolve, reject) => {
+  const port = nextPort++;
+  const child: ChildProcess = spawn(process.execPath, [fileURLToPath(new URL('../scripts/mock-geocoder.mjs', import.meta.url)), String(port)], {
+    env: { ...process.env, ...extraEnv },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  const requests: string[] = [];
+  let ready = false;
+  child.stdout!.setEncoding('utf8');
+  child.stdout!.on('data', (chunk: string) => {
+    for (const line of chunk.split('\n').filter(Boolean)) {
+      if (/^\d{3} /.test(line)) requests.push(line.replace(/\?.*$/, ''));
+      if (!ready && line.startsWith('Mock geocoder on')) {
+        ready = true;
+        resolve({ base: `http://localhost:${port}/472`, requests, stop: () => child.kill() });
+      }
+    }
+  });
+  child.on('exit', code => { if (!ready) reject(new Error(`mock-geocoder exited with ${code}`)); });
+});
+
+afterEach(() => vi.unstubAllEnvs());
+
+const query = (address: string, city = 'Medellín', department = 'Antioquia') => ({ address, city, department });
+
+describe('parseOfficial472Record', () => {
+  it('reads a found record with its optional fields', () => {
+    expect(parseOfficial472Record({ status: 'found', postalCode: '050021', lat: 6.2, lon: -75.5, locality: 'El Poblado' }))
+      .toEqual({ status: 'found', postalCode: '050021', lat: 6.2, lon: -75.5, locality: 'El Poblado' });
+    expect(parseOfficial472Record({ status: 'found', postalCode: '110111' })).toEqual({ status: 'found', postalCode: '110111' });
+  });
+
+  it('reads not_found', () => {
+    expect(parseOfficial472Record({ status: 'not_found' })).toEqual({ status: 'not_found' });
+  });
+
+  it.each([
+    ['a non-object', 'x'],
+    ['an unknown status', { status: 'ok', postalCode: '110111' }],
+    ['a numeric postal code', { status: 'found', postalCode: 110111 }],
+    ['a 5-digit postal code', { status: 'found', postalCode: '11011' }],
+    ['lat without lon', { status: 'found', postalCode: '110111', lat: 4.6 }],
+    ['out-of-range coordinates', { status: 'found', postalCode: '110111', lat: 95, lon: -74 }],
+    ['a non-text locality', { status: 'found', postalCode: '110111', locality: 7 }]
+  ])('rejects %s as a contract error', (_, record) => {
+    expect(() => parseOfficial472Record(record)).toThrow(/Respuesta inválida de la API 4-72/);
+  });
+});
+
+describe('4-72 client against the mock', () => {
+  let mock: MockServer;
+
+  beforeAll(async () => { mock = await startMock(); });
+  afterAll(() => mock?.stop());
+
+  beforeEach(() => {
+    mock.requests.length = 0;
+    resetRateLimiter();
+    vi.stubEnv('VITE_USE_472_API', '1');
+    vi.stubEnv('VITE_472_API_URL', `${mock.base}/lookup`);
+    vi.stubEnv('VITE_472_API_BATCH_URL', `${mock.base}/batch`);
+    vi.stubEnv('VITE_472_API_KEY', '');
+    vi.stubEnv('VITE_472_API_RETRIES', '2');
+    vi.stubEnv('VITE_472_API_BATCH_SIZE', '50');
+    vi.stubEnv('VITE_GEOCODER_CHAIN', 'official_472');
+  });
+
+  it('returns the CP and point of a found address', async () => {
+    const answer = await lookupOfficial472(query('Calle 10 # 5-20'));
+    expect(answer).toMatchObject({ status: 'found', postalCode: '050021', locality: 'El Poblado' });
+    expect(mock.requests).toEqual(['200 /472/lookup']);
+  });
+
+  it('maps status not_found and HTTP 404 to not_found', async () => {
+    expect(await lookupOfficial472(query('NOEXISTE 1'))).toEqual({ status: 'not_found' });
+    vi.stubEnv('VITE_472_API_URL', `${mock.base}/unknown`);
+    expect(await lookupOfficial472(query('Calle 10 # 5-20'))).toEqual({ status: 'not_found' });
+    expect(mock.requests).toEqual(['200 /472/lookup', '404 /472/unknown']);
+  });
+
+  it('throws a contract error for an invalid record without retrying', async () => {
+    await expect(lookupOfficial472(query('INVALIDO 1'))).rejects.toThrow(/Respuesta inválida de la API 4-72/);
+    expect(mock.requests).toEqual(['200 /472/lookup']);
+  });
+
+  it('retries 5xx VITE_472_API_RETRIES times, then throws', async () => {
+    await expect(lookupOfficial472(query('ERROR500 1'))).rejects.toThrow('HTTP 500');
+    expect(mock.requests).toEqual(['500 /472/lookup', '500 /472/lookup', '500 /472/lookup']);
+  });
+
+  it('answers a batch by item id', async () => {
+    const answers = await lookupOfficial472Batch([query('Calle 10 # 5-20'), query('NOEXISTE'), query('Carrera 7 # 8-9', 'Cali', 'Valle del Cauca')]);
+    expect(answers.get(0)).toMatchObject({ status: 'found', postalCode: '050021' });
+    expect(answers.get(1)).toEqual({ status: 'not_found' });
+    expect(answers.get(2)).toMatchObject({ status: 'found', postalCode: '760042' });
+    expect(mock.requests).toEqual(['200 /472/batch']);
+  });
+
+  it('rejects a batch with an invalid record and retries a failing one', async () => {
+    await expect(lookupOfficial472Batch([query('Calle 10 # 5-20'), query('INVALIDO')])).rejects.toThrow(/Respuesta inválida/);
+    await expect(lookupOfficial472Batch([query('ERROR500')])).rejects.toThrow('HTTP 500');
+    expect(mock.requests).toEqual(['200 /472/batch', '500 /472/batch', '500 /472/batch', '500 /472/batch']);
+  });
+
+  it('tells "not found" apart from a service error in the postal chain', async () => {
+    const q = (address: string) => ({ ...query(address), street: address, simplification: 0 });
+    const found = await runGeocoderChainDetailed('postal', q('Calle 10 # 5-20'));
+    expect(found.result).toMatchObject({ provider: 'official_472', postalCode: '050021' });
+    expect(await runGeocoderChainDetailed('postal', q('NOEXISTE 2'))).toEqual({ result: null, failed: [], rejected: [] });
+    expect(await runGeocoderChainDetailed('postal', q('INVALIDO 2'))).toEqual({ result: null, failed: ['official_472'], rejected: [] });
+  });
+
+  it('answers the provider from a prefetched batch', async () => {
+    vi.stubEnv('VITE_472_API_BATCH_SIZE', '2');
+    const queries = [query('Calle 1 # 2-3'), query('Calle 4 # 5-6'), query('NOEXISTE 3')];
+    expect(await prefetchOfficial472(queries)).toBe(3);
+    const hit = await runGeocoderChainDetailed('postal', { ...queries[1], street: queries[1].address, simplification: 0 });
+    expect(hit.result).toMatchObject({ postalCode: '050021' });
+    expect(mock.requests).toEqual(['200 /472/batch', '200 /472/batch']);
+  });
+});
+
+describe('4-72 client under rate limiting', () => {
+  let mock: MockServer;
+
+  beforeAll(async () => { mock = await startMock({ MOCK_GEOCODER_429_EVERY: '1' }); });
+  afterAll(() => mock?.stop());
+
+  it('throws RATE_LIMITED on 429 and leaves the backoff to the rate limiter', async () => {
+    vi.stubEnv('VITE_472_API_URL', `${mock.base}/lookup`);
+    vi.stubEnv('VITE_472_API_RETRIES', '2');
+    await expect(lookupOfficial472(query('Calle 10 # 5-20'))).rejects.toThrow(RATE_LIMITED);
+    expect(mock.requests).toEqual(['429 /472/lookup']);
+  });
+});
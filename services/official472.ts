@@ -0,0 +1,212 @@
+import { GeocodeQuery, GeocodeResult, GeocoderProvider, getGeocoderChain, getGeocoderProvider, getGeocoderSettings, registerGeocoderProvider, withProviderLimits } from './geocoders';
+import { isProviderAvailable, RATE_LIMITED } from './rateLimiter';
+
+/*
+  =============================================================================
+  OFFICIAL 4-72 API CLIENT
+  =============================================================================
+  'postal' provider for the 4-72 postal code service.
+    VITE_USE_472_API=1
+    VITE_472_API_URL=https://.../lookup         (one address per request)
+    VITE_472_API_BATCH_URL=https://.../batch    (optional, many addresses per request)
+    VITE_472_API_KEY=...                        (Bearer token, optional)
+    VITE_472_API_BATCH_SIZE=50
+    VITE_472_API_RETRIES=2                      (network errors and 5xx)
+
+  Contract:
+    POST lookup  { address, city, department }
+      200 { status: 'found', postalCode: '110111', lat?, lon?, formattedAddress?, locality? }
+      200 { status: 'not_found' }  |  404
+    POST batch   { items: [{ id, address, city, department }] }
+      200 { results: [{ id, status, postalCode?, ... }] }   (same record shape)
+  Anything else is a service error: it is thrown (so the chain moves on and the
+  472 cache does not store it) instead of being read as "no postal code".
+  scripts/mock-geocoder.mjs serves both endpoints under /472.
+*/
+
+export type Official472Answer =
+  | { status: 'found', postalCode: string, lat?: number, lon?: number, formattedAddress?: string, locality?: string }
+  | { status: 'not_found' };
+
+const PROVIDER_ID = 'official_472';
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+const env = (): any => import.meta.env;
+
+const normalizeStr = (str: string) => str ? str.toString().normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim() : "";
+
+const getLookupUrl = (): string => String(env().VITE_472_API_URL || '').trim();
+const getBatchUrl = (): string => String(env().VITE_472_API_BATCH_URL || '').trim();
+
+const readEnvInt = (key: string, fallback: number): number => {
+  const raw = parseInt(String(env()[key] ?? ''), 10);
+  return !isNaN(raw) && raw >= 0 ? raw : fallback;
+};
+
+const buildHeaders = (): Record<string, string> => {
+  const key = String(env().VITE_472_API_KEY || '').trim();
+  return { 'Content-Type': 'application/json', ...(key ? { 'Authorization': `Bearer ${key}` } : {}) };
+};
+
+const invalid = (detail: string) => new Error(`Respuesta inválida de la API 4-72: ${detail}`);
+
+const isOptionalString = (v: any) => v === undefined || v === null || typeof v === 'string';
+
+// Validates one record of the contract; a record that does not match it is a service error
+export const parseOfficial472Record = (data: any): Official472Answer => {
+  if (!data || typeof data !== 'object') throw invalid('el registro no es un objeto');
+  if (data.status === 'not_found') return { status: 'not_found' };
+  if (data.status !== 'found') throw invalid(`estado desconocido "${data.status}"`);
+  if (typeof data.postalCode !== 'string' || !/^\d{6}$/.test(data.postalCode)) {
+    throw invalid(`código postal "${data.postalCode}" no tiene 6 dígitos`);
+  }
+  const hasLat = data.lat !== undefined && data.lat !== null;
+  const hasLon = data.lon !== undefined && data.lon !== null;
+  if (hasLat !== hasLon) throw invalid('lat y lon deben venir juntos');
+  if (hasLat && (typeof data.lat !== 'number' || typeof data.lon !== 'number' || Math.abs(data.lat) > 90 || Math.abs(data.lon) > 180)) {
+    throw invalid(`coordenadas fuera de rango (${data.lat}, ${data.lon})`);
+  }
+  if (!isOptionalString(data.formattedAddress) || !isOptionalString(data.locality)) throw invalid('formattedAddress y locality deben ser texto');
+  return {
+    status: 'found',
+    postalCode: data.postalCode,
+    ...(hasLat ? { lat: data.lat, lon: data.lon } : {}),
+    ...(data.formattedAddress ? { formattedAddress: data.formattedAddress } : {}),
+    ...(data.locality ? { locality: data.locality } : {})
+  };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); reject(new DOMException('Aborted', 'AbortError')); }, { once: true });
+});
+
+// 5xx and network failures (fetch rejects with TypeError) are worth another try; 4xx and contract violations are not
+const isRetryable = (err: any): boolean =>
+  /^HTTP 5\d\d/.test(String(err?.message || '')) || err?.name === 'TypeError';
+
+/*
+  POSTs a JSON body with retries (RETRY_BASE_DELAY_MS·2^n). 429 is rethrown as RATE_LIMITED
+  so the shared limiter backs off; 404 resolves to null ("not found").
+*/
+const postWithRetries = async (url: string, body: unknown, signal?: AbortSignal): Promise<any | null> => {
+  const retries = readEnvInt('VITE_472_API_RETRIES', DEFAULT_RETRIES);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = await fetch(url, { method: 'POST', headers: buildHeaders(), body: JSON.stringify(body), signal });
+      if (res.status === 429) throw new Error(RATE_LIMITED);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      try {
+        return await res.json();
+      } catch {
+        throw invalid('el cuerpo no es JSON');
+      }
+    } catch (err: any) {
+      if (signal?.aborted || attempt >= retries || !isRetryable(err)) throw err;
+      const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+      console.warn(`[472] ${err?.message || err}; retrying in ${delay}ms (${attempt + 1}/${retries})`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+export const lookupOfficial472 = async (q: Pick<GeocodeQuery, 'address' | 'city' | 'department'>, signal?: AbortSignal): Promise<Official472Answer> => {
+  const data = await postWithRetries(getLookupUrl(), { address: q.address, city: q.city, department: q.department }, signal);
+  return data === null ? { status: 'not_found' } : parseOfficial472Record(data);
+};
+
+/*
+  One request for many destinations. Items the service leaves out of `results` are
+  missing from the returned map (unknown, not "not found").
+*/
+export const lookupOfficial472Batch = async (
+  queries: Pick<GeocodeQuery, 'address' | 'city' | 'department'>[],
+  signal?: AbortSignal
+): Promise<Map<number, Official472Answer>> => {
+  const items = queries.map((q, id) => ({ id, address: q.address, city: q.city, department: q.department }));
+  const data = await postWithRetries(getBatchUrl(), { items }, signal);
+  if (!data || !Array.isArray(data.results)) throw invalid('falta el arreglo "results"');
+  const answers = new Map<number, Official472Answer>();
+  for (const record of data.results) {
+    const id = typeof record?.id === 'number' ? record.id : parseInt(String(record?.id), 10);
+    if (isNaN(id) || id < 0 || id >= items.length) throw invalid(`id de resultado desconocido "${record?.id}"`);
+    answers.set(id, parseOfficial472Record(record));
+  }
+  return answers;
+};
+
+const queryKey = (q: Pick<GeocodeQuery, 'address' | 'city' | 'department'>) =>
+  `${normalizeStr(q.address)}|${normalizeStr(q.city)}|${normalizeStr(q.department)}`;
+
+// Answers fetched ahead by prefetchOfficial472 for the current batch, read by the provider before a single lookup
+const prefetched = new Map<string, Official472Answer>();
+
+const toResult = (answer: Official472Answer): Omit<GeocodeResult, 'provider'> | null => {
+  if (answer.status !== 'found') return null;
+  return {
+    confidence: 1,
+    postalCode: answer.postalCode,
+    lat: answer.lat,
+    lon: answer.lon,
+    formattedAddress: answer.formattedAddress,
+    locationName: answer.locality
+  };
+};
+
+const official472Provider: GeocoderProvider = {
+  id: PROVIDER_ID,
+  label: 'API 4-72',
+  stage: 'postal',
+  priority: 20,
+  defaultTimeoutMs: 10000,
+  defaultMinConfidence: 0,
+  defaultRatePerSec: 5,
+  defaultBurst: 2,
+  isAvailable: () => env().VITE_USE_472_API === '1' && !!getLookupUrl(),
+  geocode: async (q, signal) => {
+    const ahead = prefetched.get(queryKey(q));
+    if (ahead) return toResult(ahead);
+    return toResult(await lookupOfficial472(q, signal));
+  }
+};
+
+registerGeocoderProvider(official472Provider);
+
+// Batch endpoint configured and the provider in the enabled postal chain
+export const isOfficial472BatchEnabled = (): boolean =>
+  !!getBatchUrl() && getGeocoderChain('postal').some(e => e.provider.id === PROVIDER_ID);
+
+/*
+  Batch mode: when VITE_472_API_BATCH_URL is set and the provider is in the enabled
+  postal chain, resolves the batch's destinations in chunks of VITE_472_API_BATCH_SIZE
+  so the per-row provider calls are answered from memory. A failed chunk is logged and
+  its rows fall back to single lookups.
+*/
+export const prefetchOfficial472 = async (
+  queries: Pick<GeocodeQuery, 'address' | 'city' | 'department'>[],
+  signal?: AbortSignal
+): Promise<number> => {
+  prefetched.clear();
+  if (!isOfficial472BatchEnabled() || queries.length === 0) return 0;
+  const settings = getGeocoderSettings(getGeocoderProvider(PROVIDER_ID)!);
+  const size = Math.max(1, readEnvInt('VITE_472_API_BATCH_SIZE', DEFAULT_BATCH_SIZE));
+  for (let start = 0; start < queries.length; start += size) {
+    if (signal?.aborted) break;
+    if (!isProviderAvailable(PROVIDER_ID, settings)) break;
+    const chunk = queries.slice(start, start + size);
+    try {
+      const timeout = AbortSignal.timeout(settings.timeoutMs * 3);
+      const answers = await withProviderLimits(PROVIDER_ID, settings, () =>
+        lookupOfficial472Batch(chunk, signal ? AbortSignal.any([signal, timeout]) : timeout), signal);
+      answers.forEach((answer, i) => prefetched.set(queryKey(chunk[i]), answer));
+    } catch (err: any) {
+      if (signal?.aborted) break;
+      console.warn(`[472] Batch of ${chunk.length} failed, those rows use single lookups:`, err?.message || err);
+    }
+  }
+  console.log(`[472] Prefetched ${prefetched.size}/${queries.length} destinations`);
+  return prefetched.size;
+};
@@ -0,0 +1,265 @@
+import { buildGeocodeQueryText, checkProviderResponse, GeocodeQuery, GeocodeResult, GeocoderProvider, getGeocoderChainOrder, getGeocoderProvider, getGeocoderSettings, registerGeocoderProvider, withProviderLimits } from './geocoders';
+import { isProviderAvailable } from './rateLimiter';
+
+/*
+  =============================================================================
+  OSM GEOCODERS (Nominatim / Photon / Pelias)
+  =============================================================================
+  One 'point' provider per backend, each with its own base URL so a self-hosted
+  instance can replace (or sit next to) the public Nominatim:
+    VITE_NOMINATIM_URL=https://nominatim.openstreetmap.org   (default)
+    VITE_PHOTON_URL=http://localhost:2322                     (off when unset)
+    VITE_PELIAS_URL=http://localhost:4000                     (off when unset)
+    VITE_PELIAS_API_KEY=...                                   (optional, hosted Pelias)
+    VITE_<ID>_MIN_DELAY_MS=0
+  The minimum delay between requests defaults to 1200 ms against the public
+  servers (usage policy) and to 0 for any other host; it becomes the provider's
+  token bucket rate (VITE_GEOCODER_<ID>_RATE_PER_SEC still wins). The reverse lookup used for
+  Bogotá localidades goes to the first enabled backend of the chain.
+  scripts/mock-geocoder.mjs serves canned responses for the three APIs.
+*/
+
+export type OsmBackendId = 'nominatim' | 'photon' | 'pelias';
+
+interface OsmSearchHit {
+  lat: number;
+  lon: number;
+  confidence: number;
+  label?: string;
+}
+
+interface OsmAdapter {
+  id: OsmBackendId;
+  label: string;
+  priority: number;
+  defaultUrl: string;
+  searchUrl: (base: string, q: GeocodeQuery) => string;
+  parseSearch: (data: any) => OsmSearchHit | null;
+  reverseUrl: (base: string, lat: number, lon: number) => string;
+  parseReverseLocality: (data: any) => string | null;
+}
+
+export const PUBLIC_OSM_MIN_DELAY_MS = 1200;
+const PUBLIC_OSM_HOSTS = ['nominatim.openstreetmap.org', 'photon.komoot.io'];
+// lonW, latS, lonE, latN approx
+const BOGOTA_BBOX = { west: -74.25, south: 4.45, east: -73.95, north: 4.85 };
+
+const env = (): any => import.meta.env;
+
+const normalizeStr = (str: string) => str ? str.toString().normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim() : "";
+
+const isBogota = (q: GeocodeQuery) => normalizeStr(q.city).includes('bogota');
+
+// Structured search when the destination is known; free text for map searches and city-only queries
+const useStructured = (q: GeocodeQuery) => !!(q.city && q.department && q.simplification < 2);
+
+const firstString = (...values: any[]): string | null => {
+  const v = values.find(x => typeof x === 'string' && x.trim());
+  return v ? v.trim() : null;
+};
+
+const nominatimAdapter: OsmAdapter = {
+  id: 'nominatim',
+  label: 'Nominatim (OSM)',
+  priority: 50,
+  defaultUrl: 'https://nominatim.openstreetmap.org',
+  searchUrl: (base, q) => {
+    const params = new URLSearchParams({ format: 'json', limit: '1', timeout: '10', countrycodes: 'co' });
+    if (useStructured(q)) {
+      params.set('street', q.street);
+      params.set('city', q.city);
+      params.set('state', q.department);
+      params.set('country', 'Colombia');
+    } else {
+      params.set('q', buildGeocodeQueryText(q));
+    }
+    if (isBogota(q)) {
+      params.set('viewbox', `${BOGOTA_BBOX.west},${BOGOTA_BBOX.north},${BOGOTA_BBOX.east},${BOGOTA_BBOX.south}`);
+      params.set('bounded', '1');
+    }
+    return `${base}/search?${params}`;
+  },
+  // Confidence is the result's importance; installs without Wikipedia ranks fall back to place_rank
+  parseSearch: (data) => {
+    const first = Array.isArray(data) ? data[0] : null;
+    if (!first) return null;
+    const confidence = typeof first.importance === 'number'
+      ? first.importance
+      : (parseFloat(first.place_rank) || 0) / 30;
+    return { lat: parseFloat(first.lat), lon: parseFloat(first.lon), confidence, label: first.display_name };
+  },
+  reverseUrl: (base, lat, lon) => `${base}/reverse?lat=${lat}&lon=${lon}&format=json&zoom=16&addressdetails=1`,
+  parseReverseLocality: (data) => {
+    const addr = data?.address || {};
+    return firstString(addr.city_district, addr.suburb, addr.town, addr.neighbourhood);
+  }
+};
+
+// Photon has no score; confidence follows the granularity of the match
+const PHOTON_TYPE_CONFIDENCE: Record<string, number> = {
+  house: 0.9,
+  street: 0.7,
+  locality: 0.6,
+  district: 0.6,
+  city: 0.5
+};
+
+const photonAdapter: OsmAdapter = {
+  id: 'photon',
+  label: 'Photon (OSM)',
+  priority: 52,
+  defaultUrl: '',
+  searchUrl: (base, q) => {
+    const params = new URLSearchParams({ q: buildGeocodeQueryText(q), limit: '5' });
+    if (isBogota(q)) params.set('bbox', `${BOGOTA_BBOX.west},${BOGOTA_BBOX.south},${BOGOTA_BBOX.east},${BOGOTA_BBOX.north}`);
+    return `${base}/api?${params}`;
+  },
+  parseSearch: (data) => {
+    const features: any[] = Array.isArray(data?.features) ? data.features : [];
+    const first = features.find(f => !f?.properties?.countrycode || String(f.properties.countrycode).toUpperCase() === 'CO');
+    const coords = first?.geometry?.coordinates;
+    if (!Array.isArray(coords) || coords.length < 2) return null;
+    const props = first.properties || {};
+    const label = [props.name, props.street && props.housenumber ? `${props.street} ${props.housenumber}` : props.street, props.city]
+      .filter(Boolean).join(', ');
+    return { lat: Number(coords[1]), lon: Number(coords[0]), confidence: PHOTON_TYPE_CONFIDENCE[props.type] ?? 0.3, label: label || undefined };
+  },
+  reverseUrl: (base, lat, lon) => `${base}/reverse?lat=${lat}&lon=${lon}&limit=1`,
+  parseReverseLocality: (data) => {
+    const props = data?.features?.[0]?.properties || {};
+    return firstString(props.district, props.locality);
+  }
+};
+
+const peliasAdapter: OsmAdapter = {
+  id: 'pelias',
+  label: 'Pelias',
+  priority: 54,
+  defaultUrl: '',
+  searchUrl: (base, q) => {
+    const params = new URLSearchParams({ size: '1' });
+    let path = '/v1/search';
+    if (useStructured(q)) {
+      path = '/v1/search/structured';
+      params.set('address', q.street);
+      params.set('locality', q.city);
+      params.set('region', q.department);
+      params.set('country', 'COL');
+    } else {
+      params.set('text', buildGeocodeQueryText(q));
+      params.set('boundary.country', 'COL');
+    }
+    if (isBogota(q)) {
+      params.set('boundary.rect.min_lon', String(BOGOTA_BBOX.west));
+      params.set('boundary.rect.min_lat', String(BOGOTA_BBOX.south));
+      params.set('boundary.rect.max_lon', String(BOGOTA_BBOX.east));
+      params.set('boundary.rect.max_lat', String(BOGOTA_BBOX.north));
+    }
+    const apiKey = String(env().VITE_PELIAS_API_KEY || '').trim();
+    if (apiKey) params.set('api_key', apiKey);
+    return `${base}${path}?${params}`;
+  },
+  parseSearch: (data) => {
+    const first = Array.isArray(data?.features) ? data.features[0] : null;
+    const coords = first?.geometry?.coordinates;
+    if (!Array.isArray(coords) || coords.length < 2) return null;
+    const props = first.properties || {};
+    return { lat: Number(coords[1]), lon: Number(coords[0]), confidence: typeof props.confidence === 'number' ? props.confidence : 0, label: props.label };
+  },
+  reverseUrl: (base, lat, lon) => {
+    const apiKey = String(env().VITE_PELIAS_API_KEY || '').trim();
+    return `${base}/v1/reverse?point.lat=${lat}&point.lon=${lon}&size=1${apiKey ? `&api_key=${encodeURIComponent(apiKey)}` : ''}`;
+  },
+  parseReverseLocality: (data) => {
+    const props = data?.features?.[0]?.properties || {};
+    return firstString(props.borough, props.localadmin, props.neighbourhood);
+  }
+};
+
+const ADAPTERS: OsmAdapter[] = [nominatimAdapter, photonAdapter, peliasAdapter];
+
+export const getOsmBaseUrl = (id: OsmBackendId): string => {
+  const adapter = ADAPTERS.find(a => a.id === id)!;
+  const raw = String(env()[`VITE_${id.toUpperCase()}_URL`] ?? '').trim();
+  return (raw || adapter.defaultUrl).replace(/\/+$/, '');
+};
+
+const isPublicHost = (base: string): boolean => {
+  try {
+    return PUBLIC_OSM_HOSTS.includes(new URL(base).hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const getOsmMinDelayMs = (id: OsmBackendId): number => {
+  const raw = parseFloat(String(env()[`VITE_${id.toUpperCase()}_MIN_DELAY_MS`] ?? ''));
+  if (!isNaN(raw) && raw >= 0) return raw;
+  return isPublicHost(getOsmBaseUrl(id)) ? PUBLIC_OSM_MIN_DELAY_MS : 0;
+};
+
+// OSM backends of the chain that are enabled, in chain order
+const enabledOsmAdapters = (): OsmAdapter[] =>
+  getGeocoderChainOrder()
+    .filter(p => getGeocoderSettings(p).enabled)
+    .map(p => ADAPTERS.find(a => a.id === p.id))
+    .filter((a): a is OsmAdapter => !!a);
+
+// Spacing the batch keeps between requests: the strictest of the enabled OSM backends
+export const getOsmBatchMinDelayMs = (): number =>
+  enabledOsmAdapters().reduce((max, a) => Math.max(max, getOsmMinDelayMs(a.id)), 0);
+
+const fetchOsm = async (url: string, signal?: AbortSignal): Promise<any | null> => {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'ColPostalValidator/1.0 (batch-processing)',
+      'Accept-Language': 'es'
+    },
+    signal
+  });
+  if (!checkProviderResponse(response)) return null;
+  return response.json();
+};
+
+const createOsmProvider = (adapter: OsmAdapter): GeocoderProvider => {
+  const minDelay = getOsmMinDelayMs(adapter.id);
+  return {
+    id: adapter.id,
+    label: adapter.label,
+    stage: 'point',
+    priority: adapter.priority,
+    coarse: true,
+    defaultTimeoutMs: 20000,
+    defaultMinConfidence: 0.5,
+    defaultRatePerSec: minDelay > 0 ? 1000 / minDelay : 0,
+    defaultBurst: 1,
+    isAvailable: () => !!getOsmBaseUrl(adapter.id),
+    geocode: async (q, signal): Promise<Omit<GeocodeResult, 'provider'> | null> => {
+      const data = await fetchOsm(adapter.searchUrl(getOsmBaseUrl(adapter.id), q), signal);
+      const hit = data ? adapter.parseSearch(data) : null;
+      if (!hit || !isFinite(hit.lat) || !isFinite(hit.lon)) return null;
+      return { confidence: hit.confidence, lat: hit.lat, lon: hit.lon, formattedAddress: hit.label };
+    }
+  };
+};
+
+ADAPTERS.forEach(a => registerGeocoderProvider(createOsmProvider(a)));
+
+// Localidad / district name at a point, from the first enabled OSM backend that answers.
+// Shares the provider's token bucket and circuit breaker with the search calls.
+export const reverseGeocodeLocality = async (lat: number, lon: number, signal?: AbortSignal): Promise<string | null> => {
+  for (const adapter of enabledOsmAdapters()) {
+    if (signal?.aborted) break;
+    const settings = getGeocoderSettings(getGeocoderProvider(adapter.id)!);
+    if (!isProviderAvailable(adapter.id, settings)) continue;
+    try {
+      const url = adapter.reverseUrl(getOsmBaseUrl(adapter.id), lat, lon);
+      const data = await withProviderLimits(adapter.id, settings, () => fetchOsm(url, AbortSignal.timeout(settings.timeoutMs)), signal);
+      const locality = data ? adapter.parseReverseLocality(data) : null;
+      if (locality) return locality;
+    } catch (err) {
+      console.warn(`[GEOCODER] ${adapter.id} reverse failed`, err);
+    }
+  }
+  return null;
+};
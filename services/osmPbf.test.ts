@@ -0,0 +1,46 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { readOsmPbfWays } from './osmPbf';
+import { isStreetWay } from './streetNetwork';
+
+/*
+  fixtures/small.osm.pbf (scripts/make-street-fixtures.mjs): an OSMHeader blob, a zlib
+  blob with nodes 1-4 as dense nodes and a raw blob with ways 101-104 and node 5 as a
+  plain node. Ways: 101 "Calle 10" (1, 2, 3), 102 "Carrera 5" (5, 1, 4), 103 a footway
+  (1, 4) and 104 a building (2, 3, 4).
+*/
+
+const readFixture = (): ArrayBuffer => {
+  const bytes = readFileSync(new URL('./fixtures/small.osm.pbf', import.meta.url));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+const expectCoords = (actual: [number, number][], expected: [number, number][]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach(([lon, lat], i) => {
+    expect(lon).toBeCloseTo(expected[i][0], 7);
+    expect(lat).toBeCloseTo(expected[i][1], 7);
+  });
+};
+
+describe('readOsmPbfWays', () => {
+  it('decodes every way with its tags and node coordinates', async () => {
+    const ways = await readOsmPbfWays(readFixture(), () => true);
+    expect(ways.map(w => w.id)).toEqual([101, 102, 103, 104]);
+    expect(ways[0].tags).toEqual({ highway: 'residential', name: 'Calle 10' });
+    expectCoords(ways[0].coords, [[-74.07, 4.6], [-74.0691, 4.6], [-74.0682, 4.6]]);
+    // Node 5 is a plain node in another block than the dense ones
+    expectCoords(ways[1].coords, [[-74.07, 4.5991], [-74.07, 4.6], [-74.07, 4.6009]]);
+  });
+
+  it('keeps only the ways the filter accepts', async () => {
+    const progress: number[] = [];
+    const ways = await readOsmPbfWays(readFixture(), isStreetWay, (percent) => progress.push(percent));
+    expect(ways.map(w => w.tags.name)).toEqual(['Calle 10', 'Carrera 5']);
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+
+  it('rejects a truncated file', async () => {
+    await expect(readOsmPbfWays(readFixture().slice(0, 200), () => true)).rejects.toThrow('Archivo PBF truncado o corrupto');
+  });
+});
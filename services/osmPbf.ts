@@ -0,0 +1,268 @@
+/*
+  =============================================================================
+  MINIMAL OSM PBF READER
+  =============================================================================
+  Decodes just enough of the .osm.pbf format to pull ways (with tags and node
+  coordinates) out of an extract:
+    [int32 BE length][BlobHeader][Blob (zlib)] -> PrimitiveBlock -> dense nodes / ways
+  Relations, metadata (DenseInfo/Info) and history are skipped. Only zlib blobs are
+  supported, which is what osmium, osmosis and Geofabrik produce by default.
+  Two passes: the first keeps the wanted ways and their node ids, the second only
+  decodes the coordinates of those nodes, so memory stays proportional to the result.
+*/
+
+export interface OsmWay {
+  id: number;
+  tags: Record<string, string>;
+  coords: [number, number][]; // [lon, lat]
+}
+
+interface PbReader {
+  buf: Uint8Array;
+  pos: number;
+  end: number;
+}
+
+const TWO_POW_63 = Math.pow(2, 63);
+const TWO_POW_64 = Math.pow(2, 64);
+
+// Unsigned varint as a double: exact up to 2^53, enough for OSM ids and coordinates
+const readVarint = (r: PbReader): number => {
+  let result = 0;
+  let mul = 1;
+  let b: number;
+  do {
+    if (r.pos >= r.end) throw new Error('Archivo PBF truncado o corrupto');
+    b = r.buf[r.pos++];
+    result += (b & 0x7f) * mul;
+    mul *= 128;
+  } while (b & 0x80);
+  return result;
+};
+
+// int64 fields (not zigzag) carry negatives as 10-byte two's complement varints
+const readInt64 = (r: PbReader): number => {
+  const v = readVarint(r);
+  return v >= TWO_POW_63 ? v - TWO_POW_64 : v;
+};
+
+const zigzag = (n: number): number => n % 2 === 1 ? -(n + 1) / 2 : n / 2;
+
+const readSInt64 = (r: PbReader): number => zigzag(readVarint(r));
+
+const subReader = (r: PbReader): PbReader => {
+  const len = readVarint(r);
+  const sub = { buf: r.buf, pos: r.pos, end: r.pos + len };
+  if (sub.end > r.end) throw new Error('Archivo PBF truncado o corrupto');
+  r.pos = sub.end;
+  return sub;
+};
+
+const skipField = (r: PbReader, wire: number) => {
+  if (wire === 0) readVarint(r);
+  else if (wire === 1) r.pos += 8;
+  else if (wire === 2) {
+    const len = readVarint(r);
+    r.pos += len;
+  } else if (wire === 5) r.pos += 4;
+  else throw new Error(`Tipo de campo PBF no soportado (${wire})`);
+};
+
+// Calls onField for each field; the callback returns false for fields it did not consume
+const readFields = (r: PbReader, onField: (field: number, wire: number) => boolean | void) => {
+  while (r.pos < r.end) {
+    const key = readVarint(r);
+    const field = Math.floor(key / 8);
+    const wire = key & 7;
+    if (onField(field, wire) === false) skipField(r, wire);
+  }
+};
+
+const readPacked = (r: PbReader, wire: number, read: (r: PbReader) => number): number[] => {
+  const out: number[] = [];
+  if (wire !== 2) {
+    out.push(read(r));
+    return out;
+  }
+  const sub = subReader(r);
+  while (sub.pos < sub.end) out.push(read(sub));
+  return out;
+};
+
+const textDecoder = new TextDecoder();
+const readString = (r: PbReader): string => {
+  const sub = subReader(r);
+  return textDecoder.decode(sub.buf.subarray(sub.pos, sub.end));
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Decompressed PrimitiveBlocks of the file, in order (the OSMHeader block is skipped)
+const forEachDataBlock = async (
+  buffer: ArrayBuffer,
+  onBlock: (block: Uint8Array, index: number) => void,
+  wanted?: Set<number>,
+  onProgress?: (fraction: number) => void
+) => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let pos = 0;
+  let index = 0;
+  while (pos + 4 <= bytes.length) {
+    const headerLen = view.getUint32(pos);
+    pos += 4;
+    let type = '';
+    let dataSize = 0;
+    const header: PbReader = { buf: bytes, pos, end: pos + headerLen };
+    readFields(header, (field, wire) => {
+      if (field === 1 && wire === 2) type = readString(header);
+      else if (field === 3 && wire === 0) dataSize = readVarint(header);
+      else return false;
+    });
+    pos += headerLen;
+    const blobStart = pos;
+    pos += dataSize;
+    if (pos > bytes.length) throw new Error('Archivo PBF truncado o corrupto');
+    if (type !== 'OSMData') continue;
+    const blockIndex = index++;
+    if (wanted && !wanted.has(blockIndex)) continue;
+
+    const blob: PbReader = { buf: bytes, pos: blobStart, end: blobStart + dataSize };
+    let raw: Uint8Array | null = null;
+    let zlib: Uint8Array | null = null;
+    readFields(blob, (field, wire) => {
+      if ((field === 1 || field === 3) && wire === 2) {
+        const sub = subReader(blob);
+        const data = bytes.subarray(sub.pos, sub.end);
+        if (field === 1) raw = data; else zlib = data;
+      } else if (field >= 4 && wire === 2) {
+        throw new Error('Compresión PBF no soportada; exporte el extracto con zlib (osmium cat --output-format pbf,pbf_compression=zlib)');
+      } else return false;
+    });
+    const block = raw || (zlib ? await inflate(zlib) : null);
+    if (block) onBlock(block, blockIndex);
+    if (onProgress) onProgress(pos / bytes.length);
+  }
+};
+
+interface BlockContext {
+  strings: string[];
+  groups: PbReader[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+const readBlock = (block: Uint8Array): BlockContext => {
+  const r: PbReader = { buf: block, pos: 0, end: block.length };
+  const ctx: BlockContext = { strings: [], groups: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  readFields(r, (field, wire) => {
+    if (field === 1 && wire === 2) {
+      const table = subReader(r);
+      readFields(table, (f, w) => {
+        if (f === 1 && w === 2) ctx.strings.push(readString(table));
+        else return false;
+      });
+    } else if (field === 2 && wire === 2) ctx.groups.push(subReader(r));
+    else if (field === 17 && wire === 0) ctx.granularity = readVarint(r);
+    else if (field === 19 && wire === 0) ctx.latOffset = readInt64(r);
+    else if (field === 20 && wire === 0) ctx.lonOffset = readInt64(r);
+    else return false;
+  });
+  return ctx;
+};
+
+interface PendingWay {
+  id: number;
+  tags: Record<string, string>;
+  refs: number[];
+}
+
+const readWay = (r: PbReader, strings: string[]): PendingWay => {
+  let id = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  const refs: number[] = [];
+  readFields(r, (field, wire) => {
+    if (field === 1 && wire === 0) id = readInt64(r);
+    else if (field === 2) keys = readPacked(r, wire, readVarint);
+    else if (field === 3) vals = readPacked(r, wire, readVarint);
+    else if (field === 8) {
+      let acc = 0;
+      for (const d of readPacked(r, wire, readSInt64)) refs.push(acc += d);
+    } else return false;
+  });
+  const tags: Record<string, string> = {};
+  keys.forEach((k, i) => { tags[strings[k]] = strings[vals[i]]; });
+  return { id, tags, refs };
+};
+
+export const readOsmPbfWays = async (
+  buffer: ArrayBuffer,
+  keep: (tags: Record<string, string>) => boolean,
+  onProgress?: (percent: number, msg: string) => void
+): Promise<OsmWay[]> => {
+  // Pass 1: wanted ways and the blocks that hold nodes
+  const ways: PendingWay[] = [];
+  const neededNodes = new Set<number>();
+  const nodeBlocks = new Set<number>();
+  await forEachDataBlock(buffer, (block, index) => {
+    const ctx = readBlock(block);
+    for (const group of ctx.groups) {
+      readFields(group, (field, wire) => {
+        if ((field === 1 || field === 2) && wire === 2) {
+          nodeBlocks.add(index);
+          return false;
+        }
+        if (field !== 3 || wire !== 2) return false;
+        const way = readWay(subReader(group), ctx.strings);
+        if (way.refs.length < 2 || !keep(way.tags)) return;
+        ways.push(way);
+        way.refs.forEach(id => neededNodes.add(id));
+      });
+    }
+  }, undefined, f => onProgress && onProgress(Math.round(f * 50), `Leyendo vías PBF (${ways.length})...`));
+
+  // Pass 2: coordinates of the referenced nodes only
+  const coords = new Map<number, [number, number]>();
+  await forEachDataBlock(buffer, (block) => {
+    const ctx = readBlock(block);
+    const toDeg = (offset: number, v: number) => 1e-9 * (offset + ctx.granularity * v);
+    for (const group of ctx.groups) {
+      readFields(group, (field, wire) => {
+        if (field === 2 && wire === 2) {
+          const dense = subReader(group);
+          let ids: number[] = [], lats: number[] = [], lons: number[] = [];
+          readFields(dense, (f, w) => {
+            if (f === 1) ids = readPacked(dense, w, readSInt64);
+            else if (f === 8) lats = readPacked(dense, w, readSInt64);
+            else if (f === 9) lons = readPacked(dense, w, readSInt64);
+            else return false;
+          });
+          let id = 0, lat = 0, lon = 0;
+          for (let i = 0; i < ids.length; i++) {
+            id += ids[i]; lat += lats[i]; lon += lons[i];
+            if (neededNodes.has(id)) coords.set(id, [toDeg(ctx.lonOffset, lon), toDeg(ctx.latOffset, lat)]);
+          }
+        } else if (field === 1 && wire === 2) {
+          const node = subReader(group);
+          let id = 0, lat = 0, lon = 0;
+          readFields(node, (f, w) => {
+            if (f === 1 && w === 0) id = readSInt64(node);
+            else if (f === 8 && w === 0) lat = readSInt64(node);
+            else if (f === 9 && w === 0) lon = readSInt64(node);
+            else return false;
+          });
+          if (neededNodes.has(id)) coords.set(id, [toDeg(ctx.lonOffset, lon), toDeg(ctx.latOffset, lat)]);
+        } else return false;
+      });
+    }
+  }, nodeBlocks, f => onProgress && onProgress(50 + Math.round(f * 50), `Leyendo nodos PBF (${coords.size}/${neededNodes.size})...`));
+
+  return ways
+    .map(w => ({ id: w.id, tags: w.tags, coords: w.refs.map(id => coords.get(id)).filter((c): c is [number, number] => !!c) }))
+    .filter(w => w.coords.length >= 2);
+};
@@ -1,6 +1,20 @@
-import { PostalZone, AddressTemplate, PaginatedResult, MunicipalIndexEntry } from '../types';
-import { GoogleGenAI } from "@google/genai";
+import { PostalZone, AddressTemplate, PaginatedResult, MunicipalIndexEntry, TopologyIssue, AddressDictionaries, BatchRunSummary, StreetNetworkEntry, ConsensusCandidate, ConsensusReport, GeocodePrecision, ResolutionProvenance, ResolutionStrategy, AddressNormalization, AddressValidationVerdict, PostalCrossCheck } from '../types';
 import { createClient } from '@supabase/supabase-js';
+import { buildRTree, RTree } from './spatialIndex';
+import { findTopologyIssues } from './topology';
+import { assertGeographicCoordinates } from './shapefileImport';
+import { createZoneMatcherPool, ZoneMatcherPool } from './zoneMatcherPool';
+import { formatAddress, formatRuralAddress, parseAddress, parseRuralAddress } from './addressParser';
+import { analyzeAddress } from './addressQuality';
+import { DEFAULT_ADDRESS_DICTIONARIES, expandAddressAbbreviations, getAddressDictionaries, setAddressDictionaries, validateAddressDictionaries } from './addressDictionaries';
+import { needsAddressNormalization, normalizeAddress } from './addressNormalizer';
+import { buildGeocodeQueryText, clearGeocoderAnswers, describeGeocoderChain, GeocodeQuery, GeocodeResult, getGeocoderChain, getGeocoderConsensusDefault, registerGeocoderProvider, runGeocoderChain, runGeocoderChainDetailed, runGeocoderConsensus } from './geocoders';
+import { buildStreetNetworkEntries, createStreetNetworkProvider, extractStreetWaysFromGeoJSON, isStreetWay } from './streetNetwork';
+import { OsmWay, readOsmPbfWays } from './osmPbf';
+import { getOsmBatchMinDelayMs, PUBLIC_OSM_MIN_DELAY_MS, reverseGeocodeLocality } from './osmGeocoders';
+import { isOfficial472BatchEnabled, prefetchOfficial472 } from './official472';
+import { resetRateLimiter } from './rateLimiter';
+import { buildGeometryLods, calculateBBox, calculateCentroid, calculateLabelPoint, distanceMeters, findNearestZone, metersToDegrees, pickZoneAtPoint, zonesShareBorder } from './geometry';
 
 /* 
   =============================================================================
@@ -8,12 +22,14 @@ import { createClient } from '@supabase/supabase-js';
   =============================================================================
 */
 const DB_NAME = 'ColPostalDB';
-const DB_VERSION = 6;
+const DB_VERSION = 8;
 const STORE_ZONES = 'zones';
 const STORE_GEO_CACHE = 'geo_cache';
 const STORE_472_CACHE = 'official_472_cache';
 const STORE_MUNI_INDEX = 'muni_index';
 const STORE_PROCESSOR_STATE = 'processor_state';
+const STORE_DICTIONARIES = 'address_dictionaries';
+const STORE_STREETS = 'street_network';
 
 const normalizeStr = (str: string) => str ? str.toString().normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim() : "";
 
@@ -36,13 +52,141 @@ const normalizeCityKey = (raw: string): string => {
     return normalizeStr(s);
 };
 
+// Geocoded point of a destination, with the provider that found it and the simplification level
+// it took (0 = full address, 1 = street only, 2 = city only). Entries cached before provenance was
+// recorded only carry lat/lon.
+interface GeocodedPoint {
+    lat: number;
+    lon: number;
+    provider?: string;
+    confidence?: number;
+    simplification?: number;
+}
+
 // In-memory cache for this session (faster than DB for repeated rows in same file)
-const memCache: Record<string, { lat: number, lon: number } | null> = {};
+const memCache: Record<string, GeocodedPoint | null> = {};
 
 let zonesMemCache: PostalZone[] = [];
 let zonesByDaneIndex: Record<string, PostalZone[]> = {};
 let zonesByCityIndex: Record<string, PostalZone[]> = {};
 let zonesIndexReady = false;
+let zonesSpatialIndex: RTree<PostalZone> | null = null;
+let zonesByIdIndex = new Map<string, PostalZone>();
+// Web Worker pool for point-in-polygon during batch runs (null = match on the main thread)
+let zoneMatcherPool: ZoneMatcherPool | null = null;
+let zoneMatcherPoolPromise: Promise<ZoneMatcherPool | null> | null = null;
+// Indexes for zone subsets (per-municipality candidate lists, MapView arrays) keyed by array identity
+const subsetSpatialIndexes = new WeakMap<PostalZone[], RTree<PostalZone>>();
+const LINEAR_SCAN_LIMIT = 32;
+
+const buildZonesSpatialIndex = (zones: PostalZone[]): RTree<PostalZone> => buildRTree(zones, z => z.bbox);
+
+const getSpatialIndexFor = (zones: PostalZone[]): RTree<PostalZone> => {
+  if (zones === zonesMemCache && zonesSpatialIndex) return zonesSpatialIndex;
+  let idx = subsetSpatialIndexes.get(zones);
+  if (!idx) {
+    idx = buildZonesSpatialIndex(zones);
+    subsetSpatialIndexes.set(zones, idx);
+  }
+  return idx;
+};
+
+// Zones whose bbox (grown by `bufferM` meters) contains the point. Small lists are scanned directly; larger ones go through an R-tree.
+export const getZoneCandidatesAtPoint = (lat: number, lon: number, zones?: PostalZone[], bufferM: number = 0): PostalZone[] => {
+  const source = zones || zonesMemCache;
+  const { dLat, dLon } = bufferM > 0 ? metersToDegrees(lat, bufferM) : { dLat: 0, dLon: 0 };
+  if (source.length <= LINEAR_SCAN_LIMIT && source !== zonesMemCache) {
+    return source.filter(z => {
+      if (!z.bbox) return false;
+      const [minLon, minLat, maxLon, maxLat] = z.bbox;
+      return lon >= minLon - dLon && lon <= maxLon + dLon && lat >= minLat - dLat && lat <= maxLat + dLat;
+    });
+  }
+  return getSpatialIndexFor(source).search([lon - dLon, lat - dLat, lon + dLon, lat + dLat]);
+};
+
+// Geocoded points outside every polygon but within this distance of a zone take that zone's CP
+const DEFAULT_NEAREST_ZONE_BUFFER_M = 300;
+export const getNearestZoneBufferMeters = (): number => {
+  const raw = parseFloat(String(((import.meta as any).env.VITE_NEAREST_ZONE_BUFFER_M ?? '')));
+  return !isNaN(raw) && raw >= 0 ? raw : DEFAULT_NEAREST_ZONE_BUFFER_M;
+};
+
+// Points closer than this to a zone edge count as "on the boundary" and follow the pickZoneAtPoint tie-break
+const DEFAULT_BOUNDARY_TOLERANCE_M = 1;
+export const getBoundaryToleranceMeters = (): number => {
+  const raw = parseFloat(String(((import.meta as any).env.VITE_ZONE_BOUNDARY_TOLERANCE_M ?? '')));
+  return !isNaN(raw) && raw >= 0 ? raw : DEFAULT_BOUNDARY_TOLERANCE_M;
+};
+
+// Rows scoring below this (0-100, see addressQuality.ts) skip geocoding and go to manual review
+const DEFAULT_ADDRESS_QUALITY_MIN = 50;
+export const getAddressQualityThreshold = (): number => {
+  const raw = parseFloat(String(((import.meta as any).env.VITE_ADDRESS_QUALITY_MIN ?? '')));
+  return !isNaN(raw) && raw >= 0 ? raw : DEFAULT_ADDRESS_QUALITY_MIN;
+};
+
+// Interior point used as the coordinate of rows that get a zone's CP without a geocoded point.
+// Zones imported before label points existed get theirs computed (and memoized) on first use.
+export const getZoneFallbackPoint = (zone: PostalZone): { lat: number, lon: number } => {
+  if (typeof zone.labelLat !== 'number' || typeof zone.labelLon !== 'number') {
+    const label = calculateLabelPoint(zone.geometry);
+    zone.labelLat = label.lat;
+    zone.labelLon = label.lon;
+  }
+  return { lat: zone.labelLat, lon: zone.labelLon };
+};
+
+// Geometry to draw for a LOD level (see getLodLevelForZoom; -1 = full precision). Zones imported
+// before LODs existed get them computed (and memoized) on first draw.
+export const getZoneDisplayGeometry = (zone: PostalZone, lodLevel: number): PostalZone['geometry'] => {
+  if (lodLevel < 0) return zone.geometry;
+  if (!zone.geometryLod) zone.geometryLod = buildGeometryLods(zone.geometry);
+  return zone.geometryLod[Math.min(lodLevel, zone.geometryLod.length - 1)] || zone.geometry;
+};
+
+const formatZoneFallbackCoords = (zone: PostalZone): string => {
+  const p = getZoneFallbackPoint(zone);
+  return `${p.lat}, ${p.lon}`;
+};
+
+const invalidateZonesWarmCache = () => {
+  zonesMemCache = [];
+  zonesByDaneIndex = {};
+  zonesByCityIndex = {};
+  zonesSpatialIndex = null;
+  zonesByIdIndex = new Map();
+  zonesIndexReady = false;
+  if (zoneMatcherPool) zoneMatcherPool.terminate();
+  zoneMatcherPool = null;
+  zoneMatcherPoolPromise = null;
+};
+
+// VITE_ZONE_WORKERS: size of the matcher pool (0 disables it). Defaults to the spare cores, up to 4.
+const getZoneWorkerCount = (): number => {
+  const raw = parseInt(String(((import.meta as any).env.VITE_ZONE_WORKERS ?? '')), 10);
+  if (!isNaN(raw) && raw >= 0) return Math.min(raw, 16);
+  const cores = typeof navigator !== 'undefined' ? (navigator.hardwareConcurrency || 2) : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+};
+
+// Starts the worker pool once per zone set; the workers keep their own copy of the zones and R-tree
+const ensureZoneMatcherPool = async (): Promise<ZoneMatcherPool | null> => {
+  if (zoneMatcherPool) return zoneMatcherPool;
+  if (!zoneMatcherPoolPromise) {
+    zoneMatcherPoolPromise = (async () => {
+      await ensureZonesWarmCache();
+      const zones = zonesMemCache;
+      const pool = await createZoneMatcherPool(zones, getZoneWorkerCount());
+      // Zones may have been replaced while the workers were loading
+      if (pool && zones !== zonesMemCache) { pool.terminate(); return null; }
+      if (pool) console.log(`[ZONE WORKERS] ${pool.size} workers ready with ${zones.length} zones`);
+      zoneMatcherPool = pool;
+      return pool;
+    })();
+  }
+  return zoneMatcherPoolPromise;
+};
 
 export const ensureZonesWarmCache = async (): Promise<void> => {
   if (zonesIndexReady && zonesMemCache.length > 0) return;
@@ -70,6 +214,8 @@ export const ensureZonesWarmCache = async (): Promise<void> => {
         zonesMemCache = mem;
         zonesByDaneIndex = byDane;
         zonesByCityIndex = byCity;
+        zonesSpatialIndex = buildZonesSpatialIndex(mem);
+        zonesByIdIndex = new Map(mem.map(z => [z.id, z] as [string, PostalZone]));
         zonesIndexReady = true;
         resolve();
       }
@@ -88,52 +234,11 @@ export const getZonesByCityKey = (city: string): PostalZone[] => {
   return zonesByCityIndex[key] || [];
 };
 
-// Initialize GenAI lazily to avoid browser error when API key is missing
-const getGenAI = (): GoogleGenAI | null => {
-  const key = (import.meta as any).env.VITE_GEMINI_API_KEY as string;
-  const enabled = ((import.meta as any).env.VITE_ENABLE_GEMINI === '1');
-  if (!enabled) return null;
-  if (!key || key === 'demo_key_for_testing') return null;
-  try {
-    return new GoogleGenAI({ apiKey: key });
-  } catch {
-    return null;
-  }
-};
-
 export const supabase = createClient(
   import.meta.env.VITE_SUPABASE_URL as string,
   import.meta.env.VITE_SUPABASE_ANON_KEY as string
 );
 
-const useOfficialAPI = (): boolean => {
-  const flag = ((import.meta as any).env.VITE_USE_472_API === '1');
-  const url = ((import.meta as any).env.VITE_472_API_URL || '').trim();
-  return !!flag && !!url;
-};
-
-const fetchOfficialPostal = async (address: string, city: string, department: string): Promise<{ postalCode: string, coords: string } | null> => {
-  const url = ((import.meta as any).env.VITE_472_API_URL || '').trim();
-  const key = ((import.meta as any).env.VITE_472_API_KEY || '').trim();
-  if (!url) return null;
-  try {
-    const body = JSON.stringify({ address, city, department });
-    const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...(key ? { 'Authorization': `Bearer ${key}` } : {}) }, body });
-    if (!res.ok) return null;
-    const data = await res.json();
-    const cp = String(
-      data?.postalCode || data?.codigo_postal || data?.cp || ''
-    ).replace(/\D/g, '').padStart(6, '0').slice(-6);
-    const lat = typeof data?.lat === 'number' ? data.lat : parseFloat(String(data?.latitude || ''));
-    const lon = typeof data?.lon === 'number' ? data.lon : parseFloat(String(data?.longitude || data?.lng || ''));
-    const coords = (!isNaN(lat) && !isNaN(lon)) ? `${lat}, ${lon}` : '';
-    if (!cp) return null;
-    return { postalCode: cp, coords };
-  } catch {
-    return null;
-  }
-};
-
 // Helper to open DB
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -160,6 +265,12 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_472_CACHE)) {
         db.createObjectStore(STORE_472_CACHE, { keyPath: 'key' });
       }
+      if (!db.objectStoreNames.contains(STORE_DICTIONARIES)) {
+        db.createObjectStore(STORE_DICTIONARIES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_STREETS)) {
+        db.createObjectStore(STORE_STREETS, { keyPath: 'id' }).createIndex('ciudad', 'ciudad');
+      }
     };
 
     request.onsuccess = (event) => {
@@ -174,7 +285,7 @@ const openDB = (): Promise<IDBDatabase> => {
   =============================================================================
 */
 
-const getCachedLocation = async (key: string): Promise<{ lat: number, lon: number } | null | undefined> => {
+const getCachedLocation = async (key: string): Promise<GeocodedPoint | null | undefined> => {
     if (memCache[key] !== undefined) return memCache[key];
     
     const db = await openDB();
@@ -195,7 +306,7 @@ const getCachedLocation = async (key: string): Promise<{ lat: number, lon: numbe
     });
 };
 
-const saveCachedLocation = async (key: string, value: { lat: number, lon: number } | null) => {
+const saveCachedLocation = async (key: string, value: GeocodedPoint | null) => {
     memCache[key] = value;
     const db = await openDB();
     return new Promise<void>((resolve) => {
@@ -218,7 +329,25 @@ export const clearGeoCache = async (): Promise<void> => {
     });
 };
 
-const getCachedOfficial = async (key: string): Promise<{ postalCode: string, coords: string } | null | undefined> => {
+// CP answers of the 'postal' geocoder providers, keyed by buildAddressCacheKey
+interface OfficialCacheValue {
+  postalCode: string;
+  coords: string;
+  formattedAddress?: string;
+  locationName?: string;
+  provider?: string;
+  confidence?: number;
+  verdict?: AddressValidationVerdict;
+}
+
+// A destination with no CP whose Address Validation answer was rejected for low confidence
+interface RejectedPostalCacheValue {
+  rejectedVerdict: AddressValidationVerdict;
+}
+
+type PostalCacheEntry = OfficialCacheValue | RejectedPostalCacheValue | null;
+
+const getCachedOfficial = async (key: string): Promise<PostalCacheEntry | undefined> => {
   const db = await openDB();
   return new Promise((resolve) => {
     const tx = db.transaction(STORE_472_CACHE, 'readonly');
@@ -233,7 +362,7 @@ const getCachedOfficial = async (key: string): Promise<{ postalCode: string, coo
   });
 };
 
-const saveCachedOfficial = async (key: string, value: { postalCode: string, coords: string } | null) => {
+const saveCachedOfficial = async (key: string, value: PostalCacheEntry) => {
   const db = await openDB();
   return new Promise<void>((resolve) => {
     const tx = db.transaction(STORE_472_CACHE, 'readwrite');
@@ -245,249 +374,85 @@ const saveCachedOfficial = async (key: string, value: { postalCode: string, coor
 
 /* 
   =============================================================================
-  JSON HELPERS
+  ADDRESS NORMALIZATION
   =============================================================================
 */
-const extractJSON = (text: string): any => {
-    try {
-        // First try standard parse
-        return JSON.parse(text);
-    } catch (e) {
-        // Try finding the first '{' and last '}'
-        const first = text.indexOf('{');
-        const last = text.lastIndexOf('}');
-        if (first !== -1 && last !== -1) {
-            try {
-                return JSON.parse(text.substring(first, last + 1));
-            } catch (e2) {
-                return null;
-            }
-        }
-        return null;
-    }
-};
 
-/* 
-  =============================================================================
-  GOOGLE ADDRESS VALIDATION API
-  =============================================================================
-*/
+// The active dictionaries live in addressDictionaries.ts; this module persists them in IndexedDB
+export { DEFAULT_ADDRESS_DICTIONARIES, getAddressDictionaries, validateAddressDictionaries, expandAddressAbbreviations } from './addressDictionaries';
 
-const validateAddressWithGoogle = async (address: string, city: string, department: string): Promise<{ 
-  postalCode: string, 
-  lat: number, 
-  lon: number,
-  formattedAddress: string,
-  locationName: string 
-} | null> => {
-  const apiKey = (import.meta as any).env.VITE_GOOGLE_MAPS_API_KEY;
-  const enabled = ((import.meta as any).env.VITE_ENABLE_GOOGLE === '1');
-  if (!enabled || !apiKey || apiKey === 'demo_key_for_testing') return null;
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
+export const loadAddressDictionaries = async (): Promise<AddressDictionaries> => {
+  const db = await openDB();
+  const stored = await new Promise<any>((resolve) => {
+    const tx = db.transaction(STORE_DICTIONARIES, 'readonly');
+    const req = tx.objectStore(STORE_DICTIONARIES).get('current');
+    req.onsuccess = () => resolve(req.result || null);
+    req.onerror = () => resolve(null);
+  });
   try {
-    const url = `https://addressvalidation.googleapis.com/v1:validateAddress?key=${apiKey}`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        address: {
-          addressLines: [address],
-          locality: city,
-          administrativeArea: department,
-          regionCode: 'CO'
-        }
-      })
-    });
-
-    if (!response.ok) return null;
-    const data = await response.json();
-    
-    const result = data.result;
-    if (!result || !result.address) return null;
-
-    // 1. Dirección Normalizada (Prioridad: completeAddress -> formattedAddress -> original)
-    // Se captura la nomenclatura oficial corregida por Google para auditoría
-    let formattedAddress = result.address.completeAddress || 
-                           result.address.postalAddress?.addressLines?.join(', ') || 
-                           address;
-
-    // 2. Localidad/Barrio con jerarquía de respaldo (fallback)
-    let locationName = '';
-    const components = result.address.addressComponents || [];
-    
-    // Prioridad 1: sublocality o neighborhood
-    const sublocality = components.find((c: any) => 
-      c.componentType === 'sublocality' || c.componentType === 'sublocality_level_1'
-    );
-    const neighborhood = components.find((c: any) => 
-      c.componentType === 'neighborhood'
-    );
-    
-    // Prioridad 2: locality (Ciudad/Municipio)
-    const locality = components.find((c: any) => 
-      c.componentType === 'locality'
-    );
-    
-    // Prioridad 3: administrative_area_level_2 (Provincia/Estado)
-    const adminArea2 = components.find((c: any) => 
-      c.componentType === 'administrative_area_level_2'
-    );
-
-    locationName = sublocality?.componentName?.text || 
-                   neighborhood?.componentName?.text || 
-                   locality?.componentName?.text || 
-                   adminArea2?.componentName?.text || 
-                   city; // Prioridad 4: Ciudad de Destino original
-
-    // 3. Código Postal (postalCode de 6 dígitos)
-    const postalCodeComponent = components.find((c: any) => 
-      c.componentType === 'postal_code'
-    );
-    
-    let postalCode = postalCodeComponent?.componentName?.text || '';
-    const location = result.geocode?.location;
-    
-    if (!postalCode || postalCode.length !== 6) {
-      const postalCodeAlt = result.address.postalAddress?.postalCode || '';
-      if (postalCodeAlt && postalCodeAlt.length === 6) {
-        postalCode = postalCodeAlt;
-      }
-    }
-    
-    if (postalCode && postalCode.length === 6) {
-      return {
-        postalCode,
-        lat: location?.latitude || 0,
-        lon: location?.longitude || 0,
-        formattedAddress,
-        locationName
-      };
-    }
-
-    return null;
+    setAddressDictionaries(stored ? { ...validateAddressDictionaries(stored), actualizado: stored.actualizado } : DEFAULT_ADDRESS_DICTIONARIES);
   } catch (e) {
-    console.warn('Google Address Validation failed:', e);
-    return null;
+    console.warn('[DICCIONARIOS] Stored dictionaries are invalid, using defaults', e);
+    setAddressDictionaries(DEFAULT_ADDRESS_DICTIONARIES);
   }
+  return getAddressDictionaries();
 };
 
-/* 
-  =============================================================================
-  GEOMETRY LOGIC
-  =============================================================================
-*/
-
-// Calculate Bounding Box [minLon, minLat, maxLon, maxLat]
-const calculateBBox = (geometry: any): [number, number, number, number] => {
-    let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity;
-    
-    const updateBounds = (coords: any[]) => {
-        for (const [lon, lat] of coords) {
-            if (lon < minLon) minLon = lon;
-            if (lon > maxLon) maxLon = lon;
-            if (lat < minLat) minLat = lat;
-            if (lat > maxLat) maxLat = lat;
-        }
-    };
-
-    if (geometry.type === 'Polygon') {
-        updateBounds(geometry.coordinates[0]);
-    } else if (geometry.type === 'MultiPolygon') {
-        for (const polygon of geometry.coordinates) {
-            updateBounds(polygon[0]);
-        }
-    }
-
-    if (minLon === Infinity) return [0,0,0,0];
-    return [minLon, minLat, maxLon, maxLat];
+export const saveAddressDictionaries = async (dicts: AddressDictionaries): Promise<AddressDictionaries> => {
+  const clean = { ...validateAddressDictionaries(dicts), actualizado: Date.now() };
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_DICTIONARIES, 'readwrite');
+    const req = tx.objectStore(STORE_DICTIONARIES).put({ id: 'current', ...clean });
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+  setAddressDictionaries(clean);
+  return clean;
 };
 
-const pointInPolygon = (point: [number, number], vs: [number, number][]): boolean => {
-    const x = point[0], y = point[1];
-    let inside = false;
-    for (let i = 0, j = vs.length - 1; i < vs.length; j = i++) {
-        const xi = vs[i][0], yi = vs[i][1];
-        const xj = vs[j][0], yj = vs[j][1];
-        const intersect = ((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi);
-        if (intersect) inside = !inside;
-    }
-    return inside;
+export const resetAddressDictionaries = async (): Promise<AddressDictionaries> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_DICTIONARIES, 'readwrite');
+    const req = tx.objectStore(STORE_DICTIONARIES).delete('current');
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+  setAddressDictionaries(DEFAULT_ADDRESS_DICTIONARIES);
+  return DEFAULT_ADDRESS_DICTIONARIES;
 };
 
-const isPointInFeature = (lon: number, lat: number, zone: PostalZone): boolean => {
-    if (zone.bbox) {
-        const [minLon, minLat, maxLon, maxLat] = zone.bbox;
-        if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) {
-            return false;
-        }
-    }
+export const normalizeAddressForGeocoding = (rawAddress: string): string => {
+    if (!rawAddress || !rawAddress.trim()) return "";
 
-    const geometry = zone.geometry;
-    if (!geometry || !geometry.coordinates) return false;
-    
-    const pt: [number, number] = [lon, lat];
-    if (geometry.type === 'Polygon') return pointInPolygon(pt, geometry.coordinates[0]);
-    else if (geometry.type === 'MultiPolygon') {
-        for (const polygonCoords of geometry.coordinates) {
-            if (pointInPolygon(pt, polygonCoords[0])) return true;
-        }
+    // Remove email-like patterns, then expand the abbreviations of the editable dictionary ("Kra." -> "Carrera")
+    const expanded = expandAddressAbbreviations(rawAddress.replace(/\b[\w\.-]+@[\w\.-]+\.\w{2,4}\b/gi, ""));
+
+    // Complete urban addresses go through the structured parser; the regex chain below is the fallback
+    const parsed = parseAddress(expanded).address;
+    if (parsed && parsed.placa) return formatAddress(parsed);
+    // Rural references (km, vereda, finca, corregimiento) are the location itself, not noise
+    const rural = parseRuralAddress(expanded);
+    if (rural) {
+        const ruralText = formatRuralAddress(rural);
+        if (ruralText) return ruralText;
     }
-    return false;
-};
 
-const calculateCentroid = (geometry: any): { lat: number, lon: number } => {
-    let coords: any[] = [];
-    if (geometry.type === 'Polygon') coords = geometry.coordinates[0];
-    else if (geometry.type === 'MultiPolygon') coords = geometry.coordinates[0][0];
-    
-    if (!coords || coords.length === 0) return { lat: 4.5709, lon: -74.2973 };
-
-    let sumLon = 0, sumLat = 0;
-    coords.forEach((p: any) => { sumLon += p[0]; sumLat += p[1]; });
-    return { lat: sumLat / coords.length, lon: sumLon / coords.length };
-};
-
-/* 
-  =============================================================================
-  ADDRESS NORMALIZATION
-  =============================================================================
-*/
-
-export const normalizeAddressForGeocoding = (rawAddress: string): string => {
-    if (!rawAddress || !rawAddress.trim()) return "";
-    let clean = rawAddress.trim();
-    
-    // Remove email-like patterns
-    clean = clean.replace(/\b[\w\.-]+@[\w\.-]+\.\w{2,4}\b/gi, "");
+    let clean = expanded;
     
     // Standardize separators
     clean = clean.replace(/\./g, " ");
     clean = clean.replace(/\(.*?\)/g, ""); // Remove content in parens
     
-    // EXPAND COMMON ABBREVIATIONS
-    clean = clean.replace(/\b(ac)\b/gi, "Avenida Calle");
-    clean = clean.replace(/\b(ak)\b/gi, "Avenida Carrera");
-    clean = clean.replace(/\b(cl|cll|c)\b/gi, "Calle");
-    clean = clean.replace(/\b(cra|kr|kra|k)\b/gi, "Carrera");
-    clean = clean.replace(/\b(dg|diag)\b/gi, "Diagonal");
-    clean = clean.replace(/\b(tv|trans|tr)\b/gi, "Transversal");
-    clean = clean.replace(/\b(av|avda)\b/gi, "Avenida");
-    clean = clean.replace(/\b(cir|circ)\b/gi, "Circular");
-    clean = clean.replace(/\b(autop|autopista)\b/gi, "Autopista");
-    
     // Stop words removal (noise for geocoding points)
-    const stopWords = [
-        "ap", "apt", "apto", "apartamento", "int", "interior", "casa", "cs", "local", 
-        "oficina", "of", "piso", "torre", "manzana", "mz", "bloque", "bl", 
-        "barrio", "br", "urb", "urbanizacion", "conjunto", "etapa", "hotel", 
-        "edificio", "agrupacion", "zona", "vereda", "km", "kilometro", "via",
-        "centro comercial", "c.c", "cc", "mall", "plaza", "ph"
-    ];
-    // Note: 'tr' removed from stop words to avoid conflict with Transversal if normalization happens first
-    
-    const stopWordsRegex = new RegExp(`\\b(${stopWords.join('|')})\\b`, 'gi');
-    clean = clean.replace(stopWordsRegex, ""); 
+    const stopWords = getAddressDictionaries().palabras_ruido.map(escapeRegExp);
+    if (stopWords.length > 0) {
+        const stopWordsRegex = new RegExp(`\\b(${stopWords.join('|')})\\b`, 'gi');
+        clean = clean.replace(stopWordsRegex, "");
+    }
 
     // NUMBER AND FORMAT STANDARDIZATION
     
@@ -524,6 +489,13 @@ export const normalizeAddressForGeocoding = (rawAddress: string): string => {
     return clean.trim();
 };
 
+// Cache key for official CP lookups. Uses the canonical address so "Cra 7 No 45-10 apto 3" and "Carrera 7 # 45-10" share an entry
+const buildAddressCacheKey = (address: string, city: string, department: string): string => {
+    const parsed = parseAddress(expandAddressAbbreviations(address)).address;
+    const addressKey = parsed && parsed.placa ? formatAddress(parsed) : address;
+    return `${normalizeStr(addressKey)}|${normalizeStr(city)}|${normalizeStr(department)}`;
+};
+
 const stripExtraneousAddressParts = (address: string, city: string): string => {
     let s = address || '';
     const lower = s.toLowerCase();
@@ -540,15 +512,114 @@ const stripExtraneousAddressParts = (address: string, city: string): string => {
     if (hyKw && hyKw.index !== undefined) {
         s = s.substring(0, hyKw.index).trim();
     }
-    // Remove conflicting city names inside address that do not match the provided city
-    const cityNorm = normalizeStr(city);
-    const conflicts = ['corinto','cauca','medellin','barranquilla','cartagena','cali','soacha','envigado','itagui','yopal','duitama'];
-    for (const c of conflicts) {
-        if (!cityNorm.includes(c) && s.toLowerCase().includes(c)) {
-            s = s.replace(new RegExp(`\\b${c}\\b`, 'gi'), '').replace(/\s\s+/g, ' ').trim();
-        }
+    return stripConflictingCityNames(s, city);
+};
+
+/*
+  CONFLICTING CITY NAMES
+  Municipality names (muni index + zones + the editable dictionary) trailing an address
+  for a different city are dropped: "Calle 10 # 5-20 Cali" sent to Bogotá -> "Calle 10 # 5-20".
+  Only the tail and the head of the address are touched. In the tail a name is kept when:
+   - it is preceded by a street/place word ("Avenida Boyacá", "Barrio Granada", "Villa del Rosario"),
+   - it is ambiguous (also a department, localidad or barrio name) and not set apart by "-" or ",".
+  A leading name is dropped only when "-" or "," sets it apart from the rest
+  ("Medellín, Calle 10 # 5-20" sent to Envigado), so "Cali 5 # 3-20" style street names stay.
+*/
+interface PlaceNameIndex {
+  key: string;
+  municipios: Set<string>;
+  pasables: Set<string>; // Department names and "colombia": skipped over, never removed
+  ambiguos: Set<string>;
+  maxWords: number;
+}
+let placeNameIndexMem: PlaceNameIndex | null = null;
+
+const PLACE_CONTEXT_WORDS = new Set([
+  'calle', 'carrera', 'avenida', 'diagonal', 'transversal', 'circular', 'autopista', 'via', 'km',
+  'barrio', 'br', 'urbanizacion', 'urb', 'conjunto', 'edificio', 'torre', 'sector', 'vereda', 'villa', 'ciudadela',
+  'parque', 'plaza', 'centro', 'comercial', 'hotel', 'colegio', 'hospital', 'clinica',
+  'de', 'del', 'la', 'el', 'los', 'las', 'san', 'santa', 'nueva', 'nuevo', 'alto', 'bajo', 'puerto'
+]);
+
+const getPlaceNameIndex = (): PlaceNameIndex => {
+  const key = `${Object.keys(muniNameMapMem).length}|${zonesMemCache.length}|${deptNamesMem.size}|${barrioNamesMem.size}|${getAddressDictionaries().actualizado || 0}|${getAddressDictionaries().ciudades_conflictivas.length}`;
+  if (placeNameIndexMem && placeNameIndexMem.key === key) return placeNameIndexMem;
+
+  const municipios = new Set<string>(Object.keys(muniNameMapMem));
+  const departamentos = new Set<string>(deptNamesMem);
+  const localidades = new Set<string>();
+  for (const z of zonesMemCache) {
+    if (z.nombre_municipio) municipios.add(normalizeCityKey(z.nombre_municipio));
+    if (z.nombre_departamento) departamentos.add(normalizeCityKey(z.nombre_departamento));
+    if (z.nombre_localidad) localidades.add(normalizeCityKey(z.nombre_localidad));
+  }
+  getAddressDictionaries().ciudades_conflictivas.forEach(c => municipios.add(normalizeCityKey(c)));
+  municipios.delete('');
+
+  const ambiguos = new Set<string>();
+  municipios.forEach(m => {
+    if (departamentos.has(m) || localidades.has(m) || barrioNamesMem.has(m)) ambiguos.add(m);
+  });
+  const pasables = new Set<string>([...departamentos, 'colombia']);
+  let maxWords = 1;
+  municipios.forEach(m => { maxWords = Math.max(maxWords, m.split(' ').length); });
+  placeNameIndexMem = { key, municipios, pasables, ambiguos, maxWords: Math.min(maxWords, 6) };
+  return placeNameIndexMem;
+};
+
+const stripConflictingCityNames = (address: string, city: string): string => {
+  const s = address.trim();
+  const cityKey = normalizeCityKey(city);
+  const index = getPlaceNameIndex();
+  const words: { norm: string, start: number, end: number }[] = [];
+  const re = /[A-Za-zÀ-ÿ0-9#.]+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(s)) !== null) words.push({ norm: normalizeStr(m[0]).replace(/\./g, ''), start: m.index, end: m.index + m[0].length });
+
+  const isDestination = (k: string) => !!cityKey && (k === cityKey || cityKey.includes(k) || k.includes(cityKey));
+  const removals: [number, number][] = [];
+  let end = words.length;
+  while (end > 1) {
+    let n = Math.min(index.maxWords, end - 1);
+    let key = '';
+    for (; n >= 1; n--) {
+      key = words.slice(end - n, end).map(w => w.norm).join(' ');
+      if (index.municipios.has(key) || index.pasables.has(key)) break;
     }
-    return s.trim();
+    if (n < 1) break;
+    const first = end - n;
+    if (index.pasables.has(key) || isDestination(key)) { end = first; continue; }
+
+    const prev = words[first - 1];
+    if (PLACE_CONTEXT_WORDS.has(prev.norm)) break;
+    const separated = /[-,]/.test(s.slice(prev.end, words[first].start));
+    if (index.ambiguos.has(key) && !separated) break;
+    removals.push([words[first].start, words[end - 1].end]);
+    end = first;
+  }
+
+  // Leading names, up to what the tail pass left; each one must be followed by a separator
+  const headRemovals: [number, number][] = [];
+  let start = 0;
+  while (start < end - 1) {
+    let n = Math.min(index.maxWords, end - 1 - start);
+    let key = '';
+    for (; n >= 1; n--) {
+      key = words.slice(start, start + n).map(w => w.norm).join(' ');
+      if (index.municipios.has(key) || index.pasables.has(key)) break;
+    }
+    if (n < 1) break;
+    const next = words[start + n];
+    if (!/[-,]/.test(s.slice(words[start + n - 1].end, next.start))) break;
+    if (!index.pasables.has(key) && !isDestination(key)) headRemovals.push([words[start].start, next.start]);
+    start += n;
+  }
+  if (removals.length === 0 && headRemovals.length === 0) return s;
+
+  let out = s;
+  // Removals go right to left: the tail ones already are, the head ones come after them reversed
+  for (const [a, b] of [...removals, ...headRemovals.reverse()]) out = out.slice(0, a) + out.slice(b);
+  return out.replace(/^\s*[-,]\s*/, '').replace(/\s*[-,]\s*$/, '').replace(/\s*[-,]\s*(?=[-,])/g, '').replace(/\s\s+/g, ' ').trim();
 };
 
 const findAttributeValue = (props: any, candidateKeys: string[]): string => {
@@ -563,9 +634,6 @@ const findAttributeValue = (props: any, candidateKeys: string[]): string => {
     return '';
 };
 
-// Helper
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 /* 
   =============================================================================
   DB MANAGEMENT
@@ -658,6 +726,22 @@ export const updateZonesFromMasterExcel = async (excelData: any[], onProgress?:
 
 // Municipal Index (CSV) Loader
 const muniNameMapMem: Record<string, string> = {}; // norm name -> dane
+const deptNamesMem = new Set<string>();   // norm department names
+const barrioNamesMem = new Set<string>(); // norm barrio/vereda names from the CSV (see stripConflictingCityNames)
+
+const rememberMunicipalNames = (val: MunicipalIndexEntry) => {
+  if (val.nombre_municipio && val.dane) muniNameMapMem[normalizeCityKey(val.nombre_municipio)] = val.dane;
+  if (val.nombre_departamento) deptNamesMem.add(normalizeCityKey(val.nombre_departamento));
+  for (const e of val.entries || []) {
+    String(e.barrios || '').split(/[,;|\n]/).forEach(b => {
+      const key = normalizeCityKey(b).replace(/^(barrio|vereda|vda|corregimiento|sector|urbanizacion)\s+/, '');
+      if (key.length >= 4) barrioNamesMem.add(key);
+      // "El Líbano" also makes a bare "Libano" ambiguous
+      const bare = key.replace(/^(el|la|los|las)\s+/, '');
+      if (bare !== key && bare.length >= 4) barrioNamesMem.add(bare);
+    });
+  }
+};
 export const upsertMunicipalIndexFromCSV = async (rows: any[], onProgress?: (percent: number) => void): Promise<{ inserted: number, total: number }> => {
   const db = await openDB();
   // Aggregate by DANE
@@ -700,17 +784,13 @@ export const upsertMunicipalIndexFromCSV = async (rows: any[], onProgress?: (per
     const entry = byDane.get(dane)!;
     entry.nombre_municipio = muni || entry.nombre_municipio;
     entry.nombre_departamento = depto || entry.nombre_departamento;
-    entry.entries.push({ codigo_postal: cp, tipo });
+    entry.entries.push({ codigo_postal: cp, tipo, barrios: barrios ? String(barrios) : undefined });
     // prefer urbana
     if (normalizeStr(tipo).includes('urb')) entry.preferred_postal = cp;
   });
 
   // Populate name map in-memory
-  byDane.forEach((val) => {
-    if (val.nombre_municipio) {
-      muniNameMapMem[normalizeCityKey(val.nombre_municipio)] = val.dane;
-    }
-  });
+  byDane.forEach(rememberMunicipalNames);
 
   // Write to IndexedDB
   return new Promise((resolve, reject) => {
@@ -781,9 +861,7 @@ export const ensureMunicipalIndexWarmCache = async (): Promise<void> => {
       const cursor = (e.target as IDBRequest).result;
       if (cursor) {
         const val = cursor.value as MunicipalIndexEntry;
-        if (val?.nombre_municipio && val?.dane) {
-          muniNameMapMem[normalizeCityKey(val.nombre_municipio)] = val.dane;
-        }
+        if (val) rememberMunicipalNames(val);
         cursor.continue();
       } else {
         resolve();
@@ -793,6 +871,39 @@ export const ensureMunicipalIndexWarmCache = async (): Promise<void> => {
   });
 };
 
+/*
+  Chooses the CP of a municipality for an address. Rural addresses (km, vereda, finca,
+  corregimiento) go to a rural CP, preferring the one whose barrios list names the
+  vereda/corregimiento/sector. Addresses without urban nomenclature that name one of
+  those places ("San Cristóbal") are treated as rural too.
+*/
+const selectMunicipalPostalCode = (entry: MunicipalIndexEntry, address: string): { codigo_postal: string, rural: boolean } => {
+  const ruralEntries = entry.entries.filter(e => normalizeStr(e.tipo).includes('rural'));
+  const urbanEntry = entry.entries.find(e => normalizeStr(e.tipo).includes('urb'));
+  const fallback = { codigo_postal: urbanEntry?.codigo_postal || entry.preferred_postal, rural: false };
+  if (!address || ruralEntries.length === 0) return fallback;
+
+  const placeList = (barrios?: string) => String(barrios || '').split(/[,;|\n]/)
+    .map(b => normalizeStr(b).replace(/^(vereda|vda\.?|corregimiento|sector|centro poblado)\s+/, ''))
+    .filter(b => b.length >= 4);
+  const mentions = (haystack: string, place: string) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(place)}($|[^a-z0-9])`).test(haystack);
+
+  const rural = parseRuralAddress(address);
+  if (rural) {
+    const names = [rural.vereda, rural.corregimiento, rural.sector].filter(Boolean).map(n => normalizeStr(n!));
+    const byName = ruralEntries.find(e => placeList(e.barrios).some(p => names.some(n => n === p || mentions(n, p) || mentions(p, n))));
+    return { codigo_postal: (byName || ruralEntries[0]).codigo_postal, rural: true };
+  }
+
+  const urban = parseAddress(address).address;
+  if (!urban) {
+    const normAddress = normalizeStr(address);
+    const byPlace = ruralEntries.find(e => placeList(e.barrios).some(p => mentions(normAddress, p)));
+    if (byPlace) return { codigo_postal: byPlace.codigo_postal, rural: true };
+  }
+  return fallback;
+};
+
 export const getMunicipalIndexByCityName = async (city: string): Promise<MunicipalIndexEntry | null> => {
   const key = normalizeCityKey(city);
   const dane = muniNameMapMem[key];
@@ -803,8 +914,144 @@ export const getMunicipalIndexByCityName = async (city: string): Promise<Municip
   return dane2 ? getMunicipalIndexByDane(dane2) : null;
 };
 
+/* 
+  =============================================================================
+  OFFLINE STREET NETWORK (see streetNetwork.ts)
+  =============================================================================
+*/
+
+// City key -> number of street keys stored; filled by ensureStreetNetworkWarmCache
+const streetCitiesMem = new Map<string, number>();
+const streetsByCityMem = new Map<string, Map<string, StreetNetworkEntry>>();
+let streetCitiesPromise: Promise<void> | null = null;
+
+const readStreetCities = async (): Promise<void> => {
+  const db = await openDB();
+  const counts = new Map<string, number>();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_STREETS, 'readonly');
+    const req = tx.objectStore(STORE_STREETS).index('ciudad').openKeyCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (cursor) {
+        const city = String(cursor.key);
+        counts.set(city, (counts.get(city) || 0) + 1);
+        cursor.continue();
+      } else resolve();
+    };
+    req.onerror = () => reject(req.error);
+  });
+  streetCitiesMem.clear();
+  counts.forEach((n, city) => streetCitiesMem.set(city, n));
+};
+
+export const ensureStreetNetworkWarmCache = async (): Promise<void> => {
+  if (!streetCitiesPromise) streetCitiesPromise = readStreetCities().catch(err => { streetCitiesPromise = null; throw err; });
+  return streetCitiesPromise;
+};
+
+const loadStreetNetworkCity = async (cityKey: string): Promise<Map<string, StreetNetworkEntry> | null> => {
+  const mem = streetsByCityMem.get(cityKey);
+  if (mem) return mem;
+  if (!streetCitiesMem.has(cityKey)) return null;
+  const db = await openDB();
+  const entries = await new Promise<StreetNetworkEntry[]>((resolve, reject) => {
+    const tx = db.transaction(STORE_STREETS, 'readonly');
+    const req = tx.objectStore(STORE_STREETS).index('ciudad').getAll(cityKey);
+    req.onsuccess = () => resolve(req.result || []);
+    req.onerror = () => reject(req.error);
+  });
+  const byKey = new Map(entries.map(e => [e.clave, e] as [string, StreetNetworkEntry]));
+  streetsByCityMem.set(cityKey, byKey);
+  return byKey;
+};
+
+export const getStreetNetworkStats = async (): Promise<{ ciudad: string, calles: number }[]> => {
+  await ensureStreetNetworkWarmCache();
+  return Array.from(streetCitiesMem.entries()).map(([ciudad, calles]) => ({ ciudad, calles })).sort((a, b) => a.ciudad.localeCompare(b.ciudad));
+};
+
+const deleteStreetNetworkCity = async (db: IDBDatabase, cityKey: string): Promise<void> => {
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_STREETS, 'readwrite');
+    const req = tx.objectStore(STORE_STREETS).index('ciudad').openKeyCursor(IDBKeyRange.only(cityKey));
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (cursor) {
+        tx.objectStore(STORE_STREETS).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  streetCitiesMem.delete(cityKey);
+  streetsByCityMem.delete(cityKey);
+};
+
+export const clearStreetNetwork = async (city: string): Promise<void> => {
+  const db = await openDB();
+  await deleteStreetNetworkCity(db, normalizeCityKey(city));
+};
+
+/*
+  Imports the road network of one city from an OSM extract (.osm.pbf, or GeoJSON from
+  osmtogeojson / overpass turbo). Replaces the streets previously stored for that city.
+*/
+export const importStreetNetwork = async (
+  file: File,
+  city: string,
+  onProgress?: (percent: number, msg: string) => void
+): Promise<{ ways: number, streets: number }> => {
+  const cityKey = normalizeCityKey(city);
+  if (!cityKey) throw new Error("Indique la ciudad a la que corresponde la red vial.");
+  const name = file.name.toLowerCase();
+  let ways: Pick<OsmWay, 'tags' | 'coords'>[];
+  if (name.endsWith('.pbf')) {
+    ways = await readOsmPbfWays(await file.arrayBuffer(), isStreetWay, (pct, msg) => onProgress && onProgress(Math.round(pct * 0.8), msg));
+  } else {
+    if (onProgress) onProgress(10, 'Leyendo GeoJSON...');
+    let geoJson: any;
+    try {
+      geoJson = JSON.parse(await file.text());
+    } catch {
+      throw new Error("El archivo no es un GeoJSON válido.");
+    }
+    ways = extractStreetWaysFromGeoJSON(geoJson);
+  }
+  const entries = buildStreetNetworkEntries(cityKey, ways);
+  if (entries.length === 0) throw new Error("No se encontraron calles con nomenclatura (Calle, Carrera, Diagonal...) en el archivo.");
+
+  const db = await openDB();
+  await ensureStreetNetworkWarmCache();
+  await deleteStreetNetworkCity(db, cityKey);
+  const BATCH_SIZE = 500;
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    const end = Math.min(i + BATCH_SIZE, entries.length);
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_STREETS, 'readwrite');
+      const store = tx.objectStore(STORE_STREETS);
+      for (let j = i; j < end; j++) store.put(entries[j]);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    if (onProgress) onProgress(80 + Math.round((end / entries.length) * 20), `Guardando calles ${end}/${entries.length}...`);
+  }
+  streetCitiesMem.set(cityKey, entries.length);
+  console.log(`[STREETS] ${entries.length} streets (${ways.length} ways) imported for ${cityKey}`);
+  return { ways: ways.length, streets: entries.length };
+};
+
+registerGeocoderProvider(createStreetNetworkProvider({
+  hasData: () => streetCitiesMem.size > 0,
+  hasCity: (city) => streetCitiesMem.has(normalizeCityKey(city)),
+  loadCity: (city) => loadStreetNetworkCity(normalizeCityKey(city))
+}));
+
 export const saveShapefileData = async (geoJson: any, onProgress?: (percent: number, msg: string) => void): Promise<void> => {
   if (!geoJson || !geoJson.features) throw new Error("Datos GeoJSON inválidos");
+  // Refuse planar coordinates before clearing the current zones
+  assertGeographicCoordinates(geoJson);
   const db = await openDB();
   
   await new Promise<void>((resolve, reject) => {
@@ -839,6 +1086,7 @@ export const saveShapefileData = async (geoJson: any, onProgress?: (percent: num
               const deptoCode = findAttributeValue(props, ['DPTO_CCDGO', 'COD_DPTO', 'CODIGO_DEPARTAMENTO', 'COD_DEPTO', 'DEPTO_COD', 'DPTO_COD']);
               const deptoName = findAttributeValue(props, ['DPTO_CNMBR', 'NOM_DPTO', 'NOMBRE_DEPARTAMENTO', 'DEPARTAMENTO', 'NOM_DEPTO', 'DPTO_CNM', 'DEP_CNMBR', 'DEPARTAMENTO_NOMBRE', 'DPTO_NOMBRE']);
               const center = calculateCentroid(f.geometry);
+              const label = calculateLabelPoint(f.geometry);
               const bbox = calculateBBox(f.geometry);
               const zone: PostalZone = {
                   id: `feat-${j}`,
@@ -851,16 +1099,35 @@ export const saveShapefileData = async (geoJson: any, onProgress?: (percent: num
                   geometry: f.geometry,
                   bbox: bbox,
                   centerLat: center.lat,
-                  centerLon: center.lon
+                  centerLon: center.lon,
+                  labelLat: label.lat,
+                  labelLon: label.lon,
+                  geometryLod: buildGeometryLods(f.geometry)
               };
               store.put(zone);
           }
       });
       if (onProgress) { onProgress(Math.round((end / total) * 100), `Procesando zona ${end}/${total}...`); await new Promise(r => setTimeout(r, 0)); }
   }
+  // Rebuild in-memory zone indexes (including the R-tree) from the freshly stored zones
+  invalidateZonesWarmCache();
+  await ensureZonesWarmCache();
   if (onProgress) onProgress(100, 'Completado');
 };
 
+// Neighbouring zones of the same municipality separated by up to this distance are reported as gaps
+const DEFAULT_TOPOLOGY_MAX_GAP_M = 25;
+const getTopologyMaxGapMeters = (): number => {
+  const raw = parseFloat(String(((import.meta as any).env.VITE_TOPOLOGY_MAX_GAP_M ?? '')));
+  return !isNaN(raw) && raw > 0 ? raw : DEFAULT_TOPOLOGY_MAX_GAP_M;
+};
+
+// Topology report over the zones currently stored (overlaps, gaps, self-intersections, empty geometries, duplicated CPs)
+export const validateZonesTopology = async (onProgress?: (percent: number, msg: string) => void): Promise<TopologyIssue[]> => {
+  const zones = await getAllPostalZones();
+  return findTopologyIssues(zones, { toleranceM: getBoundaryToleranceMeters(), maxGapM: getTopologyMaxGapMeters() }, onProgress);
+};
+
 export const syncZonesToSupabase = async (geoJson: any, onProgress?: (percent: number, msg: string) => void): Promise<{ inserted: number, total: number }> => {
   const table = (import.meta.env.VITE_SUPABASE_ZONES_TABLE as string) || 'postal_zones';
   const features = geoJson?.features || [];
@@ -942,164 +1209,265 @@ export const getPaginatedPostalDatabase = async (page: number = 1, limit: number
   =============================================================================
 */
 
-// Fetch Location with Caching and Retry Logic
-const fetchAddressLocation = async (address: string, city: string, department?: string, retryCount: number = 0, simplification: number = 0, recipient?: string): Promise<{ lat: number, lon: number } | null> => {
-    if (!address || !address.trim()) return null;
-    
-    // NORMALIZE ADDRESS BEFORE SEARCHING
+// Destination query for the shared geocoder chain (see geocoders.ts)
+const buildGeocodeQuery = (address: string, city: string, department?: string, recipient?: string): GeocodeQuery => {
     const cleanAddress = normalizeAddressForGeocoding(address);
     const normCity = normalizeStr(city);
     const strictCity = normCity.includes('bogota') ? 'Bogotá' : city.trim();
     const departmentStrict = department && department.trim() ? department.trim() : (normCity.includes('bogota') ? 'Bogotá D.C.' : '');
-    const primaryAddress = stripExtraneousAddressParts(cleanAddress, strictCity);
-    let locationString = `${primaryAddress}, ${strictCity}${departmentStrict ? `, ${departmentStrict}` : ''}`;
-    if (recipient && recipient.trim()) locationString += `, ${recipient.trim()}`;
-    const fullQuery = `${locationString}, Colombia`;
-    const key = `loc_search_${fullQuery.toLowerCase()}`;
+    return {
+        address,
+        street: stripExtraneousAddressParts(cleanAddress, strictCity),
+        city: strictCity,
+        department: departmentStrict,
+        recipient: recipient && recipient.trim() ? recipient.trim() : undefined,
+        simplification: 0
+    };
+};
 
-    // 1. Check Persisted Cache first
-    const cached = await getCachedLocation(key);
-    if (cached !== undefined) {
-        if (cached === null) {
-            // Negative cache - was already tried and failed
-            // Try simpler version if available
-            if (simplification === 0) {
-                return fetchAddressLocation(address, city, department, retryCount, 1);
-            }
-            return null;
-        }
-        return cached;
-    }
+const STREET_ONLY_RE = /^(Calle|Carrera|Diagonal|Transversal|Avenida|Circular|Autopista|Avenida Calle|Avenida Carrera)\s+[^,]+/i;
+
+// Fetch Location with Caching. Runs the 'point' providers of the geocoder chain with progressively
+// simpler queries (full address → street only → city only) until one answers.
+const fetchAddressLocation = async (address: string, city: string, department?: string, recipient?: string, fromSimplification: number = 0, signal?: AbortSignal): Promise<GeocodedPoint | null> => {
+    if (!address || !address.trim()) return null;
+
+    const query = { ...buildGeocodeQuery(address, city, department, recipient), signal };
+    const key = `loc_search_${fromSimplification > 0 ? `s${fromSimplification}_` : ''}${buildGeocodeQueryText(query).toLowerCase()}`;
 
-    let result: { lat: number, lon: number } | null = null;
+    // 1. Check Persisted Cache first (null = negative cache, already tried and failed)
+    const cached = await getCachedLocation(key);
+    if (cached !== undefined) return cached;
 
-    if (!result) {
-        const g = await geocodeWithGoogleMaps(fullQuery, strictCity, departmentStrict);
-        if (g) {
-            result = g;
-            console.log(`[GEOCODE] Google Maps SUCCESS: "${address}"`);
+    for (let simplification = fromSimplification; simplification <= 2; simplification++) {
+        const street = simplification === 1 ? (query.street.match(STREET_ONLY_RE)?.[0]?.trim() || query.street) : query.street;
+        const hit = await runGeocoderChain('point', { ...query, street, simplification });
+        if (hit && typeof hit.lat === 'number' && typeof hit.lon === 'number') {
+            const result: GeocodedPoint = { lat: hit.lat, lon: hit.lon, provider: hit.provider, confidence: hit.confidence, simplification };
             await saveCachedLocation(key, result);
             return result;
         }
+        if (simplification < 2) console.log(`[GEOCODE] Trying simplification ${simplification + 1} for "${address}"`);
     }
 
-    if (!result) {
+    // Cache negative result to avoid trying again (a stopped run proves nothing)
+    if (!signal?.aborted) await saveCachedLocation(key, null);
+    return null;
+};
+
+export const findZoneByPoint = (lat: number, lon: number, zones: PostalZone[], toleranceM: number = getBoundaryToleranceMeters()): PostalZone | undefined => {
+    const candidates = getZoneCandidatesAtPoint(lat, lon, zones, toleranceM);
+    return pickZoneAtPoint(lon, lat, candidates, toleranceM);
+};
+
+// Closest zone edge within `bufferM` meters for points that fell outside every polygon
+export const findNearestZoneWithin = (lat: number, lon: number, zones: PostalZone[], bufferM: number = getNearestZoneBufferMeters()): { zone: PostalZone, distanceM: number } | null => {
+    if (bufferM <= 0) return null;
+    const candidates = getZoneCandidatesAtPoint(lat, lon, zones, bufferM);
+    return findNearestZone(lon, lat, candidates, bufferM);
+};
+
+// Zones bordering `zone` (shared edge, or a gap narrower than the topology gap threshold), sorted by CP
+export const findNeighborZones = (zone: PostalZone, zones: PostalZone[]): PostalZone[] => {
+    if (!zone.bbox) return [];
+    const gapM = getTopologyMaxGapMeters();
+    const [minLon, minLat, maxLon, maxLat] = zone.bbox;
+    const { dLat, dLon } = metersToDegrees((minLat + maxLat) / 2, gapM);
+    return getSpatialIndexFor(zones).search([minLon - dLon, minLat - dLat, maxLon + dLon, maxLat + dLat])
+        .filter(z => z.id !== zone.id && zonesShareBorder(zone, z, gapM))
+        .sort((a, b) => String(a.codigo_postal).localeCompare(String(b.codigo_postal)));
+};
+
+/*
+  Zone for a geocoded point: the containing zone (distance 0) or the nearest one within bufferM.
+  Runs on the worker pool when it is up, otherwise on the main thread with the same rules.
+*/
+export const locateZoneForPoint = async (lat: number, lon: number, zones: PostalZone[], bufferM: number = getNearestZoneBufferMeters()): Promise<{ zone: PostalZone, distanceM: number } | null> => {
+    const toleranceM = getBoundaryToleranceMeters();
+    if (zoneMatcherPool && zones.length > 0) {
         try {
-            // Progressive simplification strategy for Nominatim
-            let searchQuery = fullQuery;
-            if (simplification === 1) {
-                const m = cleanAddress.match(/^(Calle|Carrera|Diagonal|Transversal|Avenida|Circular|Autopista|Avenida Calle|Avenida Carrera)\s+[^,]+/i);
-                const streetOnly = m ? m[0].trim() : cleanAddress;
-                searchQuery = `${streetOnly}, ${strictCity}${departmentStrict ? `, ${departmentStrict}` : ''}, Colombia`;
-            } else if (simplification === 2) {
-                searchQuery = `${strictCity}${departmentStrict ? `, ${departmentStrict}` : ''}, Colombia`;
-            }
-            
-            const delayMs = retryCount > 0 ? 5000 + (retryCount * 2000) : 2000;
-            
-            const encodedQuery = encodeURIComponent(searchQuery);
-            const isBogota = normalizeStr(strictCity).includes('bogota');
-            const bogotaViewbox = '-74.25,4.85,-73.95,4.45'; // lonW,latN,lonE,latS approx
-            const baseUrlQ = `https://nominatim.openstreetmap.org/search?q=${encodedQuery}&format=json&limit=1&timeout=10&countrycodes=co`;
-            const streetParamBase = (simplification === 1) ? (primaryAddress.match(/^(Calle|Carrera|Diagonal|Transversal|Avenida|Circular|Autopista|Avenida Calle|Avenida Carrera)\s+[^,]+/i)?.[0]?.trim() || primaryAddress) : primaryAddress;
-            const streetParam = stripExtraneousAddressParts(streetParamBase, strictCity);
-            const baseUrlStructured = `https://nominatim.openstreetmap.org/search?street=${encodeURIComponent(streetParam)}&city=${encodeURIComponent(strictCity)}${departmentStrict ? `&state=${encodeURIComponent(departmentStrict)}` : ''}&country=Colombia&format=json&limit=1&timeout=10&countrycodes=co`;
-            const baseUrl = departmentStrict ? baseUrlStructured : baseUrlQ;
-            const url = isBogota ? `${baseUrl}&viewbox=${bogotaViewbox}&bounded=1` : baseUrl;
-            const response = await fetch(
-                url,
-                {
-                    headers: {
-                        'User-Agent': 'ColPostalValidator/1.0 (batch-processing)',
-                        'Accept-Language': 'es'
-                    },
-                    signal: AbortSignal.timeout(10000) // 10 second timeout
-                }
-            );
-            
-            if (response.ok) {
-                const results = await response.json();
-                if (results && results.length > 0) {
-                    const first = results[0];
-                    const minImp = simplification === 0 ? 0.7 : 0.5;
-                    if (first.importance && first.importance >= minImp) {
-                        result = {
-                            lat: parseFloat(first.lat),
-                            lon: parseFloat(first.lon)
-                        };
-                        console.log(`[GEOCODE] Nominatim SUCCESS (simp=${simplification}): "${address}" → ${result.lat}, ${result.lon}`);
-                        await saveCachedLocation(key, result);
-                        return result;
-                    } else if (simplification < 2) {
-                        // Try simpler version
-                        console.warn(`[GEOCODE] Nominatim LOW CONFIDENCE (simp=${simplification}), trying simpler...`);
-                        return fetchAddressLocation(address, city, department, retryCount, simplification + 1);
-                    }
-                }
-            } else if (response.status === 429) {
-                // Rate limited - retry with exponential backoff
-                if (retryCount < 5) {
-                    const base = 1000;
-                    const delay = base * Math.pow(2, retryCount); // 1s, 2s, 4s, 8s, 16s
-                    console.warn(`[GEOCODE] Nominatim 429, intento ${retryCount + 1}, esperando ${delay}ms`);
-                    await sleep(delay);
-                    return fetchAddressLocation(address, city, department, retryCount + 1, simplification);
-                }
-            }
-        } catch (e: any) {
-            const msg = e.message?.toLowerCase() || '';
-            if (msg.includes('abort') || msg.includes('timeout')) {
-                console.warn(`[GEOCODE] Nominatim timeout for "${address}"`);
-            } else {
-                console.warn(`[GEOCODE] Nominatim error for "${address}":`, e.message);
-            }
+            const zoneIds = zones === zonesMemCache ? undefined : zones.map(z => z.id);
+            const m = await zoneMatcherPool.match(lat, lon, { toleranceM, bufferM, zoneIds });
+            if (!m) return null;
+            const zone = zonesByIdIndex.get(m.zoneId);
+            if (zone) return { zone, distanceM: m.distanceM };
+        } catch (err) {
+            console.warn('[ZONE WORKERS] Match failed, falling back to main thread', err);
         }
     }
+    const match = findZoneByPoint(lat, lon, zones, toleranceM);
+    if (match) return { zone: match, distanceM: 0 };
+    return findNearestZoneWithin(lat, lon, zones, bufferM);
+};
 
-    if (!result) {
-        const g = await geocodeWithGoogleMaps(fullQuery);
-        if (g) {
-            await saveCachedLocation(key, g);
-            return g;
+interface ResolvedAddress {
+    postalCode: string;
+    coords: string;
+    localidad?: string;
+    direccion_google?: string;
+    locationName?: string;
+    distanceToZoneM?: number; // Distance from the geocoded point to the assigned/nearest zone edge (0 = inside)
+    consensus?: ConsensusReport;
+    provenance?: ResolutionProvenance;
+    crossCheck?: PostalCrossCheck;
+}
+
+const PRECISION_BY_SIMPLIFICATION: GeocodePrecision[] = ['DIRECCION', 'VIA', 'MUNICIPIO'];
+const PRECISION_WEIGHT: Record<GeocodePrecision, number> = { DIRECCION: 1, VIA: 0.7, MUNICIPIO: 0.4, CENTROIDE_ZONA: 0.3, NINGUNA: 0 };
+// Stand-in for the provider's confidence on points cached before it was recorded
+const UNKNOWN_GEOCODE_CONFIDENCE = 0.6;
+// Fixed confidences for CPs that do not come from a geocoded point
+const DANE_SINGLE_CP_CONFIDENCE = 0.9;
+const DANE_SELECTED_CP_CONFIDENCE = 0.5;
+const MUNICIPAL_FALLBACK_CONFIDENCE = 0.2;
+
+/*
+  Provenance of a resolved row. For CPs derived from a geocoded point the confidence is the
+  provider's confidence times the weight of the point's precision, lowered for nearest-zone
+  assignments (by distance) and localidad overrides. Rows without a 6-digit CP are SIN_RESOLVER.
+*/
+const buildProvenance = (
+    postalCode: string,
+    strategy: ResolutionStrategy,
+    point: GeocodedPoint | null,
+    opts: { coordsFromZone?: boolean, distanceToZoneM?: number, confidence?: number } = {}
+): ResolutionProvenance => {
+    const pointPrecision: GeocodePrecision = point ? PRECISION_BY_SIMPLIFICATION[point.simplification ?? 0] || 'MUNICIPIO' : 'NINGUNA';
+    const precision: GeocodePrecision = opts.coordsFromZone ? 'CENTROIDE_ZONA' : pointPrecision;
+    const fromPoint = strategy === 'POLIGONO' || strategy === 'ZONA_CERCANA' || strategy === 'LOCALIDAD' || strategy === 'PROVEEDOR_POSTAL';
+    const proveedor = fromPoint ? point?.provider : undefined;
+    if (!/^\d{6}$/.test(postalCode)) {
+        return { estrategia: 'SIN_RESOLVER', ...(point?.provider ? { proveedor: point.provider } : {}), precision, confianza: 0 };
+    }
+    const pointConfidence = (point?.confidence ?? UNKNOWN_GEOCODE_CONFIDENCE) * PRECISION_WEIGHT[pointPrecision];
+    let confianza = 0;
+    switch (strategy) {
+        case 'PROVEEDOR_POSTAL': confianza = opts.confidence ?? point?.confidence ?? UNKNOWN_GEOCODE_CONFIDENCE; break;
+        case 'INDICE_DANE': confianza = opts.confidence ?? DANE_SELECTED_CP_CONFIDENCE; break;
+        case 'POLIGONO': confianza = pointConfidence; break;
+        case 'ZONA_CERCANA': {
+            const bufferM = getNearestZoneBufferMeters();
+            const ratio = bufferM > 0 ? Math.min(1, (opts.distanceToZoneM ?? 0) / bufferM) : 1;
+            confianza = pointConfidence * (1 - 0.5 * ratio);
+            break;
         }
+        case 'LOCALIDAD': confianza = pointConfidence * 0.8; break;
+        case 'RESPALDO_MUNICIPAL': confianza = MUNICIPAL_FALLBACK_CONFIDENCE; break;
     }
+    return {
+        estrategia: strategy,
+        ...(proveedor ? { proveedor } : {}),
+        precision,
+        confianza: Math.round(Math.max(0, Math.min(1, confianza)) * 100) / 100
+    };
+};
 
-    // Cache result (including null) to avoid repeated failures
-    if (result && typeof result.lat === 'number' && typeof result.lon === 'number') {
-        await saveCachedLocation(key, result);
-        return result;
-    } else {
-        // Try progressively simpler queries
-        if (simplification < 2) {
-            console.log(`[GEOCODE] Trying simplification ${simplification + 1} for "${address}"`);
-            return fetchAddressLocation(address, city, department, retryCount, simplification + 1);
+const postalProviderProvenance = (value: OfficialCacheValue): ResolutionProvenance => {
+    const [lat, lon] = value.coords ? value.coords.split(',').map(v => parseFloat(v)) : [NaN, NaN];
+    const point: GeocodedPoint | null = isFinite(lat) && isFinite(lon) ? { lat, lon, provider: value.provider, confidence: value.confidence } : null;
+    const provenance = buildProvenance(value.postalCode, 'PROVEEDOR_POSTAL', point, { confidence: value.confidence });
+    const withProvider = point || !value.provider ? provenance : { ...provenance, proveedor: value.provider };
+    return value.verdict ? { ...withProvider, veredicto: value.verdict } : withProvider;
+};
+
+interface PostalProviderOutcome {
+    resolved: ResolvedAddress | null;
+    rejectedVerdict?: AddressValidationVerdict; // Verdict of an Address Validation answer below its minConfidence
+}
+
+// Runs the 'postal' stage of the geocoder chain, memoized per destination in the 472 cache
+// (null = every provider answered "not found", { rejectedVerdict } = the same after an Address
+// Validation answer below minConfidence; misses caused by provider errors are not cached)
+const resolvePostalFromProviders = async (address: string, city: string, department: string, signal?: AbortSignal): Promise<PostalProviderOutcome> => {
+    if (!address || getGeocoderChain('postal').length === 0) return { resolved: null };
+    const cacheKey = buildAddressCacheKey(address, city, department);
+    const cached = await getCachedOfficial(cacheKey);
+    // Address Validation CPs cached before verdicts were scored are looked up again
+    const staleGoogle = !!cached && 'postalCode' in cached && cached.provider === 'google_validation' && !cached.verdict;
+    if (cached !== undefined && !staleGoogle) {
+        if (!cached) return { resolved: null };
+        if (!('postalCode' in cached)) return { resolved: null, rejectedVerdict: cached.rejectedVerdict };
+        return {
+            resolved: {
+                postalCode: cached.postalCode,
+                coords: cached.coords,
+                direccion_google: cached.formattedAddress || address,
+                locationName: cached.locationName || city,
+                localidad: cached.locationName,
+                provenance: postalProviderProvenance(cached)
+            }
+        };
+    }
+    const { result: hit, failed, rejected } = await runGeocoderChainDetailed('postal', { ...buildGeocodeQuery(address, city, department), signal });
+    if (!hit || !hit.postalCode) {
+        const rejectedVerdict = rejected.find(r => r.verdict)?.verdict;
+        if (failed.length === 0) await saveCachedOfficial(cacheKey, rejectedVerdict ? { rejectedVerdict } : null);
+        return { resolved: null, ...(rejectedVerdict ? { rejectedVerdict } : {}) };
+    }
+    const coords = typeof hit.lat === 'number' && typeof hit.lon === 'number' ? `${hit.lat}, ${hit.lon}` : '';
+    const value: OfficialCacheValue = { postalCode: hit.postalCode, coords, formattedAddress: hit.formattedAddress, locationName: hit.locationName, provider: hit.provider, confidence: hit.confidence, ...(hit.verdict ? { verdict: hit.verdict } : {}) };
+    await saveCachedOfficial(cacheKey, value);
+    console.log(`[GEOCODER] ${hit.provider} CP ${hit.postalCode} for "${address}"`);
+    return {
+        resolved: {
+            postalCode: hit.postalCode,
+            coords,
+            localidad: hit.locationName,
+            direccion_google: hit.formattedAddress || address,
+            locationName: hit.locationName || city,
+            provenance: postalProviderProvenance(value)
         }
-        
-        // Cache negative result to avoid trying again
-        await saveCachedLocation(key, null);
-        return null;
+    };
+};
+
+const toDane5 = (code: string): string => String(code || '').replace(/\D/g, '').padStart(5, '0').slice(-5);
+
+/*
+  Checks a CP returned by a 'postal' provider against our shapefile: the zone containing the
+  returned point (strict containment, no nearest-zone buffer) and the zones of the row's DANE.
+  The external CP is kept; a mismatch is only flagged so it can be reviewed.
+*/
+const crossCheckExternalPostal = async (resolved: ResolvedAddress, dane: string, db: PostalZone[]): Promise<PostalCrossCheck> => {
+    const cp = resolved.postalCode;
+    const [lat, lon] = resolved.coords ? resolved.coords.split(',').map(v => parseFloat(v)) : [NaN, NaN];
+    const match = isFinite(lat) && isFinite(lon) ? await locateZoneForPoint(lat, lon, db, 0) : null;
+    const polygonZone = match && match.distanceM === 0 ? match.zone : null;
+    const daneFila = dane && toDane5(dane) !== '00000' ? toDane5(dane) : '';
+    const daneZones = !daneFila ? [] : (zonesIndexReady ? getZonesByDane(daneFila) : db.filter(z => toDane5(z.codigo_municipio) === daneFila));
+
+    const cpPoligono = polygonZone ? String(polygonZone.codigo_postal) : undefined;
+    let estado: PostalCrossCheck['estado'] = 'COINCIDE';
+    if (cpPoligono && cpPoligono !== cp) estado = 'DIFIERE_POLIGONO';
+    else if (daneZones.length > 0 && !daneZones.some(z => String(z.codigo_postal) === cp)) estado = 'DIFIERE_DANE';
+    else if (!polygonZone && daneZones.length === 0) estado = 'SIN_REFERENCIA';
+
+    if (estado === 'DIFIERE_POLIGONO' || estado === 'DIFIERE_DANE') {
+        console.warn(`[CROSS-CHECK] ${resolved.provenance?.proveedor || 'provider'} CP ${cp} vs polygon ${cpPoligono ?? '-'} / DANE ${daneFila || '-'} (${estado})`);
     }
+    return {
+        estado,
+        cp_externo: cp,
+        ...(resolved.provenance?.proveedor ? { proveedor: resolved.provenance.proveedor } : {}),
+        ...(cpPoligono ? { cp_poligono: cpPoligono, dane_poligono: toDane5(polygonZone!.codigo_municipio) } : {}),
+        ...(daneFila ? { dane_fila: daneFila } : {})
+    };
 };
 
-export const findZoneByPoint = (lat: number, lon: number, zones: PostalZone[]): PostalZone | undefined => {
-    const candidates = zones.filter(z => {
-        const [minLon, minLat, maxLon, maxLat] = z.bbox;
-        return lon >= minLon && lon <= maxLon && lat >= minLat && lat <= maxLat;
-    });
-    return candidates.find(zone => isPointInFeature(lon, lat, zone));
-};
-
-const resolveSingleAddress = async (
-    row: { dane: string, city: string, department: string, address: string, recipient?: string }, 
-    db: PostalZone[], 
-    zonesByMuni?: Record<string, PostalZone[]>
-): Promise<{ 
-    postalCode: string, 
-    coords: string, 
-    localidad?: string,
-    direccion_google?: string,
-    locationName?: string 
-}> => {
+type AddressRow = { dane: string, city: string, department: string, address: string, recipient?: string, signal?: AbortSignal };
+
+const resolveSingleAddress = async (row: AddressRow, db: PostalZone[], zonesByMuni?: Record<string, PostalZone[]>): Promise<ResolvedAddress> => {
+    // Strategy 0: 'postal' providers of the geocoder chain (Google Address Validation, 472 API...)
+    const { resolved: fromProvider, rejectedVerdict } = await resolvePostalFromProviders(row.address, row.city, row.department, row.signal);
+    if (fromProvider) return { ...fromProvider, crossCheck: await crossCheckExternalPostal(fromProvider, row.dane, db) };
+    // A rejected answer is too coarse for a CP: look for the point's zone before the DANE index
+    const resolved = await resolveFromZones(row, db, zonesByMuni, !!rejectedVerdict);
+    // A rejected Address Validation answer still tells the reviewer how good the address was
+    return rejectedVerdict && resolved.provenance ? { ...resolved, provenance: { ...resolved.provenance, veredicto: rejectedVerdict } } : resolved;
+};
+
+// Strategies 1+: municipality/DANE zones, the DANE index, then the geocoded point against the zones
+// (with preferGeocoding, the point first and the DANE index as its fallback)
+const resolveFromZones = async (row: AddressRow, db: PostalZone[], zonesByMuni?: Record<string, PostalZone[]>, preferGeocoding = false): Promise<ResolvedAddress> => {
     
     let localZonesByMuni = zonesByMuni;
     if (!localZonesByMuni) {
@@ -1117,29 +1485,15 @@ const resolveSingleAddress = async (
     let foundLocalidad = "";
     let direccionGoogle = address; // Default to original address
     let locationName = city; // Default to original city
-
-    // Strategy 0: Try Google Address Validation API first if enabled
-    const googleResult = await validateAddressWithGoogle(address, city, department);
-    if (googleResult) {
-        foundPostalCode = googleResult.postalCode;
-        foundCoords = `${googleResult.lat}, ${googleResult.lon}`;
-        direccionGoogle = googleResult.formattedAddress;
-        locationName = googleResult.locationName;
-        foundLocalidad = googleResult.locationName; // Also set as localidad for internal use
-        
-        console.log(`[GOOGLE] Address validated: ${direccionGoogle}, CP: ${foundPostalCode}`);
-        return { 
-            postalCode: foundPostalCode, 
-            coords: foundCoords, 
-            localidad: foundLocalidad,
-            direccion_google: direccionGoogle,
-            locationName: locationName
-        };
-    }
+    let distanceToZoneM: number | undefined;
+    // Provenance: which step assigned the CP, the geocoded point it used and whether coords are a zone's interior point
+    let strategy: ResolutionStrategy = 'SIN_RESOLVER';
+    let point: GeocodedPoint | null = null;
+    let coordsFromZone = false;
 
     // Validate input
     if (!city && !address) {
-        return { postalCode: "DATOS_INCOMPLETOS", coords: "" };
+        return { postalCode: "DATOS_INCOMPLETOS", coords: "", provenance: buildProvenance("DATOS_INCOMPLETOS", 'SIN_RESOLVER', null) };
     }
 
     const cleanCityName = city.replace(/\(.*?\)/g, "").trim();
@@ -1201,7 +1555,7 @@ const resolveSingleAddress = async (
         const cityHasDane = cityCandidatesForCheck.some(z => String(z.codigo_municipio || '').replace(/\D/g, '').padStart(5, '0').slice(-5) === d5Check);
         if (daneCandidatesExist && !cityHasDane) {
             // ERROR: El DANE no corresponde al municipio indicado por la ciudad
-            return { postalCode: "ERROR_DANE_CIUDAD_NO_COINCIDEN", coords: "" };
+            return { postalCode: "ERROR_DANE_CIUDAD_NO_COINCIDEN", coords: "", provenance: buildProvenance("ERROR_DANE_CIUDAD_NO_COINCIDEN", 'SIN_RESOLVER', null) };
         }
     }
 
@@ -1231,34 +1585,36 @@ const resolveSingleAddress = async (
     const departmentParam = (department && department.trim()) ? department : (zonesToCheck[0]?.nombre_departamento || '');
     
     // LOOKUP DIRECTO POR DANE
-    if (dane && dane !== '00000') {
+    const lookupByDane = async (): Promise<ResolvedAddress | null> => {
+        if (!dane || dane === '00000') return null;
         const muniIndex = await getMunicipalIndexByDane(dane);
-        if (muniIndex?.preferred_postal) {
-            let selectedCP = muniIndex.preferred_postal;
-            if (address && muniIndex.entries.length > 1) {
-                const isRural = /vereda|rural|finca|km\s*\d/i.test(address);
-                const refined = muniIndex.entries.find(e =>
-                    isRural ? normalizeStr(e.tipo).includes('rural') : normalizeStr(e.tipo).includes('urb')
-                );
-                if (refined) selectedCP = refined.codigo_postal;
-            }
-            const zone = zonesToCheck.find(z => z.codigo_postal === selectedCP) || db.find(z => z.codigo_postal === selectedCP);
-            if (zone) {
-                const lat = zone.centerLat || calculateCentroid(zone.geometry).lat;
-                const lon = zone.centerLon || calculateCentroid(zone.geometry).lon;
-                foundCoords = `${lat}, ${lon}`;
-                foundLocalidad = zone.nombre_localidad || muniIndex.nombre_municipio;
-            }
-            foundPostalCode = selectedCP;
-            console.log(`[LOOKUP] DANE ${dane} → ${selectedCP}`);
-            return { 
-                postalCode: foundPostalCode, 
-                coords: foundCoords, 
-                localidad: foundLocalidad,
-                direccion_google: direccionGoogle,
-                locationName: locationName
-            };
+        if (!muniIndex?.preferred_postal) return null;
+        let selectedCP = muniIndex.preferred_postal;
+        if (address && muniIndex.entries.length > 1) {
+            const selection = selectMunicipalPostalCode(muniIndex, address);
+            selectedCP = selection.codigo_postal;
+            if (selection.rural) console.log(`[LOOKUP] Rural address "${address}" → ${selectedCP}`);
         }
+        const zone = zonesToCheck.find(z => z.codigo_postal === selectedCP) || db.find(z => z.codigo_postal === selectedCP);
+        console.log(`[LOOKUP] DANE ${dane} → ${selectedCP}`);
+        return { 
+            postalCode: selectedCP, 
+            coords: zone ? formatZoneFallbackCoords(zone) : "", 
+            localidad: zone ? (zone.nombre_localidad || muniIndex.nombre_municipio) : "",
+            direccion_google: direccionGoogle,
+            locationName: locationName,
+            provenance: buildProvenance(selectedCP, 'INDICE_DANE', null, {
+                coordsFromZone: !!zone,
+                confidence: muniIndex.entries.length > 1 ? DANE_SELECTED_CP_CONFIDENCE : DANE_SINGLE_CP_CONFIDENCE
+            })
+        };
+    };
+    // The DANE index answers first unless the point is wanted before it (a rejected postal
+    // answer); then it is only the fallback of a point that matched no zone
+    const geocodeFirst = preferGeocoding && !!address && zonesToCheck.length > 0;
+    if (!geocodeFirst) {
+        const byDane = await lookupByDane();
+        if (byDane) return byDane;
     }
 
     // If still no candidates found, log warning
@@ -1268,88 +1624,96 @@ const resolveSingleAddress = async (
             postalCode: "MUNICIPIO_SIN_ZONAS", 
             coords: "",
             direccion_google: direccionGoogle,
-            locationName: locationName
+            locationName: locationName,
+            provenance: buildProvenance("MUNICIPIO_SIN_ZONAS", 'SIN_RESOLVER', null)
         };
     }
     
     // Strategy 3: Geocode address and match against zones
     if (address && zonesToCheck.length > 0) {
         try {
-            const loc = await fetchAddressLocation(address, strictCityName, departmentParam, 0, 0, row.recipient);
+            const loc = await fetchAddressLocation(address, strictCityName, departmentParam, row.recipient, 0, row.signal);
             
             if (loc) {
                 foundCoords = `${loc.lat}, ${loc.lon}`;
+                point = loc;
                 console.log(`[DEBUG] Geocoded "${address}, ${city}" to ${foundCoords}`);
                 
-                // Try to find zone containing this point using bbox prefilter
-                const bboxPrefilter = zonesToCheck.filter(z => {
-                    const [minLon, minLat, maxLon, maxLat] = z.bbox;
-                    return loc.lon >= minLon && loc.lon <= maxLon && loc.lat >= minLat && loc.lat <= maxLat;
-                });
-                const match = bboxPrefilter.find(zone => isPointInFeature(loc.lon, loc.lat, zone));
-                
+                // Containing zone (or nearest within the buffer), via the worker pool when available
+                const located = await locateZoneForPoint(loc.lat, loc.lon, zonesToCheck);
+                const match = located && located.distanceM === 0 ? located.zone : null;
+                const nearest = match ? null : located;
                 if (match) {
                     foundPostalCode = match.codigo_postal;
                     if (match.nombre_localidad) foundLocalidad = match.nombre_localidad;
+                    distanceToZoneM = 0;
+                    strategy = 'POLIGONO';
                     console.log(`[DEBUG] Point matched to postal code: ${foundPostalCode}`);
+                } else if (nearest) {
+                    // Geocoders often snap to the street axis just outside the polygon; take the closest zone within the buffer
+                    foundPostalCode = nearest.zone.codigo_postal;
+                    if (nearest.zone.nombre_localidad) foundLocalidad = nearest.zone.nombre_localidad;
+                    distanceToZoneM = Math.round(nearest.distanceM);
+                    strategy = 'ZONA_CERCANA';
+                    console.log(`[DEBUG] Point ${distanceToZoneM}m outside nearest zone, assigned ${foundPostalCode}`);
                 } else {
                     console.warn(`[DEBUG] Geocoded point (${foundCoords}) is outside all polygons for ${city}`);
-                    const loc2 = await fetchAddressLocation(address, strictCityName, departmentParam, 0, 1, row.recipient);
+                    const loc2 = await fetchAddressLocation(address, strictCityName, departmentParam, row.recipient, 1, row.signal);
                     if (loc2) {
-                        const match2 = zonesToCheck.find(zone => isPointInFeature(loc2.lon, loc2.lat, zone));
-                        if (match2) {
-                            foundPostalCode = match2.codigo_postal;
-                            if (match2.nombre_localidad) foundLocalidad = match2.nombre_localidad;
+                        const located2 = await locateZoneForPoint(loc2.lat, loc2.lon, zonesToCheck);
+                        if (located2) {
+                            const zone2 = located2.zone;
+                            foundPostalCode = zone2.codigo_postal;
+                            if (zone2.nombre_localidad) foundLocalidad = zone2.nombre_localidad;
                             foundCoords = `${loc2.lat}, ${loc2.lon}`;
+                            distanceToZoneM = Math.round(located2.distanceM);
+                            point = loc2;
+                            strategy = distanceToZoneM === 0 ? 'POLIGONO' : 'ZONA_CERCANA';
                         } else {
                             foundPostalCode = "REVISAR_DIRECCION";
                         }
                     } else {
                         foundPostalCode = "REVISAR_DIRECCION";
                     }
+                    // Keep how far the point landed from any zone so the row can be audited
+                    if (foundPostalCode === "REVISAR_DIRECCION") {
+                        const farthest = await locateZoneForPoint(loc.lat, loc.lon, zonesToCheck, Infinity);
+                        if (farthest) distanceToZoneM = Math.round(farthest.distanceM);
+                    }
                     // Fallback to municipal index by DANE or city name
                     if (foundPostalCode === "REVISAR_DIRECCION") {
                         const idx = row.dane ? await getMunicipalIndexByDane(row.dane) : null;
                         if (idx && idx.preferred_postal) {
                             foundPostalCode = idx.preferred_postal;
+                            strategy = 'RESPALDO_MUNICIPAL';
                             const zc = zonesToCheck.find(z => z.codigo_postal === foundPostalCode) || db.find(z => z.codigo_postal === foundPostalCode);
                             if (zc) {
-                                const cl = zc.centerLat;
-                                const cn = zc.centerLon;
-                                if (typeof cl === 'number' && typeof cn === 'number') {
-                                    foundCoords = `${cl}, ${cn}`;
-                                } else {
-                                    const ct = calculateCentroid(zc.geometry);
-                                    foundCoords = `${ct.lat}, ${ct.lon}`;
-                                }
+                                foundCoords = formatZoneFallbackCoords(zc);
+                                coordsFromZone = true;
                             }
                         } else {
                             const idx2 = await getMunicipalIndexByCityName(strictCityName);
                             if (idx2 && idx2.preferred_postal) {
                                 foundPostalCode = idx2.preferred_postal;
+                                strategy = 'RESPALDO_MUNICIPAL';
                                 const zc2 = zonesToCheck.find(z => z.codigo_postal === foundPostalCode) || db.find(z => z.codigo_postal === foundPostalCode);
                                 if (zc2) {
-                                    const cl2 = zc2.centerLat;
-                                    const cn2 = zc2.centerLon;
-                                    if (typeof cl2 === 'number' && typeof cn2 === 'number') {
-                                        foundCoords = `${cl2}, ${cn2}`;
-                                    } else {
-                                        const ct2 = calculateCentroid(zc2.geometry);
-                                        foundCoords = `${ct2.lat}, ${ct2.lon}`;
-                                    }
+                                    foundCoords = formatZoneFallbackCoords(zc2);
+                                    coordsFromZone = true;
                                 }
                             }
                         }
                     }
                 }
                 if (!foundLocalidad) {
-                    const locName = await reverseGeocodeLocalidad(loc.lat, loc.lon);
+                    const locName = await reverseGeocodeLocality(loc.lat, loc.lon, row.signal);
                     if (locName) foundLocalidad = locName;
                 }
                 if (foundLocalidad) {
                     const normLoc = normalizeStr(foundLocalidad);
                     const byLoc = zonesToCheck.find(z => normalizeStr(z.nombre_localidad || '') === normLoc);
                     if (byLoc) {
+                        if (byLoc.codigo_postal !== foundPostalCode) strategy = 'LOCALIDAD';
                         foundPostalCode = byLoc.codigo_postal;
                     }
                 }
@@ -1358,55 +1722,26 @@ const resolveSingleAddress = async (
                 // Fallback: do NOT infer from municipality centroid; require precise geocoding
                 foundPostalCode = "DIR_NO_ENCONTRADA";
 
-                // Consistency retry: if still DIR_NO_ENCONTRADA, try strict re-geocode and re-match
-                if (foundPostalCode === "DIR_NO_ENCONTRADA") {
-                    const retryLoc = await fetchAddressLocation(address, strictCityName, departmentParam, 1, 0, row.recipient);
-                    if (retryLoc) {
-                        foundCoords = `${retryLoc.lat}, ${retryLoc.lon}`;
-                        const match2 = zonesToCheck.find(zone => isPointInFeature(retryLoc.lon, retryLoc.lat, zone));
-                        if (match2) {
-                            foundPostalCode = match2.codigo_postal;
-                            if (match2.nombre_localidad) foundLocalidad = match2.nombre_localidad;
-                        } else {
-                            const locName2 = await reverseGeocodeLocalidad(retryLoc.lat, retryLoc.lon);
-                            if (locName2) {
-                                foundLocalidad = locName2;
-                                const byLoc2 = zonesToCheck.find(z => normalizeStr(z.nombre_localidad || '') === normalizeStr(locName2));
-                                if (byLoc2) foundPostalCode = byLoc2.codigo_postal;
-                            }
-                        }
-                    }
-                }
                 // If still unresolved, assign by municipal index
                 if (!foundPostalCode || foundPostalCode.includes('DIR_NO_ENCONTRADA') || foundPostalCode.includes('REVISAR_DIRECCION')) {
                     const idx = row.dane ? await getMunicipalIndexByDane(row.dane) : null;
                     if (idx && idx.preferred_postal) {
                         foundPostalCode = idx.preferred_postal;
+                        strategy = 'RESPALDO_MUNICIPAL';
                         const zf = zonesToCheck.find(z => z.codigo_postal === foundPostalCode) || db.find(z => z.codigo_postal === foundPostalCode);
                         if (zf) {
-                            const cl3 = zf.centerLat;
-                            const cn3 = zf.centerLon;
-                            if (typeof cl3 === 'number' && typeof cn3 === 'number') {
-                                foundCoords = `${cl3}, ${cn3}`;
-                            } else {
-                                const ct3 = calculateCentroid(zf.geometry);
-                                foundCoords = `${ct3.lat}, ${ct3.lon}`;
-                            }
+                            foundCoords = formatZoneFallbackCoords(zf);
+                            coordsFromZone = true;
                         }
                     } else {
                         const idx2 = await getMunicipalIndexByCityName(strictCityName);
                         if (idx2 && idx2.preferred_postal) {
                             foundPostalCode = idx2.preferred_postal;
+                            strategy = 'RESPALDO_MUNICIPAL';
                             const zf2 = zonesToCheck.find(z => z.codigo_postal === foundPostalCode) || db.find(z => z.codigo_postal === foundPostalCode);
                             if (zf2) {
-                                const cl4 = zf2.centerLat;
-                                const cn4 = zf2.centerLon;
-                                if (typeof cl4 === 'number' && typeof cn4 === 'number') {
-                                    foundCoords = `${cl4}, ${cn4}`;
-                                } else {
-                                    const ct4 = calculateCentroid(zf2.geometry);
-                                    foundCoords = `${ct4.lat}, ${ct4.lon}`;
-                                }
+                                foundCoords = formatZoneFallbackCoords(zf2);
+                                coordsFromZone = true;
                             }
                         }
                     }
@@ -1429,14 +1764,18 @@ const resolveSingleAddress = async (
         console.warn(`[DEBUG] No address provided for ${city}`);
     }
 
+    if (geocodeFirst && strategy !== 'POLIGONO' && strategy !== 'ZONA_CERCANA' && strategy !== 'LOCALIDAD') {
+        const byDane = await lookupByDane();
+        if (byDane) return byDane;
+    }
+
     // MEJORA: si hay código postal válido pero coordenadas vacías, asignar centroide de la zona
     if ((!foundCoords || !foundCoords.trim()) && foundPostalCode && foundPostalCode.length <= 6 &&
         !foundPostalCode.includes('ERROR') && !foundPostalCode.includes('NO_') && !foundPostalCode.includes('SIN_')) {
         const zoneByCP = zonesToCheck.find(z => z.codigo_postal === foundPostalCode) || db.find(z => z.codigo_postal === foundPostalCode);
         if (zoneByCP) {
-            const latFinal = typeof zoneByCP.centerLat === 'number' ? zoneByCP.centerLat : calculateCentroid(zoneByCP.geometry).lat;
-            const lonFinal = typeof zoneByCP.centerLon === 'number' ? zoneByCP.centerLon : calculateCentroid(zoneByCP.geometry).lon;
-            foundCoords = `${latFinal}, ${lonFinal}`;
+            foundCoords = formatZoneFallbackCoords(zoneByCP);
+            coordsFromZone = true;
         }
     }
 
@@ -1452,11 +1791,11 @@ const resolveSingleAddress = async (
         }
         if (restored) {
             foundPostalCode = String(restored);
+            strategy = 'RESPALDO_MUNICIPAL';
             const zf = zonesToCheck.find(z => z.codigo_postal === foundPostalCode) || db.find(z => z.codigo_postal === foundPostalCode);
             if ((!foundCoords || !foundCoords.trim()) && zf) {
-                const latF = typeof zf.centerLat === 'number' ? zf.centerLat : calculateCentroid(zf.geometry).lat;
-                const lonF = typeof zf.centerLon === 'number' ? zf.centerLon : calculateCentroid(zf.geometry).lon;
-                foundCoords = `${latF}, ${lonF}`;
+                foundCoords = formatZoneFallbackCoords(zf);
+                coordsFromZone = true;
             }
         }
     }
@@ -1472,22 +1811,158 @@ const resolveSingleAddress = async (
         coords: foundCoords, 
         localidad: foundLocalidad || undefined,
         direccion_google: direccionGoogle,
-        locationName: locationName
+        locationName: locationName,
+        distanceToZoneM,
+        provenance: buildProvenance(foundPostalCode, strategy, point, { coordsFromZone, distanceToZoneM })
+    };
+};
+
+/*
+  Consensus mode: asks every enabled provider for the same destination and runs each
+  point through the zone lookup (all zones, so a point in another municipality also
+  counts as a different CP). Postal providers contribute the CP they returned. The CP
+  already assigned to the row is the reference: a provider pointing elsewhere is a
+  disagreement even when the providers agree among themselves.
+*/
+const buildConsensusReport = async (
+    row: { city: string, department: string, address: string, recipient?: string, signal?: AbortSignal },
+    db: PostalZone[],
+    resolved: ResolvedAddress
+): Promise<ConsensusReport | null> => {
+    if (!row.address || !row.address.trim()) return null;
+    const cleanCity = row.city.replace(/\(.*?\)/g, "").trim();
+    const strictCity = normalizeStr(cleanCity).includes('bogota') ? 'Bogotá' : cleanCity;
+    const hits = await runGeocoderConsensus(
+        { ...buildGeocodeQuery(row.address, strictCity, row.department, row.recipient), signal: row.signal },
+        resolvedProviderAnswer(resolved)
+    );
+
+    const candidatos: ConsensusCandidate[] = [];
+    for (const hit of hits) {
+        const hasPoint = typeof hit.lat === 'number' && typeof hit.lon === 'number';
+        let codigo_postal = hit.postalCode || null;
+        if (!codigo_postal && hasPoint) {
+            const located = await locateZoneForPoint(hit.lat!, hit.lon!, db);
+            codigo_postal = located ? located.zone.codigo_postal : null;
+        }
+        candidatos.push({ proveedor: hit.provider, codigo_postal, ...(hasPoint ? { lat: hit.lat, lon: hit.lon } : {}) });
+    }
+    for (const c of candidatos) {
+        if (c.lat === undefined || c.lon === undefined) continue;
+        const distancias: Record<string, number> = {};
+        for (const o of candidatos) {
+            if (o === c || o.lat === undefined || o.lon === undefined) continue;
+            distancias[o.proveedor] = Math.round(distanceMeters(c.lat, c.lon, o.lat, o.lon));
+        }
+        const values = Object.values(distancias);
+        if (values.length > 0) {
+            c.distancias_m = distancias;
+            c.distancia_max_m = Math.max(...values);
+        }
+    }
+
+    const codes = candidatos.map(c => c.codigo_postal).filter((cp): cp is string => !!cp);
+    const distinct = new Set([...codes, resolved.postalCode]);
+    const estado = distinct.size > 1 ? 'DESACUERDO' : codes.length >= 2 ? 'ACUERDO' : 'INSUFICIENTE';
+    if (estado === 'DESACUERDO') {
+        console.warn(`[CONSENSUS] Providers disagree for "${row.address}, ${row.city}" (assigned ${resolved.postalCode}): ${candidatos.map(c => `${c.proveedor}=${c.codigo_postal ?? 'fuera'}`).join(', ')}`);
+    }
+    return {
+        estado,
+        cp_asignado: resolved.postalCode,
+        ...(resolved.provenance ? { estrategia_asignada: resolved.provenance.estrategia } : {}),
+        candidatos
     };
 };
 
+// The answer behind the row's CP, so consensus does not ask that provider again (e.g. after a geo cache hit)
+const resolvedProviderAnswer = (resolved: ResolvedAddress): GeocodeResult[] => {
+    const p = resolved.provenance;
+    if (!p?.proveedor) return [];
+    const [lat, lon] = resolved.coords ? resolved.coords.split(',').map(v => parseFloat(v)) : [NaN, NaN];
+    const hasPoint = isFinite(lat) && isFinite(lon) && p.precision !== 'CENTROIDE_ZONA';
+    if (p.estrategia === 'PROVEEDOR_POSTAL') {
+        return [{ provider: p.proveedor, confidence: p.confianza, postalCode: resolved.postalCode, ...(hasPoint ? { lat, lon } : {}) }];
+    }
+    // Points found with a simplified query are not the provider's answer to the full address
+    if (!hasPoint || p.precision !== 'DIRECCION') return [];
+    return [{ provider: p.proveedor, confidence: p.confianza, lat, lon }];
+};
+
+// resolveSingleAddress plus, in consensus mode, the comparison of every provider for rows that got a CP
+const resolveAddressWithConsensus = async (
+    row: { dane: string, city: string, department: string, address: string, recipient?: string, signal?: AbortSignal },
+    db: PostalZone[],
+    zonesByMuni: Record<string, PostalZone[]> | undefined,
+    consensus: boolean
+): Promise<ResolvedAddress> => {
+    const resolved = await resolveSingleAddress(row, db, zonesByMuni);
+    if (!consensus || !/^\d{6}$/.test(resolved.postalCode)) return resolved;
+    const report = await buildConsensusReport(row, db, resolved);
+    return report ? { ...resolved, consensus: report } : resolved;
+};
+
+// Parser and quality fields of the original address; a normalizer rewrite supplies the structured form
+const analyzeWithNormalization = (address: string, normalized: AddressNormalization | null) => {
+  const analysis = analyzeAddress(address);
+  if (!normalized) return { ...analysis, normalizacion: undefined };
+  return { ...analysis, direccion_estructurada: parseAddress(normalized.direccion).address || undefined, normalizacion: normalized };
+};
+
 // ADAPTIVE QUEUE PROCESSOR WITH ABORT SIGNAL
+// Reads the destination fields of a Reporteador row, tolerating the column name variants seen in client files
+const readTemplateRowFields = (row: any): { city: string, department: string, address: string, dane: string, recipient: string } => {
+  const normKey = (k: string) => normalizeStr(k);
+  const pick = (obj: any, aliases: string[], contains?: string[]) => {
+      const keys = Object.keys(obj);
+      for (const al of aliases) {
+          const nal = normKey(al);
+          const found = keys.find(k => normKey(k) === nal);
+          if (found) return obj[found];
+      }
+      if (contains && contains.length) {
+          const ncont = contains.map(c => normKey(c));
+          const found2 = keys.find(k => ncont.some(c => normKey(k).includes(c)));
+          if (found2) return obj[found2];
+      }
+      return '';
+  };
+  const city = pick(row, ['Ciudad de destino','Ciudad','Municipio','Mpio'], ['ciudad','municipio','mpio']) || '';
+  const department = pick(row, ['Departamento de destino','Departamento','Depto'], ['departamento','depto']) || '';
+  const address = String(pick(row, ['Dirección','Direccion','Destino'], ['direccion','destino']) || '');
+  const daneRaw = pick(row, ['DANE destino','Código DANE','Cod Mpio','DANE','codigo_municipio'], ['dane','codigo','mpio']) || '';
+  const dane = String(daneRaw).replace(/\D/g, '').padStart(5, '0').slice(-5);
+  const recipient = String(row['Destinatario'] || row['destinatario'] || '').trim();
+  return { city, department, address, dane, recipient };
+};
+
+// Destination identity for in-batch dedup: canonical address + city + DANE.
+// The recipient is not part of it; a group is geocoded with the first row's recipient.
+const buildDestinationKey = (address: string, city: string, dane: string): string =>
+  `${buildAddressCacheKey(address, city, '')}|${dane}`;
+
 export const processTemplateBatch = async (
     templateRows: any[], 
     onProgress?: (percentage: number) => void,
     signal?: AbortSignal,
-    onPause?: (ms: number) => void
+    onPause?: (ms: number) => void,
+    onSummary?: (summary: BatchRunSummary) => void,
+    options: { consensus?: boolean } = {}
 ): Promise<AddressTemplate[]> => {
+  const consensus = options.consensus ?? getGeocoderConsensusDefault();
+  const qualityThreshold = getAddressQualityThreshold();
     
   const db = await getAllPostalZones();
   if (db.length === 0) throw new Error("No hay base maestra (Shapefile) cargada.");
+  // Point-in-polygon runs in the worker pool so the table stays responsive during long runs
+  await ensureZoneMatcherPool();
+  await loadAddressDictionaries();
+  await ensureStreetNetworkWarmCache();
   
   console.log(`[PROCESSOR] Starting batch processing of ${templateRows.length} rows with ${db.length} postal zones`);
+  console.log(`[PROCESSOR] Geocoder chain: ${describeGeocoderChain()}${consensus ? ' (consensus mode)' : ''}`);
+  resetRateLimiter();
+  clearGeocoderAnswers();
   
   const zonesByMuni: Record<string, PostalZone[]> = zonesIndexReady ? zonesByCityIndex : {};
   if (!zonesIndexReady) {
@@ -1504,16 +1979,44 @@ export const processTemplateBatch = async (
   let processedCount = 0;
   let successCount = 0;
   let errorCount = 0;
+  let disagreementCount = 0;
+  let mismatchCount = 0;
+
+  // Rows with the same destination are resolved once (by the first row of the group) and fanned out
+  const rowFields = templateRows.map(readTemplateRowFields);
+  const groups = new Map<string, number[]>();
+  rowFields.forEach((f, i) => {
+    const key = buildDestinationKey(f.address, f.city, f.dane);
+    const members = groups.get(key);
+    if (members) members.push(i); else groups.set(key, [i]);
+  });
+  const groupOf = new Map<number, number[]>();
+  groups.forEach(members => groupOf.set(members[0], members));
+  console.log(`[PROCESSOR] ${groups.size} unique destinations in ${templateRows.length} rows`);
+  const reportSummary = () => {
+    try { onSummary && onSummary({ totalRows: templateRows.length, uniqueDestinations: groups.size, processedRows: processedCount, success: successCount, errors: errorCount, externalPostalMismatches: mismatchCount, ...(consensus ? { consensusDisagreements: disagreementCount } : {}) }); } catch {}
+  };
   
-  // Work Queue
-  const queue = Array.from({ length: templateRows.length }, (_, i) => i);
+  // Work Queue (one entry per unique destination)
+  const queue = Array.from(groupOf.keys());
+
+  // 4-72 batch endpoint: destinations not in the 472 cache are looked up in bulk before the workers start.
+  // Rows that need normalization are left to the single lookups, since their address changes first.
+  const pendingOfficial: GeocodeQuery[] = [];
+  for (const index of isOfficial472BatchEnabled() ? queue : []) {
+    const { address, city, department } = rowFields[index];
+    if (!address || needsAddressNormalization(address)) continue;
+    if (await getCachedOfficial(buildAddressCacheKey(address, city, department)) !== undefined) continue;
+    pendingOfficial.push(buildGeocodeQuery(address, city, department));
+  }
+  if (pendingOfficial.length > 0) await prefetchOfficial472(pendingOfficial, signal);
   
   let concurrency = 1;
   const mapsKey = ((import.meta as any).env.VITE_GOOGLE_MAPS_API_KEY) || '';
   const useGoogle = !!(mapsKey && mapsKey !== 'demo_key_for_testing' && ((import.meta as any).env.VITE_ENABLE_GOOGLE === '1'));
-  const geminiKey = ((import.meta as any).env.VITE_GEMINI_API_KEY) || '';
-  const useGemini = !!(geminiKey && geminiKey !== 'demo_key_for_testing' && ((import.meta as any).env.VITE_ENABLE_GEMINI === '1'));
-  if (useGoogle) {
+  // Own Nominatim/Photon/Pelias servers are not bound by the public 1 req/s policy
+  const osmMinDelay = getOsmBatchMinDelayMs();
+  if (useGoogle || osmMinDelay < PUBLIC_OSM_MIN_DELAY_MS) {
     concurrency = 2;
     const envConc = parseInt(String(((import.meta as any).env.VITE_GEOCODE_CONCURRENCY || '')), 10);
     if (!isNaN(envConc) && envConc > 0 && envConc <= 16) concurrency = envConc;
@@ -1523,7 +2026,6 @@ export const processTemplateBatch = async (
   
   let isPaused = false;
   let activeWorkers = 0;
-  const lastRequestTime = { value: 0 };
   let lastPercentReported = -1;
   let lastReportTs = 0;
   
@@ -1537,6 +2039,7 @@ export const processTemplateBatch = async (
               queue.length = 0;
               // Workers will stop on next loop iteration
               // We resolve with what we have so far
+              reportSummary();
               resolve(results.filter(r => r !== undefined)); 
           });
       }
@@ -1553,93 +2056,42 @@ export const processTemplateBatch = async (
               const index = queue.shift();
               if (index === undefined) break;
 
-              const row = templateRows[index];
-              const normKey = (k: string) => normalizeStr(k);
-              const pick = (obj: any, aliases: string[], contains?: string[]) => {
-                  const keys = Object.keys(obj);
-                  for (const al of aliases) {
-                      const nal = normKey(al);
-                      const found = keys.find(k => normKey(k) === nal);
-                      if (found) return obj[found];
-                  }
-                  if (contains && contains.length) {
-                      const ncont = contains.map(c => normKey(c));
-                      const found2 = keys.find(k => ncont.some(c => normKey(k).includes(c)));
-                      if (found2) return obj[found2];
+              const { city, department, address, dane, recipient } = rowFields[index];
+              const members = groupOf.get(index) || [index];
+              const globalId = index;
+              // Same result for every row of the destination group; only id and original data differ
+              const fanOut = (shared: Omit<AddressTemplate, 'id' | 'originalData'>, withDane: boolean) => {
+                  for (const m of members) {
+                      results[m] = { ...shared, id: `tmpl-${m}`, originalData: withDane ? { ...templateRows[m], 'DANE destino': dane } : templateRows[m] };
                   }
-                  return '';
               };
-              const city = pick(row, ['Ciudad de destino','Ciudad','Municipio','Mpio'], ['ciudad','municipio','mpio']) || '';
-              const department = pick(row, ['Departamento de destino','Departamento','Depto'], ['departamento','depto']) || '';
-              const address = String(pick(row, ['Dirección','Direccion','Destino'], ['direccion','destino']) || '');
-              const daneRaw = pick(row, ['DANE destino','Código DANE','Cod Mpio','DANE','codigo_municipio'], ['dane','codigo','mpio']) || '';
-              const dane = String(daneRaw).replace(/\D/g, '').padStart(5, '0').slice(-5);
-              const globalId = index;
 
               try {
-                  const now = Date.now();
-                  const minDelay = useGoogle ? 150 : (useGemini ? 400 : 1200);
-                  const timeSinceLastRequest = now - lastRequestTime.value;
-                  if (timeSinceLastRequest < minDelay) {
-                      await sleep(minDelay - timeSinceLastRequest);
-                  }
-                  lastRequestTime.value = Date.now();
-              const recipient = String(row['Destinatario'] || row['destinatario'] || '').trim();
-              const rowTimeoutMs = 12000;
-              const timeoutPromise = new Promise<{ 
-                postalCode: string, 
-                coords: string, 
-                localidad?: string,
-                direccion_google?: string,
-                locationName?: string 
-              }>((resolveTimeout) => {
+                  // Addresses the parser cannot read are rewritten first (addressNormalizer.ts); without a
+                  // rewrite, low-quality ones go to manual review like the rows filtered before the batch
+                  const normalized = await normalizeAddress(address, city, signal);
+                  const analysis = analyzeWithNormalization(address, normalized);
+                  const toManualReview = !normalized && needsAddressNormalization(address) && (analysis.calidad_direccion ?? 100) < qualityThreshold;
+                  const geocodeAddress = normalized ? normalized.direccion : address;
+                  // Throttling is per provider, inside the geocoder chain (rateLimiter.ts)
+              // Consensus waits for every provider's bucket, so it gets a longer budget
+              const rowTimeoutMs = consensus ? 30000 : 12000;
+              const timeoutPromise = new Promise<ResolvedAddress>((resolveTimeout) => {
                 setTimeout(() => resolveTimeout({ postalCode: "DIR_NO_ENCONTRADA", coords: "" }), rowTimeoutMs);
               });
-              let res: { 
-                postalCode: string, 
-                coords: string, 
-                localidad?: string,
-                direccion_google?: string,
-                locationName?: string 
-              } = { 
+              let res: ResolvedAddress = { 
                 postalCode: '', 
                 coords: '',
                 direccion_google: address, // Default for auditability
                 locationName: city // Default for auditability
               };
-              const cacheKey = `${normalizeStr(address)}|${normalizeStr(city)}|${normalizeStr(department)}`;
-              
-              // Try Google Address Validation API first for high precision
-              const googleRes = await validateAddressWithGoogle(address, city, department);
-              if (googleRes) {
-                res = { 
-                  postalCode: googleRes.postalCode, 
-                  coords: `${googleRes.lat}, ${googleRes.lon}`,
-                  direccion_google: googleRes.formattedAddress,
-                  locationName: googleRes.locationName,
-                  localidad: googleRes.locationName
-                };
-                await saveCachedOfficial(cacheKey, { postalCode: res.postalCode, coords: res.coords });
-              } else if (useOfficialAPI()) {
-                const cached = await getCachedOfficial(cacheKey);
-                if (cached !== undefined) {
-                  res = { postalCode: cached?.postalCode || 'DIR_NO_ENCONTRADA', coords: cached?.coords || '' };
-                } else {
-                  const fromApi = await fetchOfficialPostal(address, city, department);
-                  if (fromApi) {
-                    await saveCachedOfficial(cacheKey, fromApi);
-                    res = { postalCode: fromApi.postalCode, coords: fromApi.coords };
-                  } else {
-                    await saveCachedOfficial(cacheKey, null);
-                    res = await timeoutPromise;
-                  }
-                }
-              } else {
-                res = await Promise.race([
-                  resolveSingleAddress({ dane, city, department, address, recipient }, db, zonesByMuni),
-                  timeoutPromise
-                ]);
-              }
+              // Provider chain (postal providers first), municipal index and polygon matching
+              res = toManualReview ? { postalCode: 'REVISION_MANUAL', coords: '' } : await Promise.race([
+                resolveAddressWithConsensus({ dane, city, department, address: geocodeAddress, recipient, signal }, db, zonesByMuni, consensus),
+                timeoutPromise
+              ]);
+                  if (res.consensus?.estado === 'DESACUERDO') disagreementCount += members.length;
+                  if (res.crossCheck?.estado === 'DIFIERE_POLIGONO' || res.crossCheck?.estado === 'DIFIERE_DANE') mismatchCount += members.length;
                   
                   const isValidPostalCode = res.postalCode && 
                                            res.postalCode.length <= 6 && 
@@ -1648,26 +2100,29 @@ export const processTemplateBatch = async (
                                            !res.postalCode.includes('SIN_');
                   
                   if (isValidPostalCode) {
-                      successCount++;
+                      successCount += members.length;
                   } else {
-                      errorCount++;
+                      errorCount += members.length;
                       console.warn(`[PROCESSOR] Row ${globalId}: ${res.postalCode} for "${city}" - ${address}`);
                   }
                   
-                  results[index] = { 
-                      id: `tmpl-${globalId}`, 
+                  fanOut({ 
                       dane_destino: dane, 
                       ciudad_destino: city,
                       departamento_destino: department,
                       direccion: address, 
+                      ...analysis,
                       codigo_postal_asignado: res.postalCode,
                       coordenadas: res.coords,
+                      distancia_zona_m: res.distanceToZoneM,
                       localidad_detectada: res.locationName || res.localidad || '',
                       direccion_google: res.direccion_google || '',
-                      originalData: { ...row, 'DANE destino': dane } 
-                  };
+                      consenso: res.consensus,
+                      procedencia: res.provenance,
+                      verificacion_cp: res.crossCheck
+                  }, true);
                   
-                  processedCount++;
+                  processedCount += members.length;
                   const pct = Math.round((processedCount / templateRows.length) * 100);
                   const ts = Date.now();
                   if (onProgress && (pct !== lastPercentReported || ts - lastReportTs > 500)) { onProgress(pct); lastPercentReported = pct; lastReportTs = ts; }
@@ -1698,21 +2153,20 @@ export const processTemplateBatch = async (
                   } else {
                       // Non-quota error - mark as error but continue
                       console.error(`[PROCESSOR] Row ${globalId} error:`, err.message);
-                      errorCount++;
+                      errorCount += members.length;
                       
-                      results[index] = { 
-                          id: `tmpl-${globalId}`, 
+                      fanOut({ 
                           dane_destino: dane, 
                           ciudad_destino: city,
                           departamento_destino: department, 
                           direccion: address, 
+                          ...analyzeAddress(address),
                           codigo_postal_asignado: "ERROR_PROCESO", 
                           coordenadas: "", 
-                          localidad_detectada: '',
-                          originalData: row 
-                      };
+                          localidad_detectada: ''
+                      }, false);
                       
-                      processedCount++;
+                      processedCount += members.length;
                       const pct2 = Math.round((processedCount / templateRows.length) * 100);
                       const ts2 = Date.now();
                       if (onProgress && (pct2 !== lastPercentReported || ts2 - lastReportTs > 500)) { onProgress(pct2); lastPercentReported = pct2; lastReportTs = ts2; }
@@ -1722,10 +2176,12 @@ export const processTemplateBatch = async (
           
           activeWorkers--;
           if (activeWorkers === 0 && queue.length === 0 && !isPaused && !signal?.aborted) {
-              console.log(`[PROCESSOR] Batch complete: ${successCount} successful, ${errorCount} errors, ${processedCount} total processed`);
+              console.log(`[PROCESSOR] Batch complete: ${successCount} successful, ${errorCount} errors, ${processedCount} total processed, ${groups.size} unique destinations`);
+              reportSummary();
               resolve(results);
           } else if (signal?.aborted && activeWorkers === 0) {
               console.log(`[PROCESSOR] Aborted with partial results: ${processedCount}/${templateRows.length}`);
+              reportSummary();
               resolve(results.filter(r => r !== undefined));
           }
       };
@@ -1741,6 +2197,9 @@ export const processTemplateTurbo = async (
 ): Promise<AddressTemplate[]> => {
   const db = await getAllPostalZones();
   if (db.length === 0) throw new Error("No hay base maestra (Shapefile) cargada.");
+  await ensureZoneMatcherPool();
+  await loadAddressDictionaries();
+  await ensureStreetNetworkWarmCache();
 
   const zonesByMuni: Record<string, PostalZone[]> = {};
   db.forEach(z => {
@@ -1766,47 +2225,13 @@ export const processTemplateTurbo = async (
     }
 
     const recipient = String(row['Destinatario'] || row['destinatario'] || '').trim();
-    let cp = '';
-    let coords = '';
-    let localidad = city; // Default to city for auditability
-    const cacheKey = `${normalizeStr(address)}|${normalizeStr(city)}|${normalizeStr(department)}`;
-    
-    let direccionGoogle = address; // Default to address for auditability
-    
-    // Try Google Address Validation API first for high precision
-    const googleRes = await validateAddressWithGoogle(address, city, department);
-    if (googleRes) {
-      cp = googleRes.postalCode;
-      coords = `${googleRes.lat}, ${googleRes.lon}`;
-      direccionGoogle = googleRes.formattedAddress;
-      localidad = googleRes.locationName;
-      await saveCachedOfficial(cacheKey, { postalCode: cp, coords });
-    } else if (useOfficialAPI()) {
-      const cached = await getCachedOfficial(cacheKey);
-      if (cached !== undefined && cached !== null) {
-        cp = cached.postalCode;
-        coords = cached.coords;
-      } else if (cached === undefined) {
-        const apiRes = await fetchOfficialPostal(address, city, department);
-        if (apiRes) {
-          cp = apiRes.postalCode;
-          coords = apiRes.coords;
-          await saveCachedOfficial(cacheKey, apiRes);
-        } else {
-          await saveCachedOfficial(cacheKey, null);
-          cp = 'DIR_NO_ENCONTRADA';
-          coords = '';
-        }
-      } else {
-        cp = 'DIR_NO_ENCONTRADA';
-      }
-    } else {
-      const resolved = await resolveSingleAddress({ dane, city, department, address, recipient }, db, zonesByMuni);
-      cp = resolved.postalCode;
-      coords = resolved.coords;
-      localidad = resolved.locationName || resolved.localidad || '';
-      direccionGoogle = resolved.direccion_google || '';
-    }
+    const normalized = await normalizeAddress(address, city, signal);
+    const resolved = await resolveSingleAddress({ dane, city, department, address: normalized ? normalized.direccion : address, recipient, signal }, db, zonesByMuni);
+    const cp = resolved.postalCode;
+    const coords = resolved.coords;
+    const distanceToZoneM = resolved.distanceToZoneM;
+    const localidad = resolved.locationName || resolved.localidad || '';
+    const direccionGoogle = resolved.direccion_google || '';
 
     results[i] = {
       id: `tmpl-fast-${i+1}`,
@@ -1814,10 +2239,14 @@ export const processTemplateTurbo = async (
       ciudad_destino: city,
       departamento_destino: department,
       direccion: address,
+      ...analyzeWithNormalization(address, normalized),
       codigo_postal_asignado: cp,
       coordenadas: coords,
+      distancia_zona_m: distanceToZoneM,
       localidad_detectada: localidad,
       direccion_google: direccionGoogle,
+      procedencia: resolved.provenance,
+      verificacion_cp: resolved.crossCheck,
       originalData: { ...row, 'DANE destino': dane ? dane.padStart(5, '0').slice(-5) : '00000' }
     };
 
@@ -1831,52 +2260,27 @@ export const processTemplateTurbo = async (
 
 export const reprocessSingleRow = async (item: AddressTemplate): Promise<AddressTemplate> => {
   const db = await getAllPostalZones();
+  await ensureStreetNetworkWarmCache();
   const recipient = String((item as any)?.originalData?.Destinatario || (item as any)?.originalData?.destinatario || '').trim();
-  let postalCode = '';
-  let coords = '';
-  const cacheKey = `${normalizeStr(item.direccion)}|${normalizeStr(item.ciudad_destino)}|${normalizeStr(item.departamento_destino || '')}`;
-  
-  let direccionGoogle = item.direccion_google || item.direccion || "";
-  let localidad = item.localidad_detectada || item.ciudad_destino || "";
-
-  // Try Google Address Validation API first for high precision
-  const googleRes = await validateAddressWithGoogle(item.direccion, item.ciudad_destino, item.departamento_destino || '');
-  if (googleRes) {
-    postalCode = googleRes.postalCode;
-    coords = `${googleRes.lat}, ${googleRes.lon}`;
-    direccionGoogle = googleRes.formattedAddress;
-    localidad = googleRes.locationName;
-    await saveCachedOfficial(cacheKey, { postalCode, coords });
-  } else if (useOfficialAPI()) {
-    const cached = await getCachedOfficial(cacheKey);
-    if (cached !== undefined) {
-      postalCode = cached?.postalCode || 'DIR_NO_ENCONTRADA';
-      coords = cached?.coords || '';
-    } else {
-      const apiRes = await fetchOfficialPostal(item.direccion, item.ciudad_destino, item.departamento_destino || '');
-      if (apiRes) {
-        await saveCachedOfficial(cacheKey, apiRes);
-        postalCode = apiRes.postalCode;
-        coords = apiRes.coords;
-      } else {
-        await saveCachedOfficial(cacheKey, null);
-        postalCode = 'DIR_NO_ENCONTRADA';
-        coords = '';
-      }
-    }
-  } else {
-    const result = await resolveSingleAddress({ dane: item.dane_destino, city: item.ciudad_destino, department: item.departamento_destino || '', address: item.direccion, recipient }, db);
-    postalCode = result.postalCode;
-    coords = result.coords;
-    direccionGoogle = result.direccion_google || "";
-    localidad = result.locationName || result.localidad || "";
-  }
+  const normalized = await normalizeAddress(item.direccion, item.ciudad_destino);
+  const address = normalized ? normalized.direccion : item.direccion;
+  const result = await resolveAddressWithConsensus({ dane: item.dane_destino, city: item.ciudad_destino, department: item.departamento_destino || '', address, recipient }, db, undefined, getGeocoderConsensusDefault());
+  const postalCode = result.postalCode;
+  const coords = result.coords;
+  const distanceToZoneM = result.distanceToZoneM;
+  const direccionGoogle = result.direccion_google || "";
+  const localidad = result.locationName || result.localidad || "";
   return { 
     ...item, 
+    ...analyzeWithNormalization(item.direccion, normalized),
     codigo_postal_asignado: postalCode, 
     coordenadas: coords,
+    distancia_zona_m: distanceToZoneM,
     direccion_google: direccionGoogle,
-    localidad_detectada: localidad
+    localidad_detectada: localidad,
+    consenso: result.consensus,
+    procedencia: result.provenance,
+    verificacion_cp: result.crossCheck
   };
 };
 
@@ -1885,89 +2289,6 @@ export const searchPlaces = async (query: string, filter: 'all' | 'cp' | 'muni'
   return []; 
 };
 
-// Helper: Geocode using Nominatim (OpenStreetMap) - FREE and no API key required
-const geocodeWithNominatim = async (query: string): Promise<{ lat: number, lon: number } | null> => {
-    try {
-        const encodedQuery = encodeURIComponent(query + ", Colombia");
-        const response = await fetch(
-            `https://nominatim.openstreetmap.org/search?q=${encodedQuery}&format=json&limit=1`,
-            {
-                headers: {
-                    'User-Agent': 'ColPostalVisualizerApp/1.0'
-                }
-            }
-        );
-        
-        if (!response.ok) return null;
-        
-        const results = await response.json();
-        if (results && results.length > 0) {
-            const first = results[0];
-            return {
-                lat: parseFloat(first.lat),
-                lon: parseFloat(first.lon)
-            };
-        }
-        return null;
-    } catch (e) {
-        console.warn("Nominatim geocoding failed:", e);
-        return null;
-    }
-};
-
-// Geocode using Google Maps Geocoding API
-const geocodeWithGoogleMaps = async (query: string, city?: string, state?: string): Promise<{ lat: number, lon: number } | null> => {
-    const apiKey = (import.meta as any).env.VITE_GOOGLE_MAPS_API_KEY;
-    const enabled = ((import.meta as any).env.VITE_ENABLE_GOOGLE === '1');
-    if (!enabled) return null;
-    if (!apiKey || apiKey === 'demo_key_for_testing') return null;
-    try {
-        const encoded = encodeURIComponent(`${query}, Colombia`);
-        const compParts: string[] = ['country:CO'];
-        if (city && city.trim()) compParts.push(`locality:${encodeURIComponent(city.trim())}`);
-        if (state && state.trim()) compParts.push(`administrative_area:${encodeURIComponent(state.trim())}`);
-        const componentsParam = compParts.join('|');
-        const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encoded}&components=${componentsParam}&region=CO&key=${apiKey}`;
-        const res = await fetch(url);
-        if (!res.ok) return null;
-        const data = await res.json();
-        if (data.status === 'OK' && data.results && data.results.length > 0) {
-            const loc = data.results[0]?.geometry?.location;
-            if (loc && typeof loc.lat === 'number' && typeof loc.lng === 'number') {
-                return { lat: loc.lat, lon: loc.lng };
-            }
-        }
-        const url2 = `https://maps.googleapis.com/maps/api/place/findplacefromtext/json?input=${encoded}&inputtype=textquery&fields=geometry&region=CO&key=${apiKey}`;
-        const res2 = await fetch(url2);
-        if (!res2.ok) return null;
-        const data2 = await res2.json();
-        const candidate = data2.candidates && data2.candidates[0];
-        const geom = candidate?.geometry?.location;
-        if (geom && typeof geom.lat === 'number' && typeof geom.lng === 'number') {
-            return { lat: geom.lat, lon: geom.lng };
-        }
-        return null;
-    } catch (e) {
-        console.warn('Google Maps geocoding failed:', e);
-        return null;
-    }
-};
-
-const reverseGeocodeLocalidad = async (lat: number, lon: number): Promise<string | null> => {
-    try {
-        const url = `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lon}&format=json&zoom=16&addressdetails=1`;
-        const res = await fetch(url, { headers: { 'User-Agent': 'ColPostalValidator/1.0', 'Accept-Language': 'es' } });
-        if (!res.ok) return null;
-        const data = await res.json();
-        const addr = data?.address || {};
-        const loc = addr.city_district || addr.suburb || addr.town || addr.neighbourhood || null;
-        if (typeof loc === 'string') return loc.trim();
-        return null;
-    } catch {
-        return null;
-    }
-};
-
 export const searchExternalLocations = async (query: string): Promise<any[]> => {
     if (!query || !query.trim()) return [];
     
@@ -1990,39 +2311,11 @@ export const searchExternalLocations = async (query: string): Promise<any[]> =>
             }];
         }
 
-        let result: { lat: number, lon: number } | null = null;
-
-        result = await geocodeWithNominatim(cleanQuery);
-        if (!result) {
-            result = await geocodeWithGoogleMaps(cleanQuery);
-        }
-        if (!result) {
-            const genAI = getGenAI();
-            if (genAI) {
-                try {
-                    const response = await genAI.models.generateContent({
-                        model: 'gemini-1.5-flash',
-                        contents: `You are a precise geocoding assistant. Find the EXACT latitude and longitude coordinates for the specific address in Colombia: "${cleanQuery}". Return ONLY JSON with keys lat and lon.`,
-                        config: { tools: [{ googleMaps: {} }, { googleSearch: {} }], maxOutputTokens: 100, temperature: 0 }
-                    });
-                    let text = response.text || "";
-                    result = extractJSON(text);
-                    if (!result) {
-                        const latRegex = /["']?(?:lat|latitude)["']?[:\s=]*([+-]?\d+(?:\.\d+)?)/i;
-                        const lonRegex = /["']?(?:lon|lng|long|longitude)["']?[:\s=]*([+-]?\d+(?:\.\d+)?)/i;
-                        const latMatch = text.match(latRegex);
-                        const lonMatch = text.match(lonRegex);
-                        if (latMatch && lonMatch) {
-                            result = { lat: parseFloat(latMatch[1]), lon: parseFloat(lonMatch[1]) };
-                        }
-                    }
-                } catch (e: any) {
-                    console.warn("Gemini API failed, falling back:", e);
-                }
-            }
-        }
+        // Same 'point' providers as the batch; free-text query with no destination city
+        const hit = await runGeocoderChain('point', { address: query, street: cleanQuery, city: '', department: '', simplification: 0 });
+        const result = hit && typeof hit.lat === 'number' && typeof hit.lon === 'number' ? { lat: hit.lat, lon: hit.lon } : null;
 
-        if (result && typeof result.lat === 'number' && typeof result.lon === 'number') {
+        if (result) {
             await saveCachedLocation(key, result);
             return [{
                 type: 'ADDRESS',
@@ -0,0 +1,193 @@
+import { CircuitState, ProviderRateStatus } from '../types';
+
+/*
+  =============================================================================
+  PROVIDER RATE LIMITER
+  =============================================================================
+  One token bucket and one circuit breaker per provider id, shared by every path
+  that calls an external service (batch workers, turbo, single row, map search).
+
+    - Bucket: refills at ratePerSec up to burst tokens; a request takes one token
+      and waits when the bucket is empty. ratePerSec 0 disables throttling.
+    - 429 answers (RATE_LIMITED) empty the bucket and hold it for 1s, 2s, 4s...
+    - Breaker: after breakerFailures consecutive failures the provider is skipped
+      for breakerCooldownMs; then a single trial request decides whether it closes
+      again or stays open for another cooldown.
+*/
+
+export const RATE_LIMITED = 'RATE_LIMITED';
+
+export interface RateLimitSettings {
+  ratePerSec: number;
+  burst: number;
+  breakerFailures: number;
+  breakerCooldownMs: number;
+}
+
+interface ProviderRateEntry {
+  id: string;
+  tokens: number;
+  lastRefill: number;
+  pausedUntil: number;
+  throttleStreak: number;
+  circuit: CircuitState;
+  openUntil: number;
+  trialInFlight: boolean;
+  consecutiveFailures: number;
+  waiting: number;
+  requests: number;
+  failures: number;
+  throttled: number;
+  settings: RateLimitSettings;
+}
+
+const entries = new Map<string, ProviderRateEntry>();
+
+// Resolves early when the signal aborts; the caller's loop then throws
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  }
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+const getEntry = (id: string, settings: RateLimitSettings): ProviderRateEntry => {
+  let entry = entries.get(id);
+  if (!entry) {
+    entry = {
+      id,
+      tokens: Math.max(1, settings.burst),
+      lastRefill: Date.now(),
+      pausedUntil: 0,
+      throttleStreak: 0,
+      circuit: 'closed',
+      openUntil: 0,
+      trialInFlight: false,
+      consecutiveFailures: 0,
+      waiting: 0,
+      requests: 0,
+      failures: 0,
+      throttled: 0,
+      settings
+    };
+    entries.set(id, entry);
+  }
+  entry.settings = settings;
+  return entry;
+};
+
+const refill = (entry: ProviderRateEntry, now: number) => {
+  const { ratePerSec, burst } = entry.settings;
+  if (ratePerSec > 0) {
+    entry.tokens = Math.min(Math.max(1, burst), entry.tokens + ((now - entry.lastRefill) / 1000) * ratePerSec);
+  }
+  entry.lastRefill = now;
+};
+
+/*
+  Whether the provider may be called now. An open circuit whose cooldown is over
+  lets exactly one trial request through (half open).
+*/
+export const isProviderAvailable = (id: string, settings: RateLimitSettings): boolean => {
+  const entry = getEntry(id, settings);
+  if (entry.circuit === 'closed') return true;
+  if (entry.circuit === 'open' && Date.now() >= entry.openUntil) {
+    entry.circuit = 'half_open';
+    entry.trialInFlight = false;
+  }
+  if (entry.circuit === 'half_open' && !entry.trialInFlight) {
+    entry.trialInFlight = true;
+    return true;
+  }
+  return false;
+};
+
+// Waits until the provider's bucket has a token (and any 429 backoff is over), then takes it
+export const acquireProviderToken = async (id: string, settings: RateLimitSettings, signal?: AbortSignal): Promise<void> => {
+  const entry = getEntry(id, settings);
+  entry.waiting++;
+  try {
+    for (;;) {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      const now = Date.now();
+      refill(entry, now);
+      const unthrottled = entry.settings.ratePerSec <= 0;
+      if (now >= entry.pausedUntil && (unthrottled || entry.tokens >= 1)) {
+        if (!unthrottled) entry.tokens -= 1;
+        entry.requests++;
+        return;
+      }
+      const untilToken = unthrottled ? 0 : ((1 - entry.tokens) / entry.settings.ratePerSec) * 1000;
+      await sleep(Math.max(10, entry.pausedUntil - now, untilToken), signal);
+    }
+  } finally {
+    entry.waiting--;
+  }
+};
+
+export const recordProviderSuccess = (id: string, settings: RateLimitSettings): void => {
+  const entry = getEntry(id, settings);
+  entry.consecutiveFailures = 0;
+  entry.throttleStreak = 0;
+  entry.circuit = 'closed';
+  entry.trialInFlight = false;
+};
+
+export const recordProviderFailure = (id: string, settings: RateLimitSettings): void => {
+  const entry = getEntry(id, settings);
+  entry.failures++;
+  entry.consecutiveFailures++;
+  entry.trialInFlight = false;
+  const threshold = Math.max(1, entry.settings.breakerFailures);
+  if (entry.circuit === 'half_open' || entry.consecutiveFailures >= threshold) {
+    if (entry.circuit !== 'open') console.warn(`[RATE] ${id} circuit OPEN after ${entry.consecutiveFailures} consecutive failures`);
+    entry.circuit = 'open';
+    entry.openUntil = Date.now() + entry.settings.breakerCooldownMs;
+  }
+};
+
+// Neither success nor failure (quota pause, caller aborted): frees a half-open trial so a later call can retry it
+export const releaseProviderTrial = (id: string, settings: RateLimitSettings): void => {
+  getEntry(id, settings).trialInFlight = false;
+};
+
+// 429 / OVER_QUERY_LIMIT: hold the whole bucket with exponential backoff (1s, 2s, 4s...)
+export const recordProviderThrottled = (id: string, settings: RateLimitSettings): number => {
+  const entry = getEntry(id, settings);
+  const delay = 1000 * Math.pow(2, Math.min(entry.throttleStreak, 5));
+  entry.throttled++;
+  entry.throttleStreak++;
+  entry.tokens = 0;
+  entry.pausedUntil = Math.max(entry.pausedUntil, Date.now() + delay);
+  console.warn(`[RATE] ${id} throttled (429), pausing ${delay}ms`);
+  return delay;
+};
+
+export const getRateLimiterSnapshot = (): ProviderRateStatus[] => {
+  const now = Date.now();
+  return Array.from(entries.values()).map(entry => {
+    refill(entry, now);
+    const retryAt = entry.circuit === 'open' && entry.openUntil > now ? entry.openUntil : (entry.pausedUntil > now ? entry.pausedUntil : null);
+    return {
+      id: entry.id,
+      circuit: entry.circuit === 'open' && now >= entry.openUntil ? 'half_open' : entry.circuit,
+      tokens: entry.settings.ratePerSec > 0 ? entry.tokens : Infinity,
+      ratePerSec: entry.settings.ratePerSec,
+      burst: entry.settings.burst,
+      waiting: entry.waiting,
+      requests: entry.requests,
+      failures: entry.failures,
+      throttled: entry.throttled,
+      consecutiveFailures: entry.consecutiveFailures,
+      retryAt
+    };
+  });
+};
+
+// Fresh counters and closed circuits, e.g. at the start of a batch
+export const resetRateLimiter = (): void => {
+  entries.clear();
+};
@@ -0,0 +1,188 @@
+import { iter } from 'but-unzip';
+import proj4 from 'proj4';
+import shp from 'shpjs';
+
+/*
+  =============================================================================
+  SHAPEFILE IMPORT (ZIP + CRS DETECTION)
+  =============================================================================
+  shpjs only reprojects when proj4 understands the .prj, and silently keeps the
+  raw coordinates otherwise. IGAC/DANE files usually come in MAGNA-SIRGAS planar
+  systems, so we read the .prj ourselves, identify the CRS and reproject to
+  EPSG:4326 before anything computes bboxes or centroids. Unknown CRS = rejected.
+*/
+
+export interface ShapefileProjection {
+  code: string;        // e.g. 'EPSG:3116'
+  name: string;
+  proj4def: string | null; // null = already geographic (WGS84 / MAGNA-SIRGAS, no transform needed)
+}
+
+interface TransverseMercatorParams {
+  lat0: number;
+  lon0: number;
+  k: number;
+  x0: number;
+  y0: number;
+}
+
+const WGS84: ShapefileProjection = { code: 'EPSG:4326', name: 'WGS 84', proj4def: null };
+// MAGNA-SIRGAS is tied to ITRF and matches WGS84 well below a meter, so no datum shift is applied
+const MAGNA_SIRGAS: ShapefileProjection = { code: 'EPSG:4686', name: 'MAGNA-SIRGAS', proj4def: null };
+
+const tmerc = (p: TransverseMercatorParams) =>
+  `+proj=tmerc +lat_0=${p.lat0} +lon_0=${p.lon0} +k=${p.k} +x_0=${p.x0} +y_0=${p.y0} +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs`;
+
+// Planar systems used by IGAC/DANE: the MAGNA-SIRGAS Gauss-Krüger origins and the national CTM12 origin
+const TRANSVERSE_MERCATOR_CRS: { code: string, name: string, params: TransverseMercatorParams }[] = [
+  { code: 'EPSG:3116', name: 'MAGNA-SIRGAS / Colombia Bogotá', params: { lat0: 4.596200416666666, lon0: -74.07750791666666, k: 1, x0: 1000000, y0: 1000000 } },
+  { code: 'EPSG:9377', name: 'MAGNA-SIRGAS 2018 / Origen-Nacional (CTM12)', params: { lat0: 4, lon0: -73, k: 0.9992, x0: 5000000, y0: 2000000 } },
+  { code: 'EPSG:3114', name: 'MAGNA-SIRGAS / Colombia Far West', params: { lat0: 4.596200416666666, lon0: -80.07750791666666, k: 1, x0: 1000000, y0: 1000000 } },
+  { code: 'EPSG:3115', name: 'MAGNA-SIRGAS / Colombia West', params: { lat0: 4.596200416666666, lon0: -77.07750791666666, k: 1, x0: 1000000, y0: 1000000 } },
+  { code: 'EPSG:3117', name: 'MAGNA-SIRGAS / Colombia East Central', params: { lat0: 4.596200416666666, lon0: -71.07750791666666, k: 1, x0: 1000000, y0: 1000000 } },
+  { code: 'EPSG:3118', name: 'MAGNA-SIRGAS / Colombia East', params: { lat0: 4.596200416666666, lon0: -68.07750791666666, k: 1, x0: 1000000, y0: 1000000 } }
+];
+
+const SUPPORTED_CRS_TEXT = 'WGS84 (EPSG:4326), MAGNA-SIRGAS (EPSG:4686), MAGNA-SIRGAS Colombia Bogotá (EPSG:3116) u Origen Nacional CTM12 (EPSG:9377)';
+
+const toProjection = (entry: { code: string, name: string, params: TransverseMercatorParams }): ShapefileProjection =>
+  ({ code: entry.code, name: entry.name, proj4def: tmerc(entry.params) });
+
+const normalizeWktName = (s: string) => s.toLowerCase().replace(/[\s\-]+/g, '_');
+
+// WKT1 (ESRI/OGC) parameters as a lowercase name -> value map
+const readWktParameters = (wkt: string): Record<string, number> => {
+  const out: Record<string, number> = {};
+  const re = /PARAMETER\[\s*"([^"]+)"\s*,\s*([-+\d.eE]+)\s*\]/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(wkt)) !== null) out[normalizeWktName(m[1])] = parseFloat(m[2]);
+  return out;
+};
+
+const pickParam = (params: Record<string, number>, names: string[]): number | undefined => {
+  for (const n of names) if (typeof params[n] === 'number' && !isNaN(params[n])) return params[n];
+  return undefined;
+};
+
+const near = (a: number | undefined, b: number, eps: number) => typeof a === 'number' && Math.abs(a - b) <= eps;
+
+/*
+  Identifies the CRS of a .prj. Order: EPSG authority code of the top-level CRS,
+  then Transverse Mercator parameters (ESRI .prj files usually carry no code),
+  then the datum of a plain geographic CRS. Throws for anything else.
+*/
+export const detectProjection = (prjText: string): ShapefileProjection => {
+  const wkt = String(prjText || '').trim();
+  if (!wkt) throw new Error(`El archivo .prj está vacío. Use un Shapefile en ${SUPPORTED_CRS_TEXT}.`);
+  const isProjected = /^(PROJCS|PROJCRS)\s*\[/i.test(wkt);
+  const isGeographic = /^(GEOGCS|GEOGCRS|GEODCRS)\s*\[/i.test(wkt);
+  const crsName = (wkt.match(/^\w+\[\s*"([^"]+)"/) || [])[1] || 'desconocida';
+
+  // WKT1 puts the CRS authority last; WKT2 uses ID["EPSG",code]
+  const codes = Array.from(wkt.matchAll(/(?:AUTHORITY|ID)\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]/gi)).map(m => m[1]);
+  const topCode = codes.length > 0 ? `EPSG:${codes[codes.length - 1]}` : '';
+  if (topCode === WGS84.code) return WGS84;
+  if (topCode === MAGNA_SIRGAS.code) return MAGNA_SIRGAS;
+  const byCode = TRANSVERSE_MERCATOR_CRS.find(c => c.code === topCode);
+  if (byCode) return toProjection(byCode);
+
+  if (isProjected) {
+    const method = normalizeWktName((wkt.match(/(?:PROJECTION|METHOD)\[\s*"([^"]+)"/i) || [])[1] || '');
+    if (method.includes('transverse_mercator') || method.includes('gauss_kruger')) {
+      const p = readWktParameters(wkt);
+      const lat0 = pickParam(p, ['latitude_of_origin', 'latitude_of_natural_origin']);
+      const lon0 = pickParam(p, ['central_meridian', 'longitude_of_natural_origin']);
+      const k = pickParam(p, ['scale_factor', 'scale_factor_at_natural_origin']);
+      const x0 = pickParam(p, ['false_easting']);
+      const y0 = pickParam(p, ['false_northing']);
+      const match = TRANSVERSE_MERCATOR_CRS.find(c =>
+        near(lat0, c.params.lat0, 1e-6) && near(lon0, c.params.lon0, 1e-6) &&
+        near(k, c.params.k, 1e-6) && near(x0, c.params.x0, 0.01) && near(y0, c.params.y0, 0.01)
+      );
+      if (match) return toProjection(match);
+    }
+  } else if (isGeographic) {
+    const datum = normalizeWktName((wkt.match(/DATUM\[\s*"([^"]+)"/i) || [])[1] || '');
+    if (datum.includes('magna') || datum.includes('sirgas')) return MAGNA_SIRGAS;
+    if (datum.includes('wgs') && datum.includes('84')) return WGS84;
+  }
+
+  throw new Error(`Proyección no soportada en el archivo .prj ("${crsName}"). Reproyecte el Shapefile a ${SUPPORTED_CRS_TEXT}.`);
+};
+
+// Applies fn to every [x, y] position of a GeoJSON coordinates array (any nesting depth)
+const mapPositions = (coords: any, fn: (p: number[]) => number[]): any => {
+  if (!Array.isArray(coords)) return coords;
+  if (typeof coords[0] === 'number') return fn(coords);
+  return coords.map(c => mapPositions(c, fn));
+};
+
+export const reprojectFeatureCollection = (geoJson: any, projection: ShapefileProjection): any => {
+  if (!projection.proj4def) return geoJson;
+  const converter = proj4(projection.proj4def, 'EPSG:4326');
+  for (const f of geoJson?.features || []) {
+    if (!f?.geometry?.coordinates) continue;
+    f.geometry.coordinates = mapPositions(f.geometry.coordinates, p => {
+      const [lon, lat] = converter.forward([p[0], p[1]]);
+      return [lon, lat];
+    });
+  }
+  return geoJson;
+};
+
+/*
+  Guard before storing zones: every position must be a finite lon/lat.
+  Planar coordinates (meters) that slipped through would produce garbage bboxes.
+*/
+export const assertGeographicCoordinates = (geoJson: any): void => {
+  let bad: number[] | null = null;
+  for (const f of geoJson?.features || []) {
+    mapPositions(f?.geometry?.coordinates, p => {
+      if (!bad && !(isFinite(p[0]) && isFinite(p[1]) && Math.abs(p[0]) <= 180 && Math.abs(p[1]) <= 90)) bad = p;
+      return p;
+    });
+    if (bad) break;
+  }
+  if (bad) {
+    const [x, y] = bad as number[];
+    throw new Error(`Las coordenadas del Shapefile no son geográficas (ej. ${x}, ${y}). Incluya el archivo .prj o reproyecte a ${SUPPORTED_CRS_TEXT}.`);
+  }
+};
+
+const decoder = new TextDecoder();
+
+/*
+  Reads every layer of a zipped Shapefile and returns it in EPSG:4326, with the same
+  shape shpjs returns (one FeatureCollection, or an array when the zip holds several).
+*/
+export const readShapefileZip = async (buffer: ArrayBuffer): Promise<any> => {
+  const layers: Record<string, { shp?: Uint8Array, dbf?: Uint8Array, cpg?: string, prj?: string }> = {};
+  for (const entry of iter(new Uint8Array(buffer))) {
+    if (entry.filename.includes('__MACOSX')) continue;
+    const m = entry.filename.match(/^(.*)\.(shp|dbf|cpg|prj)$/i);
+    if (!m) continue;
+    const base = m[1].toLowerCase();
+    const ext = m[2].toLowerCase() as 'shp' | 'dbf' | 'cpg' | 'prj';
+    const bytes = await entry.read();
+    const layer = layers[base] || (layers[base] = {});
+    if (ext === 'shp' || ext === 'dbf') layer[ext] = bytes;
+    else layer[ext] = decoder.decode(bytes);
+  }
+
+  const names = Object.keys(layers).filter(n => layers[n].shp);
+  if (names.length === 0) throw new Error("El archivo .zip no contiene ninguna capa .shp.");
+
+  const collections = await Promise.all(names.map(async name => {
+    const layer = layers[name];
+    // Without .prj shpjs would not reproject either; we only accept it if the data is already lon/lat
+    const projection = layer.prj ? detectProjection(layer.prj) : null;
+    const parsed = await shp({ shp: layer.shp!, dbf: layer.dbf, cpg: layer.cpg });
+    if (projection) reprojectFeatureCollection(parsed, projection);
+    assertGeographicCoordinates(parsed);
+    parsed.fileName = name;
+    if (projection) parsed.crs_origen = projection.code;
+    return parsed;
+  }));
+
+  return collections.length === 1 ? collections[0] : collections;
+};
@@ -0,0 +1,104 @@
+/*
+  =============================================================================
+  SPATIAL INDEX (STATIC R-TREE)
+  =============================================================================
+  Packed once with Sort-Tile-Recursive (STR) and queried many times. Zones are
+  only replaced wholesale (shapefile import), so no incremental insert/delete.
+*/
+
+export type BBox = [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+
+interface RTreeNode<T> {
+  bbox: BBox;
+  children: RTreeNode<T>[] | null;
+  items: T[] | null;
+}
+
+export interface RTree<T> {
+  size: number;
+  search: (bbox: BBox) => T[];
+  searchPoint: (lon: number, lat: number) => T[];
+}
+
+const DEFAULT_NODE_CAPACITY = 16;
+
+const centerX = (b: BBox) => (b[0] + b[2]) / 2;
+const centerY = (b: BBox) => (b[1] + b[3]) / 2;
+
+const isValidBBox = (b: any): b is BBox =>
+  Array.isArray(b) && b.length === 4 && b.every((v: any) => typeof v === 'number' && !isNaN(v));
+
+const unionBBox = (boxes: BBox[]): BBox => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const b of boxes) {
+    if (b[0] < minX) minX = b[0];
+    if (b[1] < minY) minY = b[1];
+    if (b[2] > maxX) maxX = b[2];
+    if (b[3] > maxY) maxY = b[3];
+  }
+  return [minX, minY, maxX, maxY];
+};
+
+const intersects = (a: BBox, b: BBox): boolean =>
+  a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+
+// Sort by X into vertical slices, then by Y inside each slice, and cut into groups of `capacity`
+const strGroups = <E>(entries: E[], box: (e: E) => BBox, capacity: number): E[][] => {
+  const nodeCount = Math.ceil(entries.length / capacity);
+  const sliceSize = Math.ceil(Math.sqrt(nodeCount)) * capacity;
+  const sorted = [...entries].sort((a, b) => centerX(box(a)) - centerX(box(b)));
+  const groups: E[][] = [];
+  for (let i = 0; i < sorted.length; i += sliceSize) {
+    const slice = sorted.slice(i, i + sliceSize).sort((a, b) => centerY(box(a)) - centerY(box(b)));
+    for (let j = 0; j < slice.length; j += capacity) groups.push(slice.slice(j, j + capacity));
+  }
+  return groups;
+};
+
+export const buildRTree = <T>(
+  items: T[],
+  getBBox: (item: T) => BBox,
+  nodeCapacity: number = DEFAULT_NODE_CAPACITY
+): RTree<T> => {
+  const capacity = Math.max(2, nodeCapacity);
+  const indexed = items.filter(it => isValidBBox(getBBox(it)));
+
+  let level: RTreeNode<T>[] = strGroups(indexed, getBBox, capacity).map(group => ({
+    bbox: unionBBox(group.map(getBBox)),
+    children: null,
+    items: group
+  }));
+  while (level.length > 1) {
+    level = strGroups(level, n => n.bbox, capacity).map(group => ({
+      bbox: unionBBox(group.map(n => n.bbox)),
+      children: group,
+      items: null
+    }));
+  }
+  const root: RTreeNode<T> | null = level[0] || null;
+
+  const search = (bbox: BBox): T[] => {
+    const out: T[] = [];
+    if (!root || !intersects(root.bbox, bbox)) return out;
+    const stack: RTreeNode<T>[] = [root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node.items) {
+        for (const it of node.items) {
+          if (intersects(getBBox(it), bbox)) out.push(it);
+        }
+      } else if (node.children) {
+        for (const child of node.children) {
+          if (intersects(child.bbox, bbox)) stack.push(child);
+        }
+      }
+    }
+    return out;
+  };
+
+  return {
+    size: indexed.length,
+    search,
+    searchPoint: (lon: number, lat: number) => search([lon, lat, lon, lat])
+  };
+};
@@ -0,0 +1,77 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseAddress } from './addressParser';
+import { buildStreetNetworkEntries, extractStreetWaysFromGeoJSON, geocodeOnStreetNetwork } from './streetNetwork';
+
+/*
+  Plate interpolation on fixtures/street-grid.geojson (scripts/make-street-fixtures.mjs):
+  carreras 5, 6 and 6A at x = 0, -100 and -150 m, carreras 5 and 6 Este at 500 and 600 m;
+  calles 10 and 11 at y = 0 and 100 m, calles 10 and 11 Sur at -1000 and -1100 m, and
+  Calle 12 at 200 m ending 70 m short of Carrera 5. There is no Carrera 7.
+*/
+
+const ORIGIN = { lon: -74.07, lat: 4.6 };
+const toMeters = (lon: number, lat: number): [number, number] => [
+  (lon - ORIGIN.lon) * 111320 * Math.cos(ORIGIN.lat * Math.PI / 180),
+  (lat - ORIGIN.lat) * 110574
+];
+
+const grid = JSON.parse(readFileSync(new URL('./fixtures/street-grid.geojson', import.meta.url), 'utf8'));
+const streets = new Map(buildStreetNetworkEntries('bogota', extractStreetWaysFromGeoJSON(grid)).map(e => [e.clave, e]));
+
+const geocode = (address: string) => {
+  const parsed = parseAddress(address).address;
+  if (!parsed) throw new Error(`Fixture address does not parse: ${address}`);
+  const hit = geocodeOnStreetNetwork(parsed, streets);
+  return hit ? { xy: toMeters(hit.lon, hit.lat), confidence: hit.confidence } : null;
+};
+
+const expectAt = (address: string, x: number, y: number, confidence: number) => {
+  const hit = geocode(address);
+  expect(hit, address).not.toBeNull();
+  expect(hit!.xy[0]).toBeCloseTo(x, 0);
+  expect(hit!.xy[1]).toBeCloseTo(y, 0);
+  expect(hit!.confidence).toBeCloseTo(confidence, 5);
+};
+
+describe('street network from GeoJSON', () => {
+  it('keys named roads and drops footways', () => {
+    expect(Array.from(streets.keys()).sort()).toEqual([
+      'CALLE 10', 'CALLE 10 SUR', 'CALLE 11', 'CALLE 11 SUR', 'CALLE 12',
+      'CARRERA 5', 'CARRERA 5 ESTE', 'CARRERA 6', 'CARRERA 6 ESTE', 'CARRERA 6A'
+    ]);
+    expect(streets.get('CALLE 10')!.lineas).toHaveLength(1);
+  });
+});
+
+describe('geocodeOnStreetNetwork', () => {
+  it('interpolates the plate between the corner and the next cross street', () => {
+    expectAt('Calle 10 # 5-50', -50, 0, 0.85);
+    expectAt('Carrera 5 # 10-30', 0, 30, 0.85);
+    expectAt('Calle 10 # 5-00', 0, 0, 0.85);
+  });
+
+  it('assigns a trailing Sur to the calle and Este to the carrera', () => {
+    expectAt('Calle 10 Sur # 5-20', -20, -1000, 0.85);
+    expectAt('Calle 10 # 5-20 Sur', -20, -1000, 0.85);
+    expectAt('Carrera 5 # 10-20 Sur', 0, -1020, 0.85);
+    expectAt('Calle 10 # 5-20 Este', 520, 0, 0.85);
+  });
+
+  it('extrapolates from the previous corner when there is no next one', () => {
+    // No Carrera 7: the block runs from Carrera 5 through Carrera 6 and beyond
+    expectAt('Calle 10 # 6-30', -130, 0, 0.75);
+    // With a letter the previous corner is the plain number: Carrera 6 → Carrera 6A
+    expectAt('Calle 10 # 6A-30', -165, 0, 0.75);
+  });
+
+  it('rejects a corner whose streets pass more than 60 m apart', () => {
+    expect(geocode('Calle 12 # 6-10')).not.toBeNull();
+    expect(geocode('Calle 12 # 5-10')).toBeNull();
+  });
+
+  it('needs both streets in the network', () => {
+    expect(geocode('Calle 40 # 5-10')).toBeNull();
+    expect(geocode('Calle 10 # 9-10')).toBeNull();
+  });
+});
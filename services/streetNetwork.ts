@@ -0,0 +1,267 @@
+import { Cuadrante, ParsedAddress, StreetNetworkEntry, ViaNumero, ViaType } from '../types';
+import { formatAddress, parseAddress } from './addressParser';
+import type { GeocoderProvider } from './geocoders';
+import type { OsmWay } from './osmPbf';
+
+/*
+  =============================================================================
+  OFFLINE STREET GEOCODER
+  =============================================================================
+  Geocodes "Calle X # Y-Z" against a road network imported from OSM: the plate Z
+  is read as the distance (in hundredths of the block) from the corner of the via
+  with cross street Y towards cross street Y+1, so the point is interpolated
+  between both intersections and snapped back onto the via.
+  Street names are keyed with the same parser used for addresses, so "Cra 15 Bis"
+  in a row and "Carrera 15 Bis" in OSM end up on the same key.
+*/
+
+type Line = [number, number][];
+
+const METERS_PER_DEGREE_LAT = 110574;
+const METERS_PER_DEGREE_LON_EQUATOR = 111320;
+// Streets closer than this are considered to cross (dual carriageways, nodes not shared)
+const MAX_INTERSECTION_GAP_M = 60;
+// Longest block accepted between two consecutive cross streets
+const MAX_BLOCK_M = 400;
+
+// Footways and similar carry no street addresses
+const NON_ADDRESS_HIGHWAYS = new Set(['footway', 'path', 'cycleway', 'steps', 'bridleway', 'corridor', 'proposed', 'construction', 'platform', 'elevator', 'bus_stop']);
+const NAME_TAGS = ['name', 'official_name', 'alt_name', 'old_name', 'ref'];
+
+export const isStreetWay = (tags: Record<string, string>): boolean =>
+  !!tags.highway && !NON_ADDRESS_HIGHWAYS.has(tags.highway) && NAME_TAGS.some(k => !!tags[k]);
+
+// "Avenida Calle 26" and "Calle 26" are the same numbered street
+const viaFamily = (tipo: ViaType): string => {
+  if (tipo === 'AVENIDA CALLE') return 'CALLE';
+  if (tipo === 'AVENIDA CARRERA') return 'CARRERA';
+  return tipo;
+};
+
+const CROSS_FAMILIES: Record<string, string[]> = {
+  CALLE: ['CARRERA', 'TRANSVERSAL'],
+  DIAGONAL: ['CARRERA', 'TRANSVERSAL'],
+  CARRERA: ['CALLE', 'DIAGONAL'],
+  TRANSVERSAL: ['CALLE', 'DIAGONAL']
+};
+const ALL_FAMILIES = ['CALLE', 'CARRERA', 'DIAGONAL', 'TRANSVERSAL'];
+
+const normName = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().trim();
+
+export const buildStreetKey = (family: string, v: ViaNumero): string => {
+  let key = `${family} ${normName(v.numero)}${v.letra || ''}`;
+  if (v.bis) key += ' BIS';
+  if (v.letra_bis) key += ` ${v.letra_bis}`;
+  if (v.cuadrante) key += ` ${v.cuadrante}`;
+  return key;
+};
+
+// Street keys of an OSM way (one per distinct name tag that parses as nomenclature)
+export const streetKeysFromTags = (tags: Record<string, string>): string[] => {
+  const keys = new Set<string>();
+  for (const tag of NAME_TAGS) {
+    for (const name of String(tags[tag] || '').split(';')) {
+      const parsed = name.trim() ? parseAddress(name).address : null;
+      if (parsed && parsed.via.numero) keys.add(buildStreetKey(viaFamily(parsed.tipo_via), { ...parsed.via, cuadrante: parsed.via.cuadrante || parsed.cuadrante }));
+    }
+  }
+  return Array.from(keys);
+};
+
+// Named road lines of an OSM GeoJSON export (osmtogeojson, overpass turbo, ogr2ogr)
+export const extractStreetWaysFromGeoJSON = (geoJson: any): Pick<OsmWay, 'tags' | 'coords'>[] => {
+  const features = Array.isArray(geoJson?.features) ? geoJson.features : [];
+  const out: Pick<OsmWay, 'tags' | 'coords'>[] = [];
+  for (const f of features) {
+    const props = f?.properties || {};
+    const tags: Record<string, string> = { ...props, ...(props.tags || {}) };
+    // Exports without highway tags (e.g. a municipal street layer) are taken as streets when named
+    if (tags.highway ? !isStreetWay(tags) : !NAME_TAGS.some(k => !!tags[k])) continue;
+    const g = f?.geometry;
+    const lines: Line[] = g?.type === 'LineString' ? [g.coordinates] : g?.type === 'MultiLineString' ? g.coordinates : [];
+    lines.filter(l => Array.isArray(l) && l.length >= 2).forEach(coords => out.push({ tags, coords }));
+  }
+  return out;
+};
+
+export const buildStreetNetworkEntries = (cityKey: string, ways: Pick<OsmWay, 'tags' | 'coords'>[]): StreetNetworkEntry[] => {
+  const byKey = new Map<string, StreetNetworkEntry>();
+  for (const way of ways) {
+    for (const clave of streetKeysFromTags(way.tags)) {
+      let entry = byKey.get(clave);
+      if (!entry) {
+        entry = { id: `${cityKey}|${clave}`, ciudad: cityKey, clave, nombre: way.tags.name || clave, lineas: [] };
+        byKey.set(clave, entry);
+      }
+      entry.lineas.push(way.coords.map(c => [c[0], c[1]] as [number, number]));
+    }
+  }
+  return Array.from(byKey.values());
+};
+
+/* ---- Planar helpers (local equirectangular projection around the via) ---- */
+
+interface Projection {
+  toXY: (p: [number, number]) => [number, number];
+  toLonLat: (p: [number, number]) => [number, number];
+}
+
+const createProjection = (lat0: number): Projection => {
+  const kx = METERS_PER_DEGREE_LON_EQUATOR * Math.cos(lat0 * Math.PI / 180);
+  const ky = METERS_PER_DEGREE_LAT;
+  return {
+    toXY: ([lon, lat]) => [lon * kx, lat * ky],
+    toLonLat: ([x, y]) => [x / kx, y / ky]
+  };
+};
+
+const closestOnSegment = (p: [number, number], a: [number, number], b: [number, number]): [number, number] => {
+  const dx = b[0] - a[0], dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2)) : 0;
+  return [a[0] + t * dx, a[1] + t * dy];
+};
+
+const dist = (a: [number, number], b: [number, number]) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+// Proper crossing point of two segments, if any
+const segmentIntersection = (a: [number, number], b: [number, number], c: [number, number], d: [number, number]): [number, number] | null => {
+  const r = [b[0] - a[0], b[1] - a[1]], s = [d[0] - c[0], d[1] - c[1]];
+  const denom = r[0] * s[1] - r[1] * s[0];
+  if (denom === 0) return null;
+  const t = ((c[0] - a[0]) * s[1] - (c[1] - a[1]) * s[0]) / denom;
+  const u = ((c[0] - a[0]) * r[1] - (c[1] - a[1]) * r[0]) / denom;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? [a[0] + t * r[0], a[1] + t * r[1]] : null;
+};
+
+// Point of `via` closest to `cross` (their intersection when they cross), with the gap in meters
+const closestApproach = (via: Line[], cross: Line[]): { point: [number, number], gapM: number } | null => {
+  let best: { point: [number, number], gapM: number } | null = null;
+  const consider = (point: [number, number], gapM: number) => { if (!best || gapM < best.gapM) best = { point, gapM }; };
+  for (const va of via) {
+    for (let i = 1; i < va.length; i++) {
+      const a = va[i - 1], b = va[i];
+      for (const cl of cross) {
+        for (let j = 1; j < cl.length; j++) {
+          const c = cl[j - 1], d = cl[j];
+          const hit = segmentIntersection(a, b, c, d);
+          if (hit) { consider(hit, 0); continue; }
+          const pc = closestOnSegment(c, a, b), pd = closestOnSegment(d, a, b);
+          consider(pc, dist(pc, c));
+          consider(pd, dist(pd, d));
+          consider(a, dist(a, closestOnSegment(a, c, d)));
+          consider(b, dist(b, closestOnSegment(b, c, d)));
+        }
+      }
+    }
+  }
+  return best;
+};
+
+const snapToLines = (p: [number, number], lines: Line[]): [number, number] => {
+  let best = p, bestD = Infinity;
+  for (const l of lines) {
+    for (let i = 1; i < l.length; i++) {
+      const q = closestOnSegment(p, l[i - 1], l[i]);
+      const d = dist(p, q);
+      if (d < bestD) { bestD = d; best = q; }
+    }
+  }
+  return best;
+};
+
+// Street entry for a via number, relaxing Bis/letters when the exact key is missing
+const lookupStreet = (streets: Map<string, StreetNetworkEntry>, family: string, v: ViaNumero): { entry: StreetNetworkEntry, exact: boolean } | null => {
+  const exact = streets.get(buildStreetKey(family, v));
+  if (exact) return { entry: exact, exact: true };
+  const relaxed = streets.get(buildStreetKey(family, { numero: v.numero, letra: v.letra, cuadrante: v.cuadrante }))
+    || streets.get(buildStreetKey(family, { numero: v.numero, cuadrante: v.cuadrante }));
+  return relaxed ? { entry: relaxed, exact: false } : null;
+};
+
+const isNorthSouth = (c?: Cuadrante) => c === 'SUR' || c === 'NORTE';
+
+export const geocodeOnStreetNetwork = (p: ParsedAddress, streets: Map<string, StreetNetworkEntry>): { lat: number, lon: number, confidence: number } | null => {
+  if (!p.cruce || !p.placa || !/^\d+$/.test(p.cruce.numero)) return null;
+  const family = viaFamily(p.tipo_via);
+  const crossFamilies = CROSS_FAMILIES[family] || ALL_FAMILIES;
+  const via: ViaNumero = { ...p.via };
+  const cruce: ViaNumero = { ...p.cruce };
+  // A trailing "Sur"/"Este" belongs to whichever street runs in that numbering (calles: Sur/Norte, carreras: Este/Oeste)
+  if (p.cuadrante) {
+    const viaIsCalle = family === 'CALLE' || family === 'DIAGONAL';
+    if (isNorthSouth(p.cuadrante) === viaIsCalle) via.cuadrante = via.cuadrante || p.cuadrante;
+    else cruce.cuadrante = cruce.cuadrante || p.cuadrante;
+  }
+
+  const viaHit = lookupStreet(streets, family, via);
+  if (!viaHit) return null;
+  const findCross = (v: ViaNumero) => {
+    for (const f of crossFamilies) {
+      const hit = lookupStreet(streets, f, v);
+      if (hit) return hit;
+    }
+    return null;
+  };
+  const crossHit = findCross(cruce);
+  if (!crossHit) return null;
+
+  const proj = createProjection(viaHit.entry.lineas[0][0][1]);
+  const project = (lines: Line[]) => lines.map(l => l.map(proj.toXY));
+  const viaXY = project(viaHit.entry.lineas);
+  const corner = closestApproach(viaXY, project(crossHit.entry.lineas));
+  if (!corner || corner.gapM > MAX_INTERSECTION_GAP_M) return null;
+
+  // Neighbouring corner: the next cross street gives the direction and length of the block
+  const n = parseInt(cruce.numero, 10);
+  const cornerWith = (v: ViaNumero) => {
+    const hit = v.numero !== '0' ? findCross(v) : null;
+    const c = hit ? closestApproach(viaXY, project(hit.entry.lineas)) : null;
+    return c && c.gapM <= MAX_INTERSECTION_GAP_M && dist(c.point, corner.point) <= MAX_BLOCK_M && dist(c.point, corner.point) > 1 ? c.point : null;
+  };
+  const fraction = Math.min(parseInt(p.placa, 10) || 0, 99) / 100;
+  let target = corner.point;
+  let confidence = 0.6;
+  const next = cornerWith({ numero: String(n + 1), cuadrante: cruce.cuadrante });
+  if (next) {
+    target = [corner.point[0] + (next[0] - corner.point[0]) * fraction, corner.point[1] + (next[1] - corner.point[1]) * fraction];
+    confidence = 0.85;
+  } else {
+    const prev = cornerWith({ numero: String(cruce.letra ? n : n - 1), cuadrante: cruce.cuadrante });
+    if (prev) {
+      target = [corner.point[0] + (corner.point[0] - prev[0]) * fraction, corner.point[1] + (corner.point[1] - prev[1]) * fraction];
+      confidence = 0.75;
+    }
+  }
+  if (!viaHit.exact || !crossHit.exact) confidence -= 0.1;
+
+  const [lon, lat] = proj.toLonLat(snapToLines(target, viaXY));
+  return { lat, lon, confidence };
+};
+
+/*
+  Provider for the geocoder chain. Storage stays in postalService: `hasCity` must answer
+  synchronously from memory and `loadCity` returns the streets of a city keyed by clave.
+*/
+export const createStreetNetworkProvider = (source: {
+  hasData: () => boolean;
+  hasCity: (city: string) => boolean;
+  loadCity: (city: string) => Promise<Map<string, StreetNetworkEntry> | null>;
+}): GeocoderProvider => ({
+  id: 'osm_streets',
+  label: 'Red vial OSM (offline)',
+  stage: 'point',
+  priority: 40,
+  defaultTimeoutMs: 5000,
+  defaultMinConfidence: 0,
+  isAvailable: source.hasData,
+  geocode: async (q) => {
+    if (!q.city || !source.hasCity(q.city)) return null;
+    const parsed = parseAddress(q.street).address || parseAddress(q.address).address;
+    if (!parsed || !parsed.cruce || !parsed.placa) return null;
+    const streets = await source.loadCity(q.city);
+    if (!streets) return null;
+    const hit = geocodeOnStreetNetwork(parsed, streets);
+    return hit ? { ...hit, formattedAddress: formatAddress(parsed) } : null;
+  }
+});
@@ -0,0 +1,324 @@
+import { PostalZone, TopologyIssue } from '../types';
+import { buildRTree, BBox, RTree } from './spatialIndex';
+import { Position, getPolygons, metersToDegrees, polygonArea } from './geometry';
+
+/*
+  =============================================================================
+  SHAPEFILE TOPOLOGY VALIDATION
+  =============================================================================
+  Checks the imported zones for overlaps, gaps between neighbours of the same
+  municipality, self-intersecting rings, empty geometries and duplicated postal
+  codes with different geometry. Pure (no DB access); callers pass the zones.
+*/
+
+export interface TopologyOptions {
+    toleranceM: number; // Shared borders digitized within this distance are considered coincident
+    maxGapM: number;    // Neighbours separated by more than this are not reported as gaps
+}
+
+const DEFAULT_OPTIONS: TopologyOptions = { toleranceM: 1, maxGapM: 25 };
+
+// Consecutive boundary vertices that must sit in the gap band before a sliver is reported
+const MIN_GAP_RUN = 3;
+
+const METERS_PER_DEGREE_LAT = 110574;
+const METERS_PER_DEGREE_LON_EQUATOR = 111320;
+
+interface Segment {
+    ax: number; ay: number; bx: number; by: number;
+    bbox: BBox;
+    ring: number; // Ring number within the zone (all parts)
+    idx: number;  // Segment position inside its ring
+    ringSize: number;
+}
+
+interface ZoneEdges {
+    rings: Position[][];
+    tree: RTree<Segment>;
+}
+
+const buildZoneEdges = (zone: PostalZone): ZoneEdges => {
+    const rings: Position[][] = [];
+    const segments: Segment[] = [];
+    for (const polygon of getPolygons(zone.geometry)) {
+        for (const ring of polygon) {
+            if (!Array.isArray(ring) || ring.length < 2) continue;
+            const ringNo = rings.length;
+            rings.push(ring);
+            const ringSize = ring.length - 1;
+            for (let i = 0; i < ringSize; i++) {
+                const [ax, ay] = ring[i];
+                const [bx, by] = ring[i + 1];
+                if (ax === bx && ay === by) continue;
+                segments.push({
+                    ax, ay, bx, by,
+                    bbox: [Math.min(ax, bx), Math.min(ay, by), Math.max(ax, bx), Math.max(ay, by)],
+                    ring: ringNo, idx: i, ringSize
+                });
+            }
+        }
+    }
+    return { rings, tree: buildRTree(segments, s => s.bbox) };
+};
+
+// Even-odd ray cast over every ring of the zone, using only the segments the ray can hit
+const isInsideEdges = (edges: ZoneEdges, lon: number, lat: number): boolean => {
+    let inside = false;
+    for (const s of edges.tree.search([lon, lat, Infinity, lat])) {
+        if ((s.ay > lat) !== (s.by > lat) && lon < (s.bx - s.ax) * (lat - s.ay) / (s.by - s.ay) + s.ax) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+// Distance in meters to the closest edge within `maxM`; Infinity when no edge is that close
+const distanceToEdgesM = (edges: ZoneEdges, lon: number, lat: number, maxM: number): number => {
+    const { dLat, dLon } = metersToDegrees(lat, maxM);
+    const kx = METERS_PER_DEGREE_LON_EQUATOR * Math.cos(lat * Math.PI / 180);
+    const ky = METERS_PER_DEGREE_LAT;
+    let best = Infinity;
+    for (const s of edges.tree.search([lon - dLon, lat - dLat, lon + dLon, lat + dLat])) {
+        const ax = (s.ax - lon) * kx, ay = (s.ay - lat) * ky;
+        const dx = (s.bx - s.ax) * kx, dy = (s.by - s.ay) * ky;
+        const len2 = dx * dx + dy * dy;
+        const t = len2 > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2)) : 0;
+        const px = ax + t * dx, py = ay + t * dy;
+        const d = px * px + py * py;
+        if (d < best) best = d;
+    }
+    best = Math.sqrt(best);
+    return best <= maxM ? best : Infinity;
+};
+
+const orient = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number): number =>
+    (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+
+// Crossing point when both segments strictly straddle each other (touching or collinear overlap is not a crossing)
+const properCrossing = (s: Segment, t: Segment): Position | null => {
+    const d1 = orient(s.ax, s.ay, s.bx, s.by, t.ax, t.ay);
+    const d2 = orient(s.ax, s.ay, s.bx, s.by, t.bx, t.by);
+    const d3 = orient(t.ax, t.ay, t.bx, t.by, s.ax, s.ay);
+    const d4 = orient(t.ax, t.ay, t.bx, t.by, s.bx, s.by);
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+        const r = d1 / (d1 - d2);
+        return [t.ax + r * (t.bx - t.ax), t.ay + r * (t.by - t.ay)];
+    }
+    return null;
+};
+
+const areAdjacent = (s: Segment, t: Segment): boolean => {
+    const diff = Math.abs(s.idx - t.idx);
+    return diff <= 1 || diff === s.ringSize - 1;
+};
+
+const isEmptyGeometry = (zone: PostalZone): boolean => {
+    const polygons = getPolygons(zone.geometry);
+    if (polygons.length === 0) return true;
+    return !polygons.some(rings => Array.isArray(rings[0]) && rings[0].length >= 4 && polygonArea(rings) > 0);
+};
+
+// Cheap content hash of the coordinates, enough to tell "same geometry" from "different geometry"
+const geometrySignature = (zone: PostalZone): string => {
+    const text = JSON.stringify(zone.geometry?.coordinates ?? null);
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return `${text.length}:${(h >>> 0).toString(16)}`;
+};
+
+const zoneLocation = (zone: PostalZone): { lat: number, lon: number } => ({
+    lat: typeof zone.labelLat === 'number' ? zone.labelLat : zone.centerLat,
+    lon: typeof zone.labelLon === 'number' ? zone.labelLon : zone.centerLon
+});
+
+const municipalityKey = (zone: PostalZone): string =>
+    String(zone.codigo_municipio || zone.nombre_municipio || '').trim().toUpperCase();
+
+// First vertex (or edge midpoint) of `a` lying inside `b` farther than the tolerance from b's border
+const findOverlapPoint = (a: ZoneEdges, b: ZoneEdges, bBox: BBox, toleranceM: number): Position | null => {
+    const test = (lon: number, lat: number): boolean =>
+        lon >= bBox[0] && lon <= bBox[2] && lat >= bBox[1] && lat <= bBox[3] &&
+        isInsideEdges(b, lon, lat) && distanceToEdgesM(b, lon, lat, toleranceM) === Infinity;
+    for (const ring of a.rings) {
+        for (let i = 0; i < ring.length - 1; i++) {
+            const [x, y] = ring[i];
+            if (test(x, y)) return [x, y];
+            const mx = (x + ring[i + 1][0]) / 2, my = (y + ring[i + 1][1]) / 2;
+            if (test(mx, my)) return [mx, my];
+        }
+    }
+    return null;
+};
+
+/*
+  Scans a's boundary against b. A sliver gap is a run of consecutive vertices of a that
+  leave b's border (beyond the tolerance, within maxGapM, outside b) and come back to it.
+*/
+const scanGap = (a: ZoneEdges, b: ZoneEdges, opts: TopologyOptions) => {
+    let touches = false;
+    let minDistance = Infinity;
+    let closest: Position | null = null;
+    let run: Position | null = null;
+    for (const ring of a.rings) {
+        let onBorder = false;
+        let runPoints: Position[] = [];
+        for (let i = 0; i < ring.length - 1; i++) {
+            const [x, y] = ring[i];
+            const d = distanceToEdgesM(b, x, y, opts.maxGapM);
+            if (d <= opts.toleranceM) {
+                touches = true;
+                if (onBorder && runPoints.length >= MIN_GAP_RUN && !run) run = runPoints[Math.floor(runPoints.length / 2)];
+                onBorder = true;
+                runPoints = [];
+            } else if (d !== Infinity && !isInsideEdges(b, x, y)) {
+                if (d < minDistance) { minDistance = d; closest = [x, y]; }
+                runPoints.push([x, y]);
+            } else {
+                onBorder = false;
+                runPoints = [];
+            }
+        }
+    }
+    return { touches, minDistance, closest, run };
+};
+
+const expandBBox = (bbox: BBox, meters: number): BBox => {
+    const { dLat, dLon } = metersToDegrees((bbox[1] + bbox[3]) / 2, meters);
+    return [bbox[0] - dLon, bbox[1] - dLat, bbox[2] + dLon, bbox[3] + dLat];
+};
+
+const yieldToUI = () => new Promise(r => setTimeout(r, 0));
+
+export const findTopologyIssues = async (
+    zones: PostalZone[],
+    options: Partial<TopologyOptions> = {},
+    onProgress?: (percent: number, msg: string) => void
+): Promise<TopologyIssue[]> => {
+    const opts: TopologyOptions = { ...DEFAULT_OPTIONS, ...options };
+    const issues: TopologyIssue[] = [];
+    const total = zones.length;
+
+    // 1. Empty geometries (excluded from every other check)
+    const valid: PostalZone[] = [];
+    for (const zone of zones) {
+        if (isEmptyGeometry(zone)) {
+            const loc = zoneLocation(zone);
+            issues.push({
+                tipo: 'GEOMETRIA_VACIA', zona_ids: [zone.id], codigos_postales: [zone.codigo_postal],
+                municipio: zone.nombre_municipio, detalle: 'La zona no tiene polígonos con área.',
+                lat: loc.lat, lon: loc.lon
+            });
+        } else {
+            valid.push(zone);
+        }
+    }
+
+    // 2. Same postal code imported with different geometries
+    const byCP = new Map<string, PostalZone[]>();
+    for (const zone of valid) {
+        // '000000' is the placeholder for features without a CP attribute, not a real duplicate
+        if (!zone.codigo_postal || zone.codigo_postal === '000000') continue;
+        const list = byCP.get(zone.codigo_postal) || [];
+        list.push(zone);
+        byCP.set(zone.codigo_postal, list);
+    }
+    byCP.forEach((group, cp) => {
+        if (group.length < 2) return;
+        const signatures = new Set(group.map(geometrySignature));
+        if (signatures.size < 2) return;
+        const loc = zoneLocation(group[0]);
+        issues.push({
+            tipo: 'CP_DUPLICADO', zona_ids: group.map(z => z.id), codigos_postales: [cp],
+            municipio: Array.from(new Set(group.map(z => z.nombre_municipio))).join(', '),
+            detalle: `El código postal ${cp} aparece en ${group.length} zonas con ${signatures.size} geometrías distintas.`,
+            lat: loc.lat, lon: loc.lon
+        });
+    });
+
+    // Segment indexes are built lazily and dropped once a zone has been compared with all its neighbours
+    const edgesCache = new Map<string, ZoneEdges>();
+    const edgesOf = (zone: PostalZone): ZoneEdges => {
+        let e = edgesCache.get(zone.id);
+        if (!e) { e = buildZoneEdges(zone); edgesCache.set(zone.id, e); }
+        return e;
+    };
+    const order = new Map<string, number>();
+    valid.forEach((z, i) => order.set(z.id, i));
+    const zoneTree = buildRTree(valid, z => z.bbox);
+
+    for (let i = 0; i < valid.length; i++) {
+        const a = valid[i];
+        const aEdges = edgesOf(a);
+
+        // 3. Self-intersecting rings (one issue per ring)
+        const flaggedRings = new Set<number>();
+        for (const s of aEdges.tree.search(a.bbox)) {
+            if (flaggedRings.has(s.ring)) continue;
+            for (const t of aEdges.tree.search(s.bbox)) {
+                if (t.ring !== s.ring || t.idx <= s.idx || areAdjacent(s, t)) continue;
+                const p = properCrossing(s, t);
+                if (p) {
+                    flaggedRings.add(s.ring);
+                    issues.push({
+                        tipo: 'AUTOINTERSECCION', zona_ids: [a.id], codigos_postales: [a.codigo_postal],
+                        municipio: a.nombre_municipio,
+                        detalle: `El anillo ${s.ring + 1} se cruza a sí mismo (segmentos ${s.idx + 1} y ${t.idx + 1}).`,
+                        lat: p[1], lon: p[0]
+                    });
+                    break;
+                }
+            }
+        }
+
+        // 4/5. Overlaps with any neighbour and gaps with neighbours of the same municipality
+        for (const b of zoneTree.search(expandBBox(a.bbox, opts.maxGapM))) {
+            if ((order.get(b.id) ?? -1) <= i) continue;
+            const bEdges = edgesOf(b);
+            const bboxesTouch = a.bbox[0] <= b.bbox[2] && a.bbox[2] >= b.bbox[0] && a.bbox[1] <= b.bbox[3] && a.bbox[3] >= b.bbox[1];
+
+            if (bboxesTouch) {
+                const p = findOverlapPoint(aEdges, bEdges, b.bbox, opts.toleranceM) || findOverlapPoint(bEdges, aEdges, a.bbox, opts.toleranceM);
+                if (p) {
+                    issues.push({
+                        tipo: 'SOLAPAMIENTO', zona_ids: [a.id, b.id], codigos_postales: [a.codigo_postal, b.codigo_postal],
+                        municipio: a.nombre_municipio === b.nombre_municipio ? a.nombre_municipio : `${a.nombre_municipio} / ${b.nombre_municipio}`,
+                        detalle: `Las zonas ${a.codigo_postal} y ${b.codigo_postal} se solapan.`,
+                        lat: p[1], lon: p[0]
+                    });
+                    continue;
+                }
+            }
+
+            if (!municipalityKey(a) || municipalityKey(a) !== municipalityKey(b)) continue;
+            const ab = scanGap(aEdges, bEdges, opts);
+            const ba = scanGap(bEdges, aEdges, opts);
+            const touches = ab.touches || ba.touches;
+            const run = ab.run || ba.run;
+            const nearest = ab.minDistance <= ba.minDistance ? ab : ba;
+            const p = run || (!touches ? nearest.closest : null);
+            if (p) {
+                const distance = Math.round(nearest.minDistance * 10) / 10;
+                issues.push({
+                    tipo: 'HUECO', zona_ids: [a.id, b.id], codigos_postales: [a.codigo_postal, b.codigo_postal],
+                    municipio: a.nombre_municipio,
+                    detalle: touches
+                        ? `Franja sin cubrir entre ${a.codigo_postal} y ${b.codigo_postal} a lo largo del límite compartido.`
+                        : `Las zonas vecinas ${a.codigo_postal} y ${b.codigo_postal} no se tocan (separación mínima ${distance} m).`,
+                    lat: p[1], lon: p[0],
+                    distancia_m: distance
+                });
+            }
+        }
+        edgesCache.delete(a.id);
+
+        if (onProgress && (i % 50 === 0 || i === valid.length - 1)) {
+            onProgress(Math.round(((i + 1) / Math.max(1, valid.length)) * 100), `Validando topología ${i + 1}/${total}...`);
+            await yieldToUI();
+        }
+    }
+
+    return issues;
+};
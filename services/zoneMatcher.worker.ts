@@ -0,0 +1,61 @@
+import { PostalZone } from '../types';
+import { buildRTree, RTree } from './spatialIndex';
+import { findNearestZone, metersToDegrees, pickZoneAtPoint } from './geometry';
+
+/*
+  =============================================================================
+  ZONE MATCHER WORKER
+  =============================================================================
+  Receives the zones once ('init'), builds its own R-tree and answers 'match'
+  requests with the zone that contains the point (distance 0) or the nearest
+  zone within the buffer. Only ids and distances travel back to the main thread.
+*/
+
+export type ZoneMatcherRequest =
+  | { type: 'init', zones: Pick<PostalZone, 'id' | 'codigo_postal' | 'geometry' | 'bbox'>[] }
+  | { type: 'match', requestId: number, lat: number, lon: number, toleranceM: number, bufferM: number, zoneIds?: string[] };
+
+export type ZoneMatcherResponse =
+  | { type: 'ready', count: number }
+  | { type: 'result', requestId: number, zoneId: string | null, distanceM: number }
+  | { type: 'error', requestId?: number, message: string };
+
+// The app compiles with the DOM lib only, so type the worker scope by hand
+const ctx = self as unknown as {
+  postMessage: (msg: ZoneMatcherResponse) => void;
+  onmessage: ((e: MessageEvent<ZoneMatcherRequest>) => void) | null;
+};
+
+let tree: RTree<PostalZone> | null = null;
+
+const searchAround = (lat: number, lon: number, meters: number): PostalZone[] => {
+  const { dLat, dLon } = metersToDegrees(lat, meters);
+  return tree ? tree.search([lon - dLon, lat - dLat, lon + dLon, lat + dLat]) : [];
+};
+
+ctx.onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === 'init') {
+    tree = buildRTree(msg.zones as PostalZone[], z => z.bbox);
+    ctx.postMessage({ type: 'ready', count: tree.size });
+    return;
+  }
+  if (msg.type === 'match') {
+    try {
+      const allowed = msg.zoneIds ? new Set(msg.zoneIds) : null;
+      const keep = (zones: PostalZone[]) => allowed ? zones.filter(z => allowed.has(z.id)) : zones;
+
+      const inside = pickZoneAtPoint(msg.lon, msg.lat, keep(searchAround(msg.lat, msg.lon, msg.toleranceM)), msg.toleranceM);
+      if (inside) {
+        ctx.postMessage({ type: 'result', requestId: msg.requestId, zoneId: inside.id, distanceM: 0 });
+        return;
+      }
+      const nearest = msg.bufferM > 0
+        ? findNearestZone(msg.lon, msg.lat, keep(searchAround(msg.lat, msg.lon, msg.bufferM)), msg.bufferM)
+        : null;
+      ctx.postMessage({ type: 'result', requestId: msg.requestId, zoneId: nearest ? nearest.zone.id : null, distanceM: nearest ? nearest.distanceM : 0 });
+    } catch (err: any) {
+      ctx.postMessage({ type: 'error', requestId: msg.requestId, message: String(err?.message || err) });
+    }
+  }
+};
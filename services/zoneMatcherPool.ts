@@ -0,0 +1,101 @@
+import { PostalZone } from '../types';
+import type { ZoneMatcherRequest, ZoneMatcherResponse } from './zoneMatcher.worker';
+
+/*
+  =============================================================================
+  ZONE MATCHER POOL
+  =============================================================================
+  A fixed set of module workers (see zoneMatcher.worker.ts). Zones are posted once
+  at creation; each match request goes to the worker with the fewest pending ones.
+*/
+
+export interface ZoneMatch {
+  zoneId: string;
+  distanceM: number; // 0 = inside (or on the boundary band of) the zone
+}
+
+export interface ZoneMatcherPool {
+  size: number;
+  match: (lat: number, lon: number, opts: { toleranceM: number, bufferM: number, zoneIds?: string[] }) => Promise<ZoneMatch | null>;
+  terminate: () => void;
+}
+
+const INIT_TIMEOUT_MS = 60000;
+
+interface PoolWorker {
+  worker: Worker;
+  pending: Map<number, { resolve: (m: ZoneMatch | null) => void, reject: (e: Error) => void }>;
+}
+
+// Resolves to null when workers are unavailable (no Worker support, or a worker failed to load the zones)
+export const createZoneMatcherPool = async (zones: PostalZone[], size: number): Promise<ZoneMatcherPool | null> => {
+  if (typeof Worker === 'undefined' || size <= 0 || zones.length === 0) return null;
+
+  // Display LODs and label points are not needed for matching; keep the cloned payload small
+  const payload = zones.map(z => ({ id: z.id, codigo_postal: z.codigo_postal, geometry: z.geometry, bbox: z.bbox }));
+  const workers: PoolWorker[] = [];
+  let nextRequestId = 1;
+
+  const failAll = (pw: PoolWorker, reason: string) => {
+    pw.pending.forEach(p => p.reject(new Error(reason)));
+    pw.pending.clear();
+  };
+
+  try {
+    await Promise.all(Array.from({ length: size }, () => new Promise<void>((resolve, reject) => {
+      const worker = new Worker(new URL('./zoneMatcher.worker.ts', import.meta.url), { type: 'module' });
+      const pw: PoolWorker = { worker, pending: new Map() };
+      workers.push(pw);
+      const timer = setTimeout(() => reject(new Error('Tiempo de espera agotado iniciando workers de zonas')), INIT_TIMEOUT_MS);
+
+      worker.onmessage = (e: MessageEvent<ZoneMatcherResponse>) => {
+        const msg = e.data;
+        if (msg.type === 'ready') {
+          clearTimeout(timer);
+          resolve();
+        } else if (msg.type === 'result') {
+          const p = pw.pending.get(msg.requestId);
+          if (!p) return;
+          pw.pending.delete(msg.requestId);
+          p.resolve(msg.zoneId ? { zoneId: msg.zoneId, distanceM: msg.distanceM } : null);
+        } else if (msg.type === 'error' && msg.requestId !== undefined) {
+          const p = pw.pending.get(msg.requestId);
+          if (!p) return;
+          pw.pending.delete(msg.requestId);
+          p.reject(new Error(msg.message));
+        }
+      };
+      worker.onerror = (e) => {
+        clearTimeout(timer);
+        failAll(pw, e.message || 'Worker de zonas falló');
+        reject(new Error(e.message || 'Worker de zonas falló'));
+      };
+
+      const init: ZoneMatcherRequest = { type: 'init', zones: payload };
+      worker.postMessage(init);
+    })));
+  } catch (err) {
+    console.warn('[ZONE WORKERS] Could not start worker pool, matching stays on the main thread', err);
+    workers.forEach(pw => pw.worker.terminate());
+    return null;
+  }
+
+  return {
+    size: workers.length,
+    match: (lat, lon, opts) => {
+      const pw = workers.reduce((best, cur) => cur.pending.size < best.pending.size ? cur : best, workers[0]);
+      const requestId = nextRequestId++;
+      return new Promise<ZoneMatch | null>((resolve, reject) => {
+        pw.pending.set(requestId, { resolve, reject });
+        const req: ZoneMatcherRequest = { type: 'match', requestId, lat, lon, toleranceM: opts.toleranceM, bufferM: opts.bufferM, zoneIds: opts.zoneIds };
+        pw.worker.postMessage(req);
+      });
+    },
+    terminate: () => {
+      workers.forEach(pw => {
+        failAll(pw, 'Pool de workers terminado');
+        pw.worker.terminate();
+      });
+    }
+  };
+};
@@ -1,3 +1,4 @@
 declare module 'shpjs' {
-  export default function shp(input: ArrayBuffer | string): Promise<any>;
-}
\ No newline at end of file
+  type ShapefileBinary = ArrayBuffer | ArrayBufferView | DataView;
+  export default function shp(input: ArrayBuffer | string | { shp: ShapefileBinary; dbf?: ShapefileBinary; cpg?: string; prj?: string }): Promise<any>;
+}
@@ -17,9 +17,17 @@ export interface PostalZone {
   // Optimization: Bounding Box [minLon, minLat, maxLon, maxLat]
   bbox: [number, number, number, number];
   
-  // Calculated for quick map centering
+  // Area-weighted centroid (may fall outside concave zones or zones with holes)
   centerLat: number;
   centerLon: number;
+
+  // Interior label point (pole of inaccessibility). Always inside the zone; used for fallback coordinates.
+  // Optional because zones imported before it existed only carry the centroid.
+  labelLat?: number;
+  labelLon?: number;
+
+  // Display-only simplified geometries, one per ZONE_LOD_LEVELS entry (finest first). Never used for point-in-polygon.
+  geometryLod?: PostalZone['geometry'][];
 }
 
 export type UserRole = 'TI' | 'Contabilidad' | 'Facturación' | 'Operaciones' | 'Admin';
@@ -29,6 +37,62 @@ export interface AuthSession {
   role: UserRole;
 }
 
+export type ViaType = 'CALLE' | 'CARRERA' | 'AVENIDA' | 'AVENIDA CALLE' | 'AVENIDA CARRERA' | 'DIAGONAL' | 'TRANSVERSAL' | 'CIRCULAR' | 'AUTOPISTA';
+export type Cuadrante = 'SUR' | 'ESTE' | 'NORTE' | 'OESTE';
+export type AddressComplementType = 'APTO' | 'TORRE' | 'INTERIOR' | 'CASA' | 'BLOQUE' | 'MANZANA' | 'LOCAL' | 'OFICINA' | 'PISO' | 'ETAPA' | 'CONJUNTO' | 'EDIFICIO' | 'BARRIO' | 'OTRO';
+
+// One numbered part of an address: "12A Bis B Sur" -> { numero: '12', letra: 'A', bis: true, letra_bis: 'B', cuadrante: 'SUR' }
+export interface ViaNumero {
+  numero: string; // Digits, or the name for named avenues ("Boyacá")
+  letra?: string;
+  bis?: boolean;
+  letra_bis?: string;
+  cuadrante?: Cuadrante;
+}
+
+// Urban address: <tipo_via> <via> # <cruce>-<placa> <cuadrante> <complementos>
+export interface ParsedAddress {
+  tipo_via: ViaType;
+  via: ViaNumero;
+  cruce?: ViaNumero;
+  placa?: string;
+  cuadrante?: Cuadrante;
+  complementos: { tipo: AddressComplementType; valor: string }[];
+}
+
+// Rural address: "Km 5 vía Chía-Cajicá", "Vereda La Balsa finca El Roble", "Corregimiento de San Cristóbal"
+export interface ParsedRuralAddress {
+  kilometro?: string;     // "5", "5.3", "5+300"
+  via?: string;           // Road the kilometer refers to, e.g. "Chía-Cajicá"
+  vereda?: string;
+  finca?: string;         // Finca / hacienda / parcela / predio name
+  corregimiento?: string;
+  sector?: string;
+  zona_rural?: boolean;   // Explicit "rural" / "zona rural" mention
+}
+
+// Parse problem with character offsets [inicio, fin) into the original address string
+export interface AddressParseError {
+  codigo: 'DIRECCION_VACIA' | 'TIPO_VIA_FALTANTE' | 'NUMERO_VIA_FALTANTE' | 'CRUCE_FALTANTE' | 'PLACA_FALTANTE' | 'TOKEN_INESPERADO';
+  mensaje: string;
+  inicio: number;
+  fin: number;
+}
+
+// Machine-readable reasons behind AddressTemplate.calidad_direccion
+export type AddressQualityReason =
+  | 'SIN_DIRECCION'
+  | 'MUY_CORTA'
+  | 'SIN_TIPO_VIA'
+  | 'SIN_NUMERO_VIA'
+  | 'SIN_CRUCE'
+  | 'SIN_PLACA'
+  | 'SOLO_BARRIO'
+  | 'RURAL_SIN_REFERENCIA'
+  | 'TELEFONO'
+  | 'EMAIL'
+  | 'TEXTO_EXTRA';
+
 export interface AddressTemplate {
   id: string;
   dane_destino: string;
@@ -37,11 +101,106 @@ export interface AddressTemplate {
   direccion: string;
   codigo_postal_asignado?: string;
   coordenadas?: string; // New field for Latitude, Longitude
+  distancia_zona_m?: number; // Meters from the geocoded point to the assigned zone edge (0 = inside the polygon)
   localidad_detectada?: string;
   direccion_google?: string; // Normalizada por API
+  direccion_estructurada?: ParsedAddress; // Parsed form of `direccion` (absent when it could not be parsed)
+  errores_direccion?: AddressParseError[];
+  direccion_rural?: ParsedRuralAddress; // Set when the address uses rural references (km, vereda, finca, corregimiento)
+  calidad_direccion?: number; // 0-100, scored before geocoding (see addressQuality.ts)
+  motivos_calidad?: AddressQualityReason[];
+  consenso?: ConsensusReport; // Only in consensus mode (every provider geocodes the row)
+  procedencia?: ResolutionProvenance; // How the CP was obtained; absent for rows that failed or timed out
+  verificacion_cp?: PostalCrossCheck; // Only for CPs returned by a 'postal' provider
+  normalizacion?: AddressNormalization; // Rewrite used for geocoding when the parser could not read `direccion`
   originalData?: any; // To store the full original row from Excel
 }
 
+// Canonical parts returned by an address normalizer (see addressNormalizer.ts)
+export interface NormalizedAddressParts {
+  tipo_via: ViaType;
+  numero_via: string;   // "12A Bis Sur"
+  numero_cruce: string;
+  placa: string;
+  complemento?: string; // "Apto 301, Torre 2"
+  barrio?: string;
+}
+
+export interface AddressNormalization {
+  direccion: string;    // Canonical address, e.g. "Calle 10 # 5-20 Apto 301"
+  proveedor: string;    // Normalizer id ('gemini', 'stub')
+  barrio?: string;
+}
+
+// Which step of resolveSingleAddress produced the CP
+export type ResolutionStrategy =
+  | 'PROVEEDOR_POSTAL'    // Returned by a 'postal' provider (Google Address Validation, 472 API)
+  | 'INDICE_DANE'         // preferred_postal of the municipal index, without geocoding
+  | 'POLIGONO'            // Geocoded point inside a zone
+  | 'ZONA_CERCANA'        // Geocoded point outside every zone but within the nearest-zone buffer
+  | 'LOCALIDAD'           // Overridden by the zone of the detected localidad
+  | 'RESPALDO_MUNICIPAL'  // Geocoding failed or fell outside the zones; municipal index CP
+  | 'SIN_RESOLVER';       // No CP (status code in codigo_postal_asignado)
+
+// What `coordenadas` stands for: the address, only its street, only the city, or the zone's interior point
+export type GeocodePrecision = 'DIRECCION' | 'VIA' | 'MUNICIPIO' | 'CENTROIDE_ZONA' | 'NINGUNA';
+
+export type VerdictLevel = 'ALTA' | 'MEDIA' | 'BAJA';
+
+// Google Address Validation `verdict` of the answer that gave the CP
+export interface AddressValidationVerdict {
+  granularidad: string;             // validationGranularity: SUB_PREMISE, PREMISE, PREMISE_PROXIMITY, BLOCK, ROUTE, OTHER
+  completa: boolean;                // addressComplete
+  componentesSinConfirmar: boolean; // hasUnconfirmedComponents
+  componentesInferidos: boolean;    // hasInferredComponents
+  nivel: VerdictLevel;
+}
+
+export interface ResolutionProvenance {
+  estrategia: ResolutionStrategy;
+  proveedor?: string;     // Geocoder provider id whose answer was used
+  precision: GeocodePrecision;
+  confianza: number;      // 0-1
+  veredicto?: AddressValidationVerdict; // Google Address Validation verdict, also when its CP was rejected for low confidence
+}
+
+export type PostalCrossCheckStatus =
+  | 'COINCIDE'            // The point's zone and the row's DANE agree with the external CP
+  | 'DIFIERE_POLIGONO'    // The returned point falls in a zone with another CP
+  | 'DIFIERE_DANE'        // The CP is not one of the zones of the row's DANE
+  | 'SIN_REFERENCIA';     // No point inside our zones and no zones for the DANE to compare with
+
+// External CP (Google, 4-72 API) compared with our shapefile zones
+export interface PostalCrossCheck {
+  estado: PostalCrossCheckStatus;
+  cp_externo: string;
+  proveedor?: string;
+  cp_poligono?: string;   // CP of the zone containing the returned point
+  dane_fila?: string;
+  dane_poligono?: string; // DANE of the zone containing the returned point
+}
+
+// One provider's answer in consensus mode
+export interface ConsensusCandidate {
+  proveedor: string;
+  codigo_postal: string | null; // CP given by the provider or of the zone its point falls in; null = outside every zone
+  lat?: number;
+  lon?: number;
+  distancia_max_m?: number;     // Farthest distance from this point to the other providers' points
+  distancias_m?: Record<string, number>; // Distance to each other provider's point, by provider id
+}
+
+// DESACUERDO: providers point to different CPs, or to another CP than the one assigned to the row;
+// INSUFICIENTE: fewer than two providers' CPs to compare
+export type ConsensusStatus = 'ACUERDO' | 'DESACUERDO' | 'INSUFICIENTE';
+
+export interface ConsensusReport {
+  estado: ConsensusStatus;
+  cp_asignado: string;                // CP written to the row
+  estrategia_asignada?: ResolutionStrategy;
+  candidatos: ConsensusCandidate[];
+}
+
 export interface PaginatedResult<T> {
   data: T[];
   total: number;
@@ -49,14 +208,73 @@ export interface PaginatedResult<T> {
   totalPages: number;
 }
 
+// Reported by processTemplateBatch when a run ends (or is stopped)
+export interface BatchRunSummary {
+  totalRows: number;
+  uniqueDestinations: number; // Distinct address + city + DANE; each one is resolved once
+  processedRows: number;
+  success: number;
+  errors: number;
+  consensusDisagreements?: number; // Rows flagged DESACUERDO; only set in consensus mode
+  externalPostalMismatches?: number; // Provider CPs that differ from our polygon or the row's DANE
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Live state of one provider in the shared rate limiter (services/rateLimiter.ts)
+export interface ProviderRateStatus {
+  id: string;
+  circuit: CircuitState;
+  tokens: number;             // Tokens left in the bucket; Infinity when the provider is unthrottled
+  ratePerSec: number;         // 0 = unthrottled
+  burst: number;
+  waiting: number;            // Callers queued for a token
+  requests: number;
+  failures: number;
+  throttled: number;          // 429 / OVER_QUERY_LIMIT answers
+  consecutiveFailures: number;
+  retryAt: number | null;     // Epoch ms when an open circuit or a 429 backoff ends
+}
+
+// Normalizer dictionaries, editable by operations and stored in IndexedDB
+export interface AddressDictionaries {
+  abreviaturas: { variante: string; expansion: string }[]; // "kra" -> "Carrera"; matched as a whole word, optional trailing dot
+  palabras_ruido: string[];        // Removed before geocoding (apto, torre, mz...)
+  ciudades_conflictivas: string[]; // City names stripped from the address when they are not the destination city
+  actualizado?: number;
+}
+
 export interface MunicipalIndexEntry {
   dane: string;
   nombre_municipio: string;
   nombre_departamento: string;
-  entries: { codigo_postal: string; tipo: string }[];
+  entries: { codigo_postal: string; tipo: string; barrios?: string }[]; // barrios: barrios/veredas/corregimientos covered by the CP (CSV column)
   preferred_postal: string;
 }
 
+// One named street of the offline road network (imported from an OSM extract), per city and street key
+export interface StreetNetworkEntry {
+  id: string;     // `${ciudad}|${clave}`
+  ciudad: string; // City key the extract was imported for (normalized like the zone index)
+  clave: string;  // Street key from the parsed name: "CALLE 63A", "CARRERA 15 BIS", "CALLE 10 SUR"
+  nombre: string; // OSM name of the first way with this key
+  lineas: [number, number][][]; // Polylines [lon, lat]
+}
+
+export type TopologyIssueType = 'SOLAPAMIENTO' | 'HUECO' | 'AUTOINTERSECCION' | 'GEOMETRIA_VACIA' | 'CP_DUPLICADO';
+
+// One finding of the shapefile topology validation. lat/lon locate the issue for the map link (NaN when unknown).
+export interface TopologyIssue {
+  tipo: TopologyIssueType;
+  zona_ids: string[];
+  codigos_postales: string[];
+  municipio: string;
+  detalle: string;
+  lat: number;
+  lon: number;
+  distancia_m?: number;
+}
+
 export enum ProcessStatus {
   IDLE = 'IDLE',
   UPLOADING = 'UPLOADING',